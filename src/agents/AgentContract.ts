@@ -45,14 +45,17 @@ export interface ValidationEventPayload extends BaseEventPayload {
 export interface BackupEventPayload extends BaseEventPayload {
   hash: string;
   size?: number;
-  operation: 'store' | 'retrieve' | 'delete' | 'validate';
+  operation: 'store' | 'retrieve' | 'delete' | 'validate' | 'replicate';
   content?: string;
+  // Set on 'validate' events
+  result?: boolean;
+  reason?: string;
 }
 
 export interface SnapshotEventPayload extends BaseEventPayload {
   snapshotId: string;
   nodeCount?: number;
-  operation: 'create' | 'restore' | 'validate' | 'delete';
+  operation: 'create' | 'restore' | 'validate' | 'delete' | 'migrate' | 'squash' | 'import';
   result?: boolean;
 }
 
@@ -65,6 +68,44 @@ export interface CulturalTransformationEventPayload extends BaseEventPayload {
   data?: unknown;
 }
 
+export interface OrchestrationEventPayload extends BaseEventPayload {
+  dagId: string;
+  nodeId?: string;
+  operation: 'orchestrate' | 'start' | 'complete' | 'fail';
+  completedNodes?: number;
+  failedNodes?: number;
+  error?: string;
+}
+
+export interface ContextEventPayload extends BaseEventPayload {
+  correlationId: string;
+  operation: 'propagate' | 'start' | 'complete' | 'fail';
+  slice?: ContextSlice;
+  contextVersion?: number;
+  changedKeys?: string[];
+  conflicts?: number;
+  error?: string;
+}
+
+export interface KnowledgeEventPayload extends BaseEventPayload {
+  query: string;
+  operation: 'retrieve' | 'complete' | 'fail';
+  sources?: string[];
+  confidence?: number;
+  passageCount?: number;
+  error?: string;
+}
+
+export interface BehaviorEventPayload extends BaseEventPayload {
+  behaviorId: string;
+  operation: 'trigger' | 'skip' | 'action' | 'outcome' | 'fail';
+  actionId?: string;
+  parameters?: Record<string, string | number | boolean>;
+  outcome?: 'success' | 'failure' | 'partial';
+  nextActions?: string[];
+  error?: string;
+}
+
 export type EventPayload = 
   | SpecificationEventPayload
   | DesignEventPayload
@@ -73,7 +114,11 @@ export type EventPayload =
   | ValidationEventPayload
   | BackupEventPayload
   | SnapshotEventPayload
-  | CulturalTransformationEventPayload;
+  | CulturalTransformationEventPayload
+  | OrchestrationEventPayload
+  | ContextEventPayload
+  | KnowledgeEventPayload
+  | BehaviorEventPayload;
 
 export interface AgentContract {
   readonly id: string;
@@ -95,6 +140,36 @@ export interface AgentContract {
   trackUserInteraction(interaction: UserInteraction): void;
 }
 
+// Snapshot participation
+
+export interface AgentSnapshotState {
+  // JSON-serialisable state, stored in CAS as the agent's DAG node content
+  state: unknown;
+  // Agent ids, roles or class names this state builds on (as in `dependencies`)
+  dependencies: string[];
+  capability?: string;
+  designIntent?: string;
+  userRequirement?: string;
+}
+
+/**
+ * Implemented by agents whose state belongs in backups. The backup manager
+ * stores each participant's captured state as one DAG node and hands the
+ * stored state back to the agent on restore.
+ */
+export interface SnapshotParticipant {
+  captureSnapshotState(): AgentSnapshotState | Promise<AgentSnapshotState>;
+  restoreSnapshotState(state: unknown): void | Promise<void>;
+  // Rebuilds lost state by re-running `capability` on the states it was
+  // derived from (the contents of the node's inputHashes, in order)
+  recomputeSnapshotState?(capability: string, inputs: unknown[]): unknown | Promise<unknown>;
+}
+
+export function isSnapshotParticipant(agent: object): agent is SnapshotParticipant {
+  const candidate = agent as Partial<SnapshotParticipant>;
+  return typeof candidate.captureSnapshotState === 'function' && typeof candidate.restoreSnapshotState === 'function';
+}
+
 export interface TraceEvent {
   timestamp: Date;
   eventType: string;
@@ -120,6 +195,25 @@ export interface ValidationResult {
   details?: Record<string, string | number | boolean>;
 }
 
+// Context propagation
+
+export type ContextValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ContextValue[]
+  | { [key: string]: ContextValue };
+
+export interface ContextSlice {
+  correlationId: string;
+  sourceAgent: string;
+  data: Record<string, ContextValue>;
+  // Version the update was based on; a mismatch marks the update as stale
+  baseVersion?: number;
+  timestamp?: Date;
+}
+
 // DDD/SDD Enhanced Interfaces
 
 export interface AgentSpecification {
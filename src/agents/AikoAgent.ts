@@ -11,10 +11,19 @@ import {
   UserRequirement,
   ValidationRule,
   EventPayload,
-  ValidationInput
+  ValidationInput,
+  SnapshotParticipant,
+  AgentSnapshotState
 } from './AgentContract';
 
-export class AikoAgent implements AgentContract {
+// Shape of the state AikoAgent contributes to backup snapshots
+interface AikoSnapshotState {
+  specifications: AgentSpecification[];
+  designArtifacts: DesignArtifact[];
+  userInteractions: UserInteraction[];
+}
+
+export class AikoAgent implements AgentContract, SnapshotParticipant {
   readonly id: string;
   readonly role = 'SemanticValidator';
   readonly dependencies: string[] = [];
@@ -310,6 +319,38 @@ export class AikoAgent implements AgentContract {
     });
   }
   
+  // Snapshot participation
+  
+  captureSnapshotState(): AgentSnapshotState {
+    const state: AikoSnapshotState = {
+      specifications: Array.from(this.specifications.values()),
+      designArtifacts: this.designArtifacts,
+      userInteractions: this.userInteractions
+    };
+    
+    return {
+      state,
+      dependencies: [...this.dependencies],
+      capability: 'semantic-validation',
+      designIntent: 'Preserve validated specifications, design artifacts and user interactions'
+    };
+  }
+  
+  restoreSnapshotState(state: unknown): void {
+    const snapshot = state as Partial<AikoSnapshotState>;
+    
+    // Dates come back from CAS as ISO strings
+    this.specifications = new Map((snapshot.specifications ?? []).map(spec => [spec.id, spec]));
+    this.designArtifacts = (snapshot.designArtifacts ?? []).map(artifact => ({
+      ...artifact,
+      createdAt: new Date(artifact.createdAt)
+    }));
+    this.userInteractions = (snapshot.userInteractions ?? []).map(interaction => ({
+      ...interaction,
+      timestamp: new Date(interaction.timestamp)
+    }));
+  }
+  
   // Private methods for DDD/SDD functionality
   
   private initializeValidationRules(): void {
@@ -0,0 +1,413 @@
+// src/agents/AlexOrchestratorAgent.ts
+// Alex DAG orchestrator: executes graphs of DAGNode entries in dependency order,
+// running independent nodes concurrently and storing node outputs in CAS.
+
+import {
+  AgentContract,
+  AgentSpecification,
+  AgentStatus,
+  DesignArtifact,
+  EventPayload,
+  OrchestrationEventPayload,
+  TraceEvent,
+  UserInteraction,
+  ValidationResult
+} from './AgentContract';
+import {
+  ContentAddressableStorage,
+  DAGEdge,
+  DAGNode
+} from '../backup/ContentAddressableStorage';
+
+export interface DAGSpec {
+  id: string;
+  nodes: Record<string, DAGNode>;
+  edges?: DAGEdge[];
+}
+
+export interface NodeExecutionContext {
+  node: DAGNode;
+  // Outputs of the node's direct dependencies, keyed by node id
+  inputs: Record<string, unknown>;
+  dagId: string;
+}
+
+export type NodeExecutor = (context: NodeExecutionContext) => Promise<unknown>;
+
+export interface NodeFailure {
+  nodeId: string;
+  error: string;
+}
+
+export interface OrchestrationResult {
+  dagId: string;
+  status: 'completed' | 'failed' | 'deadlocked';
+  outputs: Record<string, string>;
+  completed: string[];
+  failed: NodeFailure[];
+  // Nodes that never ran because an upstream node failed
+  skipped: string[];
+  // Nodes that can never run: dependency cycles or references to unknown nodes
+  deadlocked: string[];
+  durationMs: number;
+}
+
+export interface OrchestratorOptions {
+  maxConcurrency?: number;
+}
+
+export class AlexOrchestratorAgent implements AgentContract {
+  readonly id: string;
+  readonly role = 'DAGOrchestrator';
+  readonly dependencies: string[] = [];
+
+  private status: AgentStatus = {
+    status: 'initializing',
+    uptime: 0
+  };
+  private startTime: number = Date.now();
+  private cas: ContentAddressableStorage;
+  private maxConcurrency: number;
+  private executors: Map<string, NodeExecutor> = new Map();
+  private workflows: Map<string, DAGSpec> = new Map();
+  private results: Map<string, OrchestrationResult> = new Map();
+
+  constructor(id: string, cas: ContentAddressableStorage, options: OrchestratorOptions = {}) {
+    this.id = id;
+    this.cas = cas;
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+  }
+
+  async initialize(): Promise<void> {
+    this.startTime = Date.now();
+    this.status = {
+      status: 'ready',
+      uptime: 0
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.initialized',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  async handleEvent(eventType: string, payload: EventPayload): Promise<void> {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload,
+      metadata: { sourceAgent: this.id }
+    });
+
+    if (eventType === 'dag.orchestrate' && 'dagId' in payload) {
+      const workflow = this.workflows.get(payload.dagId);
+      if (workflow) {
+        await this.orchestrateWorkflow(workflow);
+      }
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.status = {
+      status: 'shutting-down',
+      uptime: Date.now() - this.startTime
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.shutdown',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  emitTrace(event: TraceEvent): void {
+    console.log(`[AlexOrchestratorAgent:${this.id}]`, event);
+  }
+
+  getStatus(): AgentStatus {
+    return {
+      ...this.status,
+      uptime: this.status.status === 'ready'
+        ? Date.now() - this.startTime
+        : this.status.uptime
+    };
+  }
+
+  // DDD/SDD Implementation
+
+  validateSpecification(spec: AgentSpecification): ValidationResult {
+    // Every capability of an orchestrated agent needs an executor to be schedulable
+    const missing = spec.capabilities
+      .filter(cap => !this.executors.has(cap.id) && !this.executors.has(cap.name))
+      .map(cap => cap.id);
+
+    return {
+      result: missing.length === 0,
+      consensus: true,
+      reason: missing.length > 0 ? `No executor registered for capabilities: ${missing.join(', ')}` : undefined,
+      details: { specificationId: spec.id, missingExecutors: missing.length }
+    };
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    return Array.from(this.results.values()).map(result => ({
+      id: `orchestration-${result.dagId}`,
+      type: 'userFlow' as const,
+      content: {
+        type: 'userFlow' as const,
+        data: { ...result },
+        metadata: { agentId: this.id, dagId: result.dagId, status: result.status },
+        schema: 'orchestration-result-v1'
+      },
+      version: '1.0.0',
+      createdAt: new Date(),
+      validatedBy: [this.id]
+    }));
+  }
+
+  trackUserInteraction(interaction: UserInteraction): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'user.interaction.tracked',
+      payload: {
+        interactionId: interaction.id,
+        userId: interaction.userId,
+        sessionId: interaction.sessionId,
+        action: interaction.action,
+        context: interaction.context,
+        timestamp: interaction.timestamp,
+        outcome: interaction.outcome,
+        feedback: interaction.feedback,
+        correlationId: interaction.sessionId,
+        sourceAgent: this.id
+      },
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  // Orchestration
+
+  registerExecutor(capability: string, executor: NodeExecutor): void {
+    this.executors.set(capability, executor);
+  }
+
+  registerWorkflow(dag: DAGSpec): void {
+    this.workflows.set(dag.id, dag);
+  }
+
+  getResult(dagId: string): OrchestrationResult | undefined {
+    return this.results.get(dagId);
+  }
+
+  /**
+   * Executes every node of the DAG once its dependencies have completed. Node
+   * statuses move pending -> computing -> completed/failed in place, outputs
+   * are stored in CAS and input/output hashes are recorded on each node.
+   */
+  async orchestrateWorkflow(dag: DAGSpec): Promise<OrchestrationResult> {
+    const startedAt = Date.now();
+    const dependencies = this.collectDependencies(dag);
+    const deadlocked = this.findDeadlockedNodes(dag, dependencies);
+
+    const outputs: Record<string, string> = {};
+    const values: Map<string, unknown> = new Map();
+    const completed: string[] = [];
+    const failed: NodeFailure[] = [];
+    const skipped: string[] = [];
+    const pending = new Set(Object.keys(dag.nodes).filter(id => !deadlocked.includes(id)));
+    const running: Map<string, Promise<void>> = new Map();
+
+    for (const node of Object.values(dag.nodes)) {
+      node.status = 'pending';
+    }
+
+    this.emitOrchestrationTrace('dag.orchestration.started', { dagId: dag.id, operation: 'start' });
+
+    const runNode = async (nodeId: string): Promise<void> => {
+      const node = dag.nodes[nodeId];
+      const deps = dependencies.get(nodeId)!;
+      const nodeStart = Date.now();
+      node.status = 'computing';
+
+      try {
+        const executor = this.executors.get(node.metadata.capability);
+        if (!executor) {
+          throw new Error(`No executor registered for capability: ${node.metadata.capability}`);
+        }
+
+        const inputs: Record<string, unknown> = {};
+        for (const depId of deps) {
+          inputs[depId] = values.get(depId);
+        }
+
+        const output = await executor({ node, inputs, dagId: dag.id });
+        const hash = await this.cas.store(output, {
+          dagId: dag.id,
+          nodeId,
+          capability: node.metadata.capability,
+          agentId: node.agentId
+        });
+
+        node.hash = hash;
+        node.metadata.inputHashes = deps.map(depId => outputs[depId]);
+        node.metadata.outputHashes = [hash];
+        node.metadata.computationTime = Date.now() - nodeStart;
+        node.metadata.validationResult = { result: true, consensus: true };
+        node.status = 'completed';
+
+        values.set(nodeId, output);
+        outputs[nodeId] = hash;
+        completed.push(nodeId);
+        this.emitOrchestrationTrace('dag.node.completed', { dagId: dag.id, nodeId, operation: 'complete' });
+      } catch (error) {
+        const message = (error as Error).message;
+        node.metadata.computationTime = Date.now() - nodeStart;
+        node.metadata.validationResult = { result: false, consensus: false, reason: message };
+        node.status = 'failed';
+
+        failed.push({ nodeId, error: message });
+        this.emitOrchestrationTrace('dag.node.failed', { dagId: dag.id, nodeId, operation: 'fail', error: message });
+      }
+    };
+
+    while (pending.size > 0 || running.size > 0) {
+      // Skip everything downstream of a failure, whatever order the nodes are
+      // declared in, before looking for runnable nodes
+      let skippedMore = true;
+      while (skippedMore) {
+        skippedMore = false;
+        for (const nodeId of Array.from(pending)) {
+          const deps = dependencies.get(nodeId)!;
+          if (deps.some(depId => failed.some(f => f.nodeId === depId) || skipped.includes(depId))) {
+            pending.delete(nodeId);
+            skipped.push(nodeId);
+            skippedMore = true;
+          }
+        }
+      }
+
+      for (const nodeId of Array.from(pending)) {
+        const deps = dependencies.get(nodeId)!;
+
+        if (running.size >= this.maxConcurrency) continue;
+
+        if (deps.every(depId => completed.includes(depId))) {
+          pending.delete(nodeId);
+          running.set(nodeId, runNode(nodeId).then(() => {
+            running.delete(nodeId);
+          }));
+        }
+      }
+
+      if (running.size === 0) {
+        // Nothing runnable and nothing in flight: whatever is left can never start
+        deadlocked.push(...Array.from(pending));
+        pending.clear();
+        break;
+      }
+
+      await Promise.race(running.values());
+    }
+
+    const result: OrchestrationResult = {
+      dagId: dag.id,
+      status: deadlocked.length > 0 ? 'deadlocked' : failed.length > 0 ? 'failed' : 'completed',
+      outputs,
+      completed,
+      failed,
+      skipped,
+      deadlocked,
+      durationMs: Date.now() - startedAt
+    };
+    this.results.set(dag.id, result);
+
+    this.emitOrchestrationTrace(
+      result.status === 'completed' ? 'dag.orchestration.completed' : 'dag.orchestration.failed',
+      {
+        dagId: dag.id,
+        operation: result.status === 'completed' ? 'complete' : 'fail',
+        completedNodes: completed.length,
+        failedNodes: failed.length + skipped.length + deadlocked.length,
+        error: result.status === 'completed' ? undefined : this.describeFailure(result)
+      }
+    );
+
+    return result;
+  }
+
+  private collectDependencies(dag: DAGSpec): Map<string, string[]> {
+    const dependencies = new Map<string, string[]>();
+
+    for (const [nodeId, node] of Object.entries(dag.nodes)) {
+      dependencies.set(nodeId, [...node.deps]);
+    }
+    for (const edge of dag.edges || []) {
+      const deps = dependencies.get(edge.to);
+      if (deps && !deps.includes(edge.from)) {
+        deps.push(edge.from);
+      }
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * Finds nodes that can never be scheduled: members of dependency cycles,
+   * nodes depending on unknown nodes, and everything downstream of those.
+   */
+  private findDeadlockedNodes(dag: DAGSpec, dependencies: Map<string, string[]>): string[] {
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    for (const nodeId of Object.keys(dag.nodes)) {
+      dependents.set(nodeId, []);
+    }
+    for (const [nodeId, deps] of dependencies) {
+      // Unknown dependencies count towards the in-degree and are never released
+      inDegree.set(nodeId, deps.length);
+      for (const depId of deps) {
+        dependents.get(depId)?.push(nodeId);
+      }
+    }
+
+    const queue = Array.from(inDegree).filter(([, degree]) => degree === 0).map(([nodeId]) => nodeId);
+    const reachable = new Set<string>();
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      reachable.add(nodeId);
+      for (const dependent of dependents.get(nodeId)!) {
+        inDegree.set(dependent, inDegree.get(dependent)! - 1);
+        if (inDegree.get(dependent) === 0) {
+          queue.push(dependent);
+        }
+      }
+    }
+
+    return Object.keys(dag.nodes).filter(nodeId => !reachable.has(nodeId));
+  }
+
+  private describeFailure(result: OrchestrationResult): string {
+    const parts: string[] = [];
+    if (result.failed.length > 0) parts.push(`failed: ${result.failed.map(f => f.nodeId).join(', ')}`);
+    if (result.skipped.length > 0) parts.push(`skipped: ${result.skipped.join(', ')}`);
+    if (result.deadlocked.length > 0) parts.push(`deadlocked: ${result.deadlocked.join(', ')}`);
+    return parts.join('; ');
+  }
+
+  private emitOrchestrationTrace(
+    eventType: string,
+    payload: Omit<OrchestrationEventPayload, 'timestamp' | 'sourceAgent' | 'correlationId'>
+  ): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload: {
+        ...payload,
+        timestamp: new Date(),
+        correlationId: payload.dagId,
+        sourceAgent: this.id
+      },
+      metadata: { sourceAgent: this.id, correlationId: payload.dagId }
+    });
+  }
+}
@@ -1 +1,465 @@
- 
\ No newline at end of file
+// src/agents/BusinessLogicAgent.ts
+// Business logic agent: executes the behaviors of an AgentSpecification,
+// firing them from events, schedules, conditions or manual requests.
+
+import {
+  Action,
+  AgentContract,
+  AgentSpecification,
+  AgentStatus,
+  Behavior,
+  BehaviorEventPayload,
+  Condition,
+  DesignArtifact,
+  EventPayload,
+  Outcome,
+  TraceEvent,
+  UserInteraction,
+  ValidationResult
+} from './AgentContract';
+import { EventBus, matchesEventPattern } from '../events/EventBus';
+import { checkConditions, evaluateCondition, parseCondition } from '../specifications/ConditionExpression';
+
+export type BehaviorFunction = (
+  parameters: Action['parameters'],
+  scope: BehaviorScope
+) => unknown | Promise<unknown>;
+
+// Values visible to conditions and actions while a behavior runs
+export interface BehaviorScope {
+  state: Record<string, unknown>;
+  input: Record<string, unknown>;
+  payload?: EventPayload;
+  eventType?: string;
+}
+
+export interface ActionResult {
+  actionId: string;
+  type: Action['type'];
+  target: string;
+  success: boolean;
+  output?: unknown;
+  error?: string;
+}
+
+export interface BehaviorExecution {
+  behaviorId: string;
+  triggerType: Behavior['trigger']['type'];
+  eventType?: string;
+  conditionsMet: boolean;
+  actions: ActionResult[];
+  outcomeType?: Outcome['type'];
+  outcome?: Outcome;
+  nextActions: string[];
+  startedAt: Date;
+  durationMs: number;
+}
+
+export interface BusinessLogicOptions {
+  // Bus used to publish the events dispatched by 'event' actions
+  bus?: EventBus;
+}
+
+const SCHEDULE_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+// setInterval runs longer delays every 1ms instead, so they are rejected
+const MAX_SCHEDULE_INTERVAL_MS = 2147483647;
+
+export class BusinessLogicAgent implements AgentContract {
+  readonly id: string;
+  readonly role = 'BusinessLogic';
+  readonly dependencies: string[] = [];
+
+  private status: AgentStatus = {
+    status: 'initializing',
+    uptime: 0
+  };
+  private startTime: number = Date.now();
+  private spec?: AgentSpecification;
+  private state: Record<string, unknown> = {};
+  private functions: Map<string, BehaviorFunction> = new Map();
+  private executions: BehaviorExecution[] = [];
+  private timers: ReturnType<typeof setInterval>[] = [];
+  // Last value of each condition trigger; behaviors fire on a false -> true edge
+  private conditionStates: Map<string, boolean> = new Map();
+  private evaluatingConditions = false;
+  private bus?: EventBus;
+
+  constructor(id: string, spec?: AgentSpecification, options: BusinessLogicOptions = {}) {
+    this.id = id;
+    this.bus = options.bus;
+    if (spec) {
+      this.loadSpecification(spec);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    this.startTime = Date.now();
+    this.status = {
+      status: 'ready',
+      uptime: 0
+    };
+    this.startSchedules();
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.initialized',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  async handleEvent(eventType: string, payload: EventPayload): Promise<void> {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload,
+      metadata: { sourceAgent: this.id }
+    });
+
+    for (const behavior of this.getBehaviors('event')) {
+      if (matchesEventPattern(behavior.trigger.value, eventType)) {
+        await this.runBehavior(behavior, { state: this.state, input: {}, payload, eventType });
+      }
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.status = {
+      status: 'shutting-down',
+      uptime: Date.now() - this.startTime
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.shutdown',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  emitTrace(event: TraceEvent): void {
+    console.log(`[BusinessLogicAgent:${this.id}]`, event);
+  }
+
+  getStatus(): AgentStatus {
+    return {
+      ...this.status,
+      uptime: this.status.status === 'ready'
+        ? Date.now() - this.startTime
+        : this.status.uptime
+    };
+  }
+
+  // DDD/SDD Implementation
+
+  validateSpecification(spec: AgentSpecification): ValidationResult {
+    const errors: string[] = [];
+    const behaviorIds = new Set<string>();
+
+    for (const behavior of spec.behaviors) {
+      if (behaviorIds.has(behavior.id)) {
+        errors.push(`Duplicate behavior id: ${behavior.id}`);
+      }
+      behaviorIds.add(behavior.id);
+
+      if (behavior.trigger.type === 'schedule') {
+        const interval = this.parseInterval(behavior.trigger.value);
+        if (interval === undefined) {
+          errors.push(`Behavior ${behavior.id} has an invalid schedule: ${behavior.trigger.value}`);
+        } else if (interval > MAX_SCHEDULE_INTERVAL_MS) {
+          errors.push(`Behavior ${behavior.id} schedule ${behavior.trigger.value} exceeds the maximum of ${MAX_SCHEDULE_INTERVAL_MS}ms`);
+        }
+      }
+      if (behavior.actions.length === 0) {
+        errors.push(`Behavior ${behavior.id} has no actions`);
+      }
+      const expressions = behavior.conditions.map(condition => condition.expression);
+      if (behavior.trigger.type === 'condition') {
+        expressions.push(behavior.trigger.value);
+      }
+      for (const expression of expressions) {
+        try {
+          parseCondition(expression);
+        } catch (error) {
+          errors.push(`Behavior ${behavior.id}: ${(error as Error).message}`);
+        }
+      }
+      for (const action of behavior.actions) {
+        if (!action.target) {
+          errors.push(`Action ${action.id} of behavior ${behavior.id} has no target`);
+        }
+      }
+    }
+
+    return {
+      result: errors.length === 0,
+      consensus: errors.length === 0,
+      reason: errors.length > 0 ? errors.join('; ') : undefined,
+      details: { specificationId: spec.id, behaviors: spec.behaviors.length, errors: errors.length }
+    };
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    return [{
+      id: `behavior-model-${this.id}`,
+      type: 'interactionModel',
+      content: {
+        type: 'interactionModel',
+        data: {
+          behaviors: (this.spec?.behaviors ?? []).map(behavior => ({
+            id: behavior.id,
+            trigger: behavior.trigger,
+            actions: behavior.actions.map(action => `${action.type}:${action.target}`),
+            outcomes: behavior.outcomes.map(outcome => outcome.type)
+          })),
+          executions: this.executions.map(execution => ({
+            behaviorId: execution.behaviorId,
+            outcomeType: execution.outcomeType,
+            nextActions: execution.nextActions
+          }))
+        },
+        metadata: {
+          agentId: this.id,
+          specificationId: this.spec?.id ?? 'none',
+          executionCount: this.executions.length
+        },
+        schema: 'behavior-model-v1'
+      },
+      version: '1.0.0',
+      createdAt: new Date(),
+      validatedBy: [this.id]
+    }];
+  }
+
+  trackUserInteraction(interaction: UserInteraction): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'user.interaction.tracked',
+      metadata: { sourceAgent: this.id, correlationId: interaction.sessionId }
+    });
+  }
+
+  // Behavior execution
+
+  loadSpecification(spec: AgentSpecification): ValidationResult {
+    const validation = this.validateSpecification(spec);
+    if (!validation.result) {
+      throw new Error(`Invalid behavior specification ${spec.id}: ${validation.reason}`);
+    }
+
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    this.spec = spec;
+    this.conditionStates.clear();
+    if (this.status.status === 'ready') {
+      this.startSchedules();
+    }
+    return validation;
+  }
+
+  registerFunction(name: string, fn: BehaviorFunction): void {
+    this.functions.set(name, fn);
+  }
+
+  getState(): Record<string, unknown> {
+    return { ...this.state };
+  }
+
+  getExecutions(behaviorId?: string): BehaviorExecution[] {
+    return behaviorId
+      ? this.executions.filter(execution => execution.behaviorId === behaviorId)
+      : [...this.executions];
+  }
+
+  /**
+   * Runs a behavior on request. Any trigger type can be executed this way;
+   * 'manual' behaviors can only run through this method.
+   */
+  async executeBehavior(behaviorId: string, input: Record<string, unknown> = {}): Promise<BehaviorExecution> {
+    const behavior = this.spec?.behaviors.find(candidate => candidate.id === behaviorId);
+    if (!behavior) {
+      throw new Error(`Unknown behavior: ${behaviorId}`);
+    }
+    return this.runBehavior(behavior, { state: this.state, input });
+  }
+
+  private async runBehavior(behavior: Behavior, scope: BehaviorScope): Promise<BehaviorExecution> {
+    const startedAt = new Date();
+    const correlationId = scope.payload?.correlationId;
+    this.emitBehaviorTrace('behavior.triggered', { behaviorId: behavior.id, operation: 'trigger', correlationId });
+
+    const execution: BehaviorExecution = {
+      behaviorId: behavior.id,
+      triggerType: behavior.trigger.type,
+      eventType: scope.eventType,
+      conditionsMet: this.evaluateConditions(behavior.conditions, scope),
+      actions: [],
+      nextActions: [],
+      startedAt,
+      durationMs: 0
+    };
+
+    if (!execution.conditionsMet) {
+      execution.durationMs = Date.now() - startedAt.getTime();
+      this.executions.push(execution);
+      this.emitBehaviorTrace('behavior.skipped', { behaviorId: behavior.id, operation: 'skip', correlationId });
+      return execution;
+    }
+
+    for (const action of behavior.actions) {
+      const result = await this.dispatchAction(behavior, action, scope);
+      execution.actions.push(result);
+      this.emitBehaviorTrace(result.success ? 'behavior.action.dispatched' : 'behavior.action.failed', {
+        behaviorId: behavior.id,
+        operation: result.success ? 'action' : 'fail',
+        actionId: action.id,
+        parameters: action.parameters,
+        error: result.error,
+        correlationId
+      });
+    }
+
+    const succeeded = execution.actions.filter(result => result.success).length;
+    execution.outcomeType = succeeded === execution.actions.length
+      ? 'success'
+      : succeeded === 0 ? 'failure' : 'partial';
+    execution.outcome = behavior.outcomes.find(outcome => outcome.type === execution.outcomeType);
+    execution.nextActions = execution.outcome?.nextActions ?? [];
+    execution.durationMs = Date.now() - startedAt.getTime();
+    this.executions.push(execution);
+
+    this.emitBehaviorTrace('behavior.outcome.recorded', {
+      behaviorId: behavior.id,
+      operation: 'outcome',
+      outcome: execution.outcomeType,
+      nextActions: execution.nextActions,
+      correlationId
+    });
+
+    await this.evaluateConditionTriggers();
+    return execution;
+  }
+
+  private async dispatchAction(behavior: Behavior, action: Action, scope: BehaviorScope): Promise<ActionResult> {
+    const base = { actionId: action.id, type: action.type, target: action.target };
+
+    try {
+      switch (action.type) {
+        case 'function': {
+          const fn = this.functions.get(action.target);
+          if (!fn) {
+            throw new Error(`No function registered: ${action.target}`);
+          }
+          return { ...base, success: true, output: await fn(action.parameters, scope) };
+        }
+        case 'event': {
+          const payload: BehaviorEventPayload = {
+            behaviorId: behavior.id,
+            operation: 'action',
+            actionId: action.id,
+            parameters: action.parameters,
+            timestamp: new Date(),
+            correlationId: scope.payload?.correlationId,
+            sourceAgent: this.id
+          };
+          if (!this.bus) {
+            throw new Error(`No event bus attached; ${action.target} was not delivered`);
+          }
+          const published = await this.bus.publish(action.target, payload);
+          return { ...base, success: true, output: published.delivered };
+        }
+        case 'state-change': {
+          // A 'value' parameter replaces the key; other parameters are merged into it
+          const { value, ...rest } = action.parameters;
+          const current = this.state[action.target];
+          this.state[action.target] = value !== undefined
+            ? value
+            : { ...(current && typeof current === 'object' ? current : {}), ...rest };
+          return { ...base, success: true, output: this.state[action.target] };
+        }
+        default:
+          throw new Error(`Unsupported action type: ${(action as Action).type}`);
+      }
+    } catch (error) {
+      return { ...base, success: false, error: (error as Error).message };
+    }
+  }
+
+  // Conditions are expressions over the behavior scope (state, input, payload, eventType)
+  private evaluateConditions(conditions: Condition[], scope: BehaviorScope): boolean {
+    return checkConditions(conditions, { ...scope }, 'condition').result;
+  }
+
+  private async evaluateConditionTriggers(): Promise<void> {
+    // Behaviors fired here re-enter through runBehavior; evaluate one level at a time
+    if (this.evaluatingConditions) return;
+    this.evaluatingConditions = true;
+
+    try {
+      for (const behavior of this.getBehaviors('condition')) {
+        const scope: BehaviorScope = { state: this.state, input: {} };
+        const current = this.evaluateTrigger(behavior.trigger.value, scope);
+        const previous = this.conditionStates.get(behavior.id) ?? false;
+        this.conditionStates.set(behavior.id, current);
+
+        if (current && !previous) {
+          await this.runBehavior(behavior, scope);
+        }
+      }
+    } finally {
+      this.evaluatingConditions = false;
+    }
+  }
+
+  private startSchedules(): void {
+    for (const behavior of this.getBehaviors('schedule')) {
+      const interval = this.parseInterval(behavior.trigger.value);
+      if (interval === undefined || interval > MAX_SCHEDULE_INTERVAL_MS) continue;
+      const timer = setInterval(() => {
+        this.runBehavior(behavior, { state: this.state, input: {} }).catch(error => {
+          this.emitBehaviorTrace('behavior.action.failed', {
+            behaviorId: behavior.id,
+            operation: 'fail',
+            error: (error as Error).message
+          });
+        });
+      }, interval);
+      // Scheduled behaviors should not keep the process alive on their own
+      if (typeof timer === 'object' && 'unref' in timer) {
+        timer.unref();
+      }
+      this.timers.push(timer);
+    }
+  }
+
+  // Accepts plain milliseconds or a number with an ms/s/m/h suffix
+  private parseInterval(value: string): number | undefined {
+    const match = /^\s*(\d+)\s*(ms|s|m|h)?\s*$/.exec(value);
+    if (!match) return undefined;
+    const interval = Number(match[1]) * SCHEDULE_UNITS[match[2] ?? 'ms'];
+    return interval > 0 ? interval : undefined;
+  }
+
+  private getBehaviors(type: Behavior['trigger']['type']): Behavior[] {
+    return (this.spec?.behaviors ?? []).filter(behavior => behavior.trigger.type === type);
+  }
+
+  private evaluateTrigger(expression: string, scope: BehaviorScope): boolean {
+    try {
+      return !!evaluateCondition(expression, { ...scope });
+    } catch {
+      // A malformed or type-mismatched trigger simply does not fire
+      return false;
+    }
+  }
+
+  private emitBehaviorTrace(
+    eventType: string,
+    payload: Omit<BehaviorEventPayload, 'timestamp' | 'sourceAgent'>
+  ): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload: { ...payload, timestamp: new Date(), sourceAgent: this.id },
+      metadata: { sourceAgent: this.id, correlationId: payload.correlationId }
+    });
+  }
+}
@@ -1 +1,389 @@
- 
\ No newline at end of file
+// src/agents/ComplianceAgent.ts
+// Compliance agent: evaluates specifications and events against pluggable
+// policy packs and escalates critical violations to the compliance officer.
+
+import {
+  AgentContract,
+  AgentSpecification,
+  AgentStatus,
+  Constraint,
+  DesignArtifact,
+  EventPayload,
+  TraceEvent,
+  UserInteraction,
+  ValidationResult
+} from './AgentContract';
+
+export type ComplianceConstraintType = Extract<Constraint['type'], 'security' | 'business'>;
+export type ComplianceSeverity = Constraint['severity'];
+
+export interface PolicyRule {
+  id: string;
+  description: string;
+  constraintTypes: ComplianceConstraintType[];
+  // Overrides the severity of the constraint (or 'medium' for event checks)
+  severity?: ComplianceSeverity;
+  // Return a violation message, or undefined when the constraint complies
+  checkConstraint?: (constraint: Constraint, spec: AgentSpecification) => string | undefined;
+  checkEvent?: (eventType: string, payload: EventPayload) => string | undefined;
+}
+
+export interface PolicyPack {
+  id: string;
+  name: string;
+  version: string;
+  rules: PolicyRule[];
+}
+
+export interface ComplianceViolation {
+  packId: string;
+  ruleId: string;
+  severity: ComplianceSeverity;
+  message: string;
+  constraintId?: string;
+  eventType?: string;
+}
+
+export interface ComplianceEvaluation {
+  target: string;
+  kind: 'specification' | 'event';
+  result: ValidationResult;
+  violations: ComplianceViolation[];
+  evaluatedAt: Date;
+}
+
+export const COMPLIANCE_OFFICER = 'compliance-officer';
+
+const SEVERITY_ORDER: ComplianceSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+const SECRET_KEY_PATTERN = /(password|passwd|secret|token|api[-_]?key|private[-_]?key)/i;
+
+export const securityPolicyPack: PolicyPack = {
+  id: 'security-baseline',
+  name: 'Security baseline',
+  version: '1.0.0',
+  rules: [
+    {
+      id: 'security-constraint-enforced',
+      description: 'Security constraints must declare the rule that enforces them',
+      constraintTypes: ['security'],
+      checkConstraint: constraint => constraint.validationRule && constraint.validationRule.trim() !== ''
+        ? undefined
+        : `Security constraint ${constraint.id} has no validation rule`
+    },
+    {
+      id: 'security-inputs-validated',
+      description: 'Agents with high or critical security constraints must validate every input',
+      constraintTypes: ['security'],
+      checkConstraint: (constraint, spec): string | undefined => {
+        if (constraint.severity !== 'high' && constraint.severity !== 'critical') return undefined;
+        const unvalidated = spec.capabilities
+          .flatMap(cap => cap.inputs.map(input => ({ cap, input })))
+          .filter(({ input }) => !input.validation)
+          .map(({ cap, input }) => `${cap.id}.${input.name}`);
+        return unvalidated.length > 0
+          ? `Inputs without validation under ${constraint.id}: ${unvalidated.join(', ')}`
+          : undefined;
+      }
+    },
+    {
+      id: 'security-no-secrets-in-events',
+      description: 'Events must not carry secrets in user interaction context',
+      constraintTypes: ['security'],
+      severity: 'critical',
+      checkEvent: (_eventType, payload): string | undefined => {
+        if (!('context' in payload) || typeof payload.context !== 'object' || payload.context === null) return undefined;
+        const leaked = Object.keys(payload.context).filter(key => SECRET_KEY_PATTERN.test(key));
+        return leaked.length > 0 ? `Event context exposes secrets: ${leaked.join(', ')}` : undefined;
+      }
+    }
+  ]
+};
+
+export const businessPolicyPack: PolicyPack = {
+  id: 'business-baseline',
+  name: 'Business baseline',
+  version: '1.0.0',
+  rules: [
+    {
+      id: 'business-constraint-described',
+      description: 'Business constraints must describe the rule they protect',
+      constraintTypes: ['business'],
+      checkConstraint: constraint => constraint.description && constraint.description.trim() !== ''
+        ? undefined
+        : `Business constraint ${constraint.id} has no description`
+    },
+    {
+      id: 'business-critical-traceable',
+      description: 'Critical business constraints must trace back to a high-priority user requirement',
+      constraintTypes: ['business'],
+      checkConstraint: (constraint, spec): string | undefined => {
+        if (constraint.severity !== 'critical') return undefined;
+        const traced = spec.userRequirements.some(req =>
+          req.priority === 'critical' || req.priority === 'high'
+        );
+        return traced
+          ? undefined
+          : `Critical business constraint ${constraint.id} has no high-priority user requirement`;
+      }
+    }
+  ]
+};
+
+export class ComplianceAgent implements AgentContract {
+  readonly id: string;
+  readonly role = 'ComplianceOfficer';
+  readonly dependencies: string[] = [];
+
+  private status: AgentStatus = {
+    status: 'initializing',
+    uptime: 0
+  };
+  private startTime: number = Date.now();
+  private packs: Map<string, PolicyPack> = new Map();
+  private evaluations: ComplianceEvaluation[] = [];
+
+  constructor(id: string = 'compliance-agent', packs: PolicyPack[] = [securityPolicyPack, businessPolicyPack]) {
+    this.id = id;
+    packs.forEach(pack => this.loadPolicyPack(pack));
+  }
+
+  async initialize(): Promise<void> {
+    this.startTime = Date.now();
+    this.status = {
+      status: 'ready',
+      uptime: 0
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.initialized',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  async handleEvent(eventType: string, payload: EventPayload): Promise<void> {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload,
+      metadata: { sourceAgent: this.id }
+    });
+
+    if ('specification' in payload && payload.specification) {
+      this.validateSpecification(payload.specification);
+    } else if (!eventType.startsWith('compliance.')) {
+      this.evaluateEvent(eventType, payload);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.status = {
+      status: 'shutting-down',
+      uptime: Date.now() - this.startTime
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.shutdown',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  emitTrace(event: TraceEvent): void {
+    console.log(`[ComplianceAgent:${this.id}]`, event);
+  }
+
+  getStatus(): AgentStatus {
+    return {
+      ...this.status,
+      uptime: this.status.status === 'ready'
+        ? Date.now() - this.startTime
+        : this.status.uptime
+    };
+  }
+
+  // Policy packs
+
+  loadPolicyPack(pack: PolicyPack): void {
+    const ruleIds = pack.rules.map(rule => rule.id);
+    const duplicates = ruleIds.filter((ruleId, index) => ruleIds.indexOf(ruleId) !== index);
+    if (duplicates.length > 0) {
+      throw new Error(`Policy pack ${pack.id} has duplicate rules: ${duplicates.join(', ')}`);
+    }
+    this.packs.set(pack.id, pack);
+  }
+
+  unloadPolicyPack(packId: string): boolean {
+    return this.packs.delete(packId);
+  }
+
+  getPolicyPacks(): PolicyPack[] {
+    return Array.from(this.packs.values());
+  }
+
+  // DDD/SDD Implementation
+
+  /**
+   * Evaluates every security and business constraint of the specification
+   * against the loaded policy packs.
+   */
+  validateSpecification(spec: AgentSpecification): ValidationResult {
+    const violations: ComplianceViolation[] = [];
+
+    for (const pack of this.packs.values()) {
+      for (const rule of pack.rules) {
+        if (!rule.checkConstraint) continue;
+
+        for (const constraint of spec.constraints) {
+          if (!(rule.constraintTypes as string[]).includes(constraint.type)) continue;
+
+          const message = rule.checkConstraint(constraint, spec);
+          if (message) {
+            violations.push({
+              packId: pack.id,
+              ruleId: rule.id,
+              severity: rule.severity ?? constraint.severity,
+              message,
+              constraintId: constraint.id
+            });
+          }
+        }
+      }
+    }
+
+    return this.recordEvaluation(spec.id, 'specification', violations);
+  }
+
+  evaluateEvent(eventType: string, payload: EventPayload): ValidationResult {
+    const violations: ComplianceViolation[] = [];
+
+    for (const pack of this.packs.values()) {
+      for (const rule of pack.rules) {
+        const message = rule.checkEvent?.(eventType, payload);
+        if (message) {
+          violations.push({
+            packId: pack.id,
+            ruleId: rule.id,
+            severity: rule.severity ?? 'medium',
+            message,
+            eventType
+          });
+        }
+      }
+    }
+
+    return this.recordEvaluation(eventType, 'event', violations, payload.correlationId);
+  }
+
+  getEvaluations(): ComplianceEvaluation[] {
+    return [...this.evaluations];
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    const violations = this.evaluations.flatMap(evaluation => evaluation.violations);
+    const bySeverity = SEVERITY_ORDER.reduce<Record<string, number>>((counts, severity) => {
+      counts[severity] = violations.filter(violation => violation.severity === severity).length;
+      return counts;
+    }, {});
+
+    return [{
+      id: `compliance-report-${this.id}`,
+      type: 'specification',
+      content: {
+        type: 'specification',
+        data: {
+          packs: this.getPolicyPacks().map(pack => ({
+            id: pack.id,
+            name: pack.name,
+            version: pack.version,
+            rules: pack.rules.map(rule => ({ id: rule.id, description: rule.description }))
+          })),
+          evaluations: this.evaluations.map(evaluation => ({
+            target: evaluation.target,
+            kind: evaluation.kind,
+            compliant: evaluation.result.result,
+            escalatedTo: evaluation.result.escalatedTo,
+            violations: evaluation.violations,
+            evaluatedAt: evaluation.evaluatedAt.toISOString()
+          })),
+          violationsBySeverity: bySeverity
+        },
+        metadata: {
+          agentId: this.id,
+          evaluationCount: this.evaluations.length,
+          violationCount: violations.length,
+          compliant: violations.length === 0
+        },
+        schema: 'compliance-report-v1'
+      },
+      version: '1.0.0',
+      createdAt: new Date(),
+      validatedBy: [this.id]
+    }];
+  }
+
+  trackUserInteraction(interaction: UserInteraction): void {
+    this.evaluateEvent('user.interaction.tracked', {
+      interactionId: interaction.id,
+      userId: interaction.userId,
+      sessionId: interaction.sessionId,
+      action: interaction.action,
+      context: interaction.context,
+      outcome: interaction.outcome,
+      feedback: interaction.feedback,
+      timestamp: interaction.timestamp,
+      correlationId: interaction.sessionId,
+      sourceAgent: interaction.userId
+    });
+  }
+
+  private recordEvaluation(
+    target: string,
+    kind: ComplianceEvaluation['kind'],
+    violations: ComplianceViolation[],
+    correlationId?: string
+  ): ValidationResult {
+    const critical = violations.filter(violation => violation.severity === 'critical');
+    const highest = violations.reduce<ComplianceSeverity | undefined>(
+      (max, violation) => !max || SEVERITY_ORDER.indexOf(violation.severity) > SEVERITY_ORDER.indexOf(max)
+        ? violation.severity
+        : max,
+      undefined
+    );
+
+    const result: ValidationResult = {
+      result: violations.length === 0,
+      consensus: violations.length === 0,
+      reason: violations.length > 0 ? violations.map(violation => violation.message).join('; ') : undefined,
+      escalatedTo: critical.length > 0 ? COMPLIANCE_OFFICER : undefined,
+      details: {
+        target,
+        kind,
+        packsEvaluated: this.packs.size,
+        violations: violations.length,
+        criticalViolations: critical.length,
+        highestSeverity: highest ?? 'none',
+        violatedRules: Array.from(new Set(violations.map(violation => violation.ruleId))).join(','),
+        validatedBy: this.id
+      }
+    };
+
+    this.evaluations.push({ target, kind, result, violations, evaluatedAt: new Date() });
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: result.result ? 'compliance.check.passed' : 'compliance.check.failed',
+      payload: {
+        ruleId: Array.from(this.packs.keys()).join(','),
+        input: { target, kind },
+        result,
+        context: kind,
+        timestamp: new Date(),
+        correlationId,
+        sourceAgent: this.id
+      },
+      metadata: { sourceAgent: this.id, correlationId }
+    });
+
+    return result;
+  }
+}
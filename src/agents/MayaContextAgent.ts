@@ -0,0 +1,502 @@
+// src/agents/MayaContextAgent.ts
+// Maya context manager: keeps versioned context per correlationId, merges
+// updates under explicit conflict rules and records every transition.
+
+import {
+  AgentContract,
+  AgentSpecification,
+  AgentStatus,
+  ContextEventPayload,
+  ContextSlice,
+  ContextValue,
+  DesignArtifact,
+  EventPayload,
+  TraceEvent,
+  UserInteraction,
+  ValidationResult
+} from './AgentContract';
+
+export type ConflictStrategy = 'last-write-wins' | 'first-write-wins' | 'merge' | 'reject';
+
+export interface ContextState {
+  correlationId: string;
+  version: number;
+  data: Record<string, ContextValue>;
+  // Agent that last wrote each key
+  writers: Record<string, string>;
+  updatedAt: Date;
+}
+
+export interface ContextChange {
+  key: string;
+  previous?: ContextValue;
+  next: ContextValue;
+}
+
+export interface ContextConflict {
+  key: string;
+  existing: ContextValue;
+  incoming: ContextValue;
+  existingWriter?: string;
+  strategy: ConflictStrategy;
+  resolution: 'applied-incoming' | 'kept-existing' | 'merged' | 'rejected';
+}
+
+export interface ContextTransition {
+  correlationId: string;
+  fromVersion: number;
+  toVersion: number;
+  sourceAgent: string;
+  changes: ContextChange[];
+  conflicts: ContextConflict[];
+  timestamp: Date;
+}
+
+export interface ContextResult {
+  context: ContextState;
+  history: ContextTransition[];
+  validation: ValidationResult;
+  conflicts: ContextConflict[];
+}
+
+export interface MayaContextOptions {
+  defaultStrategy?: ConflictStrategy;
+  // Per-key strategies; they take precedence over the default
+  rules?: Record<string, ConflictStrategy>;
+}
+
+export class MayaContextAgent implements AgentContract {
+  readonly id: string;
+  readonly role = 'ContextManager';
+  readonly dependencies: string[] = [];
+
+  private status: AgentStatus = {
+    status: 'initializing',
+    uptime: 0
+  };
+  private startTime: number = Date.now();
+  private contexts: Map<string, ContextState> = new Map();
+  private history: Map<string, ContextTransition[]> = new Map();
+  private defaultStrategy: ConflictStrategy;
+  private rules: Map<string, ConflictStrategy>;
+
+  constructor(id: string, options: MayaContextOptions = {}) {
+    this.id = id;
+    this.defaultStrategy = options.defaultStrategy ?? 'last-write-wins';
+    this.rules = new Map(Object.entries(options.rules ?? {}));
+  }
+
+  async initialize(): Promise<void> {
+    this.startTime = Date.now();
+    this.status = {
+      status: 'ready',
+      uptime: 0
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.initialized',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  async handleEvent(eventType: string, payload: EventPayload): Promise<void> {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload,
+      metadata: { sourceAgent: this.id }
+    });
+
+    if (eventType === 'context.propagate' && 'slice' in payload && payload.slice) {
+      this.propagateContext(payload.slice);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.status = {
+      status: 'shutting-down',
+      uptime: Date.now() - this.startTime
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.shutdown',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  emitTrace(event: TraceEvent): void {
+    console.log(`[MayaContextAgent:${this.id}]`, event);
+  }
+
+  getStatus(): AgentStatus {
+    return {
+      ...this.status,
+      uptime: this.status.status === 'ready'
+        ? Date.now() - this.startTime
+        : this.status.uptime
+    };
+  }
+
+  // DDD/SDD Implementation
+
+  validateSpecification(spec: AgentSpecification): ValidationResult {
+    // Context-aware agents must declare how they consume or produce context
+    const hasContextCapability = spec.capabilities.some(cap =>
+      cap.name.toLowerCase().includes('context') ||
+      cap.inputs.some(input => input.name === 'context') ||
+      cap.outputs.some(output => output.name === 'context')
+    );
+
+    return {
+      result: hasContextCapability,
+      consensus: hasContextCapability,
+      reason: hasContextCapability ? undefined : 'Specification missing context capabilities',
+      details: { specificationId: spec.id, hasContextCapability }
+    };
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    return [{
+      id: `context-history-${this.id}`,
+      type: 'interactionModel',
+      content: {
+        type: 'interactionModel',
+        data: {
+          contexts: Array.from(this.contexts.values()).map(context => ({
+            correlationId: context.correlationId,
+            version: context.version,
+            keys: Object.keys(context.data)
+          })),
+          transitions: Array.from(this.history.values()).reduce((sum, entries) => sum + entries.length, 0)
+        },
+        metadata: { agentId: this.id, contextCount: this.contexts.size },
+        schema: 'context-history-v1'
+      },
+      version: '1.0.0',
+      createdAt: new Date(),
+      validatedBy: [this.id]
+    }];
+  }
+
+  trackUserInteraction(interaction: UserInteraction): void {
+    // User interactions extend the context of their session
+    this.propagateContext({
+      correlationId: interaction.sessionId,
+      sourceAgent: interaction.userId,
+      data: {
+        lastAction: interaction.action,
+        lastOutcome: interaction.outcome,
+        ...interaction.context
+      },
+      timestamp: interaction.timestamp
+    });
+  }
+
+  // Context propagation
+
+  setConflictRule(key: string, strategy: ConflictStrategy): void {
+    this.rules.set(key, strategy);
+  }
+
+  /**
+   * Merges a context slice into the context of its correlationId. A key is in
+   * conflict when it already holds a different value written by another agent,
+   * or when the slice was based on an outdated version; the key's conflict rule
+   * then decides the outcome. A 'reject' conflict aborts the whole update.
+   */
+  propagateContext(slice: ContextSlice): ContextResult {
+    this.emitContextTrace('context.propagation.started', {
+      correlationId: slice.correlationId,
+      operation: 'start',
+      slice
+    });
+
+    const current = this.contexts.get(slice.correlationId) ?? this.createEmptyContext(slice.correlationId);
+    const invalid = this.validateSlice(slice);
+    if (invalid) {
+      return this.failPropagation(slice, current, invalid, []);
+    }
+
+    const stale = slice.baseVersion !== undefined && slice.baseVersion !== current.version;
+    const data = this.clone(current.data);
+    const writers = { ...current.writers };
+    const changes: ContextChange[] = [];
+    const conflicts: ContextConflict[] = [];
+
+    for (const [key, incoming] of Object.entries(slice.data)) {
+      const existing = current.data[key];
+
+      if (existing !== undefined && this.isEqual(existing, incoming)) continue;
+
+      const existingWriter = current.writers[key];
+      const conflicting = existing !== undefined &&
+        (stale || (existingWriter !== undefined && existingWriter !== slice.sourceAgent));
+
+      let next: ContextValue | undefined = incoming;
+      if (conflicting) {
+        const strategy = this.rules.get(key) ?? this.defaultStrategy;
+        const conflict: ContextConflict = {
+          key,
+          existing,
+          incoming,
+          existingWriter,
+          strategy,
+          resolution: 'applied-incoming'
+        };
+
+        switch (strategy) {
+          case 'first-write-wins':
+            conflict.resolution = 'kept-existing';
+            next = undefined;
+            break;
+          case 'merge':
+            conflict.resolution = 'merged';
+            next = this.mergeValues(existing, incoming);
+            break;
+          case 'reject':
+            conflict.resolution = 'rejected';
+            next = undefined;
+            break;
+          default:
+            break;
+        }
+        conflicts.push(conflict);
+      }
+
+      if (next !== undefined) {
+        changes.push({ key, previous: existing, next });
+        data[key] = this.clone(next);
+        writers[key] = slice.sourceAgent;
+      }
+    }
+
+    const rejected = conflicts.filter(conflict => conflict.resolution === 'rejected');
+    if (rejected.length > 0) {
+      return this.failPropagation(
+        slice,
+        current,
+        `Conflicting update rejected for keys: ${rejected.map(c => c.key).join(', ')}`,
+        conflicts
+      );
+    }
+
+    let context = current;
+    if (changes.length > 0) {
+      context = {
+        correlationId: slice.correlationId,
+        version: current.version + 1,
+        data,
+        writers,
+        updatedAt: slice.timestamp ?? new Date()
+      };
+      this.contexts.set(slice.correlationId, context);
+
+      // Changes and conflicts hold the caller's values, so history keeps a
+      // frozen copy that neither the caller nor readers of getHistory can alter
+      const transitions = this.history.get(slice.correlationId) ?? [];
+      transitions.push(deepFreeze({
+        correlationId: slice.correlationId,
+        fromVersion: current.version,
+        toVersion: context.version,
+        sourceAgent: slice.sourceAgent,
+        changes: changes.map(change => ({
+          ...change,
+          previous: change.previous === undefined ? undefined : this.clone(change.previous),
+          next: this.clone(change.next)
+        })),
+        conflicts: conflicts.map(conflict => ({
+          ...conflict,
+          existing: this.clone(conflict.existing),
+          incoming: this.clone(conflict.incoming)
+        })),
+        timestamp: new Date(context.updatedAt)
+      }));
+      this.history.set(slice.correlationId, transitions);
+    }
+
+    const validation: ValidationResult = {
+      result: true,
+      consensus: conflicts.length === 0,
+      reason: conflicts.length > 0 ? `Resolved ${conflicts.length} context conflict(s)` : undefined,
+      details: {
+        correlationId: slice.correlationId,
+        version: context.version,
+        changedKeys: changes.length,
+        conflicts: conflicts.length,
+        stale
+      }
+    };
+
+    this.emitContextTrace('context.propagation.completed', {
+      correlationId: slice.correlationId,
+      operation: 'complete',
+      contextVersion: context.version,
+      changedKeys: changes.map(change => change.key),
+      conflicts: conflicts.length
+    });
+
+    return {
+      context: this.cloneState(context),
+      history: this.getHistory(slice.correlationId),
+      validation,
+      conflicts
+    };
+  }
+
+  getContext(correlationId: string): ContextState | undefined {
+    const context = this.contexts.get(correlationId);
+    return context ? this.cloneState(context) : undefined;
+  }
+
+  getHistory(correlationId: string): ContextTransition[] {
+    return [...(this.history.get(correlationId) ?? [])];
+  }
+
+  /**
+   * Rebuilds the context of a correlationId as it was at a given version by
+   * replaying the recorded transitions.
+   */
+  getContextAt(correlationId: string, version: number): Record<string, ContextValue> | undefined {
+    const current = this.contexts.get(correlationId);
+    if (!current || version < 0 || version > current.version) {
+      return undefined;
+    }
+
+    const data: Record<string, ContextValue> = {};
+    for (const transition of this.history.get(correlationId) ?? []) {
+      if (transition.toVersion > version) break;
+      for (const change of transition.changes) {
+        data[change.key] = this.clone(change.next);
+      }
+    }
+    return data;
+  }
+
+  private failPropagation(
+    slice: ContextSlice,
+    current: ContextState,
+    reason: string,
+    conflicts: ContextConflict[]
+  ): ContextResult {
+    this.emitContextTrace('context.propagation.failed', {
+      correlationId: slice.correlationId,
+      operation: 'fail',
+      contextVersion: current.version,
+      conflicts: conflicts.length,
+      error: reason
+    });
+
+    return {
+      context: this.cloneState(current),
+      history: this.getHistory(slice.correlationId),
+      validation: {
+        result: false,
+        consensus: false,
+        reason,
+        escalatedTo: this.role,
+        details: {
+          correlationId: slice.correlationId,
+          version: current.version,
+          conflicts: conflicts.length
+        }
+      },
+      conflicts
+    };
+  }
+
+  private validateSlice(slice: ContextSlice): string | undefined {
+    if (!slice.correlationId) return 'Context slice is missing a correlationId';
+    if (!slice.sourceAgent) return 'Context slice is missing a sourceAgent';
+
+    const invalidKeys = Object.entries(slice.data ?? {})
+      .filter(([, value]) => !this.isContextValue(value))
+      .map(([key]) => key);
+    if (invalidKeys.length > 0) {
+      return `Context values must be JSON-serialisable: ${invalidKeys.join(', ')}`;
+    }
+
+    return undefined;
+  }
+
+  private isContextValue(value: unknown): boolean {
+    if (value === null) return true;
+    if (['string', 'boolean'].includes(typeof value)) return true;
+    if (typeof value === 'number') return Number.isFinite(value);
+    if (Array.isArray(value)) return value.every(item => this.isContextValue(item));
+    if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.values(value as Record<string, unknown>).every(item => this.isContextValue(item));
+    }
+    return false;
+  }
+
+  private mergeValues(existing: ContextValue, incoming: ContextValue): ContextValue {
+    if (Array.isArray(existing) && Array.isArray(incoming)) {
+      const merged = [...existing];
+      for (const item of incoming) {
+        if (!merged.some(candidate => this.isEqual(candidate, item))) {
+          merged.push(item);
+        }
+      }
+      return merged;
+    }
+
+    if (this.isRecord(existing) && this.isRecord(incoming)) {
+      const merged: Record<string, ContextValue> = { ...existing };
+      for (const [key, value] of Object.entries(incoming)) {
+        merged[key] = key in merged ? this.mergeValues(merged[key], value) : value;
+      }
+      return merged;
+    }
+
+    return incoming;
+  }
+
+  private isRecord(value: ContextValue): value is { [key: string]: ContextValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isEqual(a: ContextValue, b: ContextValue): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, index) => this.isEqual(item, b[index]));
+    }
+    if (this.isRecord(a) && this.isRecord(b)) {
+      const keys = Object.keys(a);
+      return keys.length === Object.keys(b).length &&
+        keys.every(key => key in b && this.isEqual(a[key], b[key]));
+    }
+    return false;
+  }
+
+  private clone<T extends ContextValue | Record<string, ContextValue>>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private cloneState(context: ContextState): ContextState {
+    return { ...context, data: this.clone(context.data), writers: { ...context.writers } };
+  }
+
+  private createEmptyContext(correlationId: string): ContextState {
+    return { correlationId, version: 0, data: {}, writers: {}, updatedAt: new Date() };
+  }
+
+  private emitContextTrace(
+    eventType: string,
+    payload: Omit<ContextEventPayload, 'timestamp' | 'sourceAgent'>
+  ): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload: { ...payload, timestamp: new Date(), sourceAgent: this.id },
+      metadata: { sourceAgent: this.id, correlationId: payload.correlationId }
+    });
+  }
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value === 'object' && value !== null && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.values(value).forEach(deepFreeze);
+  }
+  return value;
+}
@@ -0,0 +1,408 @@
+// src/agents/RyuIntegrityAgent.ts
+// Ryu integrity guardian: validates agent outputs against their specification
+// contracts and verifies the CAS content referenced by DAG nodes.
+
+import {
+  AgentContract,
+  AgentSpecification,
+  AgentStatus,
+  Capability,
+  DesignArtifact,
+  EventPayload,
+  TraceEvent,
+  UserInteraction,
+  ValidationResult
+} from './AgentContract';
+import {
+  BlobVerification,
+  ContentAddressableStorage,
+  DAGNode,
+  computeContentHash,
+  CASIntegrityError
+} from '../backup/ContentAddressableStorage';
+import { checkConditions } from '../specifications/ConditionExpression';
+import { matchesParameterType } from '../specifications/ParameterValidation';
+
+export interface IntegrityContext {
+  specificationId?: string;
+  capabilityId?: string;
+  correlationId?: string;
+}
+
+// Stores such as AikoCAS that can re-hash any blob, including streamed binary content
+type VerifyingStorage = ContentAddressableStorage & { verify(hash: string): Promise<BlobVerification> };
+
+export interface IntegrityCheck {
+  name: string;
+  passed: boolean;
+  reason?: string;
+}
+
+export class RyuIntegrityAgent implements AgentContract {
+  readonly id: string;
+  readonly role = 'IntegrityGuardian';
+  readonly dependencies: string[] = [];
+
+  private status: AgentStatus = {
+    status: 'initializing',
+    uptime: 0
+  };
+  private startTime: number = Date.now();
+  private specifications: Map<string, AgentSpecification> = new Map();
+  private validationHistory: Array<{ context: IntegrityContext; result: ValidationResult; timestamp: Date }> = [];
+  private cas?: ContentAddressableStorage;
+  // Fraction of checks that must pass for the validators to reach consensus
+  private consensusThreshold: number;
+
+  constructor(id: string, cas?: ContentAddressableStorage, consensusThreshold: number = 1) {
+    this.id = id;
+    this.cas = cas;
+    this.consensusThreshold = consensusThreshold;
+  }
+
+  async initialize(): Promise<void> {
+    this.startTime = Date.now();
+    this.status = {
+      status: 'ready',
+      uptime: 0
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.initialized',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  async handleEvent(eventType: string, payload: EventPayload): Promise<void> {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload,
+      metadata: { sourceAgent: this.id }
+    });
+
+    switch (eventType) {
+      case 'specification.validate':
+        if ('specificationId' in payload && payload.specification) {
+          this.validateSpecification(payload.specification);
+        }
+        break;
+      case 'integrity.validate':
+        if ('ruleId' in payload && 'input' in payload) {
+          const { output, specificationId, capabilityId } = payload.input;
+          this.validateIntegrity(output, {
+            specificationId: typeof specificationId === 'string' ? specificationId : undefined,
+            capabilityId: typeof capabilityId === 'string' ? capabilityId : undefined,
+            correlationId: payload.correlationId
+          });
+        }
+        break;
+      case 'cas.content.stored':
+        if ('hash' in payload && 'operation' in payload) {
+          await this.verifyHash(payload.hash, payload.correlationId);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.status = {
+      status: 'shutting-down',
+      uptime: Date.now() - this.startTime
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.shutdown',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  emitTrace(event: TraceEvent): void {
+    console.log(`[RyuIntegrityAgent:${this.id}]`, event);
+  }
+
+  getStatus(): AgentStatus {
+    return {
+      ...this.status,
+      uptime: this.status.status === 'ready'
+        ? Date.now() - this.startTime
+        : this.status.uptime
+    };
+  }
+
+  // DDD/SDD Implementation
+
+  validateSpecification(spec: AgentSpecification): ValidationResult {
+    const checks: IntegrityCheck[] = [];
+
+    for (const capability of spec.capabilities) {
+      const names = capability.outputs.map(output => output.name);
+      const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+
+      checks.push({
+        name: `${capability.id}.outputs`,
+        passed: capability.outputs.length > 0 && capability.outputs.every(o => !!o.name && !!o.type),
+        reason: `Capability ${capability.id} must declare named, typed outputs`
+      });
+      checks.push({
+        name: `${capability.id}.unique-outputs`,
+        passed: duplicates.length === 0,
+        reason: `Capability ${capability.id} declares duplicate outputs: ${duplicates.join(', ')}`
+      });
+    }
+
+    const result = this.buildResult(checks, { specificationId: spec.id });
+    if (result.result) {
+      this.specifications.set(spec.id, spec);
+    }
+    return result;
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    return [{
+      id: `integrity-report-${this.id}`,
+      type: 'specification',
+      content: {
+        type: 'specification',
+        data: {
+          validations: this.validationHistory.map(entry => ({
+            ...entry.context,
+            result: entry.result.result,
+            consensus: entry.result.consensus,
+            reason: entry.result.reason,
+            timestamp: entry.timestamp.toISOString()
+          }))
+        },
+        metadata: { agentId: this.id, validationCount: this.validationHistory.length },
+        schema: 'integrity-report-v1'
+      },
+      version: '1.0.0',
+      createdAt: new Date(),
+      validatedBy: [this.id]
+    }];
+  }
+
+  trackUserInteraction(interaction: UserInteraction): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'user.interaction.tracked',
+      payload: {
+        interactionId: interaction.id,
+        userId: interaction.userId,
+        sessionId: interaction.sessionId,
+        action: interaction.action,
+        context: interaction.context,
+        timestamp: interaction.timestamp,
+        outcome: interaction.outcome,
+        feedback: interaction.feedback,
+        correlationId: interaction.sessionId,
+        sourceAgent: this.id
+      },
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  // Integrity validation
+
+  /**
+   * Validates an agent output against the capability contract it was produced
+   * under: every required output must be present with the declared type and
+   * every postcondition must hold. Without a contract only basic shape checks run.
+   */
+  validateIntegrity(output: unknown, context: IntegrityContext = {}): ValidationResult {
+    const checks: IntegrityCheck[] = [{
+      name: 'output.defined',
+      passed: output !== undefined && output !== null,
+      reason: 'Output is missing'
+    }];
+
+    const capability = this.findCapability(context);
+    if (context.specificationId && !capability) {
+      checks.push({
+        name: 'contract.found',
+        passed: false,
+        reason: `No capability contract found for ${context.specificationId}/${context.capabilityId ?? '*'}`
+      });
+    }
+
+    if (capability && typeof output === 'object' && output !== null) {
+      const record = output as Record<string, unknown>;
+      for (const param of capability.outputs) {
+        const value = record[param.name];
+        if (value === undefined) {
+          checks.push({
+            name: `output.${param.name}`,
+            passed: !param.required,
+            reason: `Required output ${param.name} is missing`
+          });
+          continue;
+        }
+        checks.push({
+          name: `output.${param.name}`,
+          passed: matchesParameterType(value, param.type),
+          reason: `Output ${param.name} is not of type ${param.type}`
+        });
+      }
+
+      // Postconditions see output fields directly and under `outputs`
+      const { violations } = checkConditions(
+        capability.postconditions,
+        { ...record, outputs: record },
+        'postcondition'
+      );
+      for (const condition of capability.postconditions) {
+        const violation = violations.find(candidate => candidate.conditionId === condition.id);
+        checks.push({
+          name: `postcondition.${condition.id}`,
+          passed: !violation,
+          reason: `Postcondition ${condition.id} violated: ${condition.expression} (${violation?.reason})`
+        });
+      }
+    } else if (capability) {
+      checks.push({
+        name: 'output.shape',
+        passed: capability.outputs.every(param => !param.required),
+        reason: `Output of ${capability.id} must be an object`
+      });
+    }
+
+    const result = this.buildResult(checks, {
+      specificationId: context.specificationId ?? 'none',
+      capabilityId: capability?.id ?? 'none'
+    });
+    this.recordValidation(context, result, { output });
+    return result;
+  }
+
+  /**
+   * Verifies that every hash a DAG node references (its own hash and its
+   * input/output hashes) exists in CAS and still matches its content.
+   */
+  async verifyNodeHashes(nodes: DAGNode[] | Record<string, DAGNode>): Promise<ValidationResult> {
+    const nodeList = Array.isArray(nodes) ? nodes : Object.values(nodes);
+    const checks: IntegrityCheck[] = [];
+
+    for (const node of nodeList) {
+      const hashes = [node.hash, ...node.metadata.inputHashes, ...node.metadata.outputHashes];
+      for (const hash of Array.from(new Set(hashes))) {
+        checks.push(await this.checkHash(hash, node.id));
+      }
+    }
+
+    const result = this.buildResult(checks, { nodeCount: nodeList.length });
+    this.recordValidation({ correlationId: nodeList.map(n => n.id).join(',') }, result, {
+      nodes: nodeList.map(node => node.id)
+    });
+    return result;
+  }
+
+  async verifyHash(hash: string, correlationId?: string): Promise<ValidationResult> {
+    const result = this.buildResult([await this.checkHash(hash)], { hash });
+    this.recordValidation({ correlationId: correlationId ?? hash }, result, { hash });
+    return result;
+  }
+
+  getValidationHistory(): Array<{ context: IntegrityContext; result: ValidationResult; timestamp: Date }> {
+    return [...this.validationHistory];
+  }
+
+  private async checkHash(hash: string, nodeId?: string): Promise<IntegrityCheck> {
+    const name = nodeId ? `cas.${nodeId}.${hash.slice(0, 12)}` : `cas.${hash.slice(0, 12)}`;
+
+    if (!this.cas) {
+      return { name, passed: false, reason: 'No content-addressable storage configured' };
+    }
+    if (!this.cas.exists(hash)) {
+      return { name, passed: false, reason: `Content not found in CAS: ${hash}` };
+    }
+
+    // retrieve() only returns JSON content, so binary blobs need the store's own check
+    if (canVerify(this.cas)) {
+      const verification = await this.cas.verify(hash);
+      return verification.valid
+        ? { name, passed: true }
+        : { name, passed: false, reason: `Content hash mismatch for ${hash}: ${verification.reason}` };
+    }
+
+    try {
+      const content = await this.cas.retrieve(hash);
+      const actual = computeContentHash(content);
+      return {
+        name,
+        passed: actual === hash,
+        reason: `Content hash mismatch for ${hash}: found ${actual}`
+      };
+    } catch (error) {
+      // Stores that verify on read refuse tampered content instead of returning it
+      if (error instanceof CASIntegrityError) {
+        return { name, passed: false, reason: `Content hash mismatch for ${hash}: found ${error.actualHash}` };
+      }
+      return { name, passed: false, reason: `Failed to read ${hash}: ${(error as Error).message}` };
+    }
+  }
+
+  private buildResult(
+    checks: IntegrityCheck[],
+    details: Record<string, string | number | boolean>
+  ): ValidationResult {
+    const failed = checks.filter(check => !check.passed);
+    const ratio = checks.length === 0 ? 1 : (checks.length - failed.length) / checks.length;
+
+    return {
+      result: failed.length === 0,
+      consensus: ratio >= this.consensusThreshold,
+      reason: failed.length > 0 ? failed.map(check => check.reason).join('; ') : undefined,
+      escalatedTo: failed.length > 0 ? this.role : undefined,
+      details: {
+        ...details,
+        checksRun: checks.length,
+        checksPassed: checks.length - failed.length,
+        checksFailed: failed.length,
+        failedChecks: failed.map(check => check.name).join(','),
+        consensusRatio: Number(ratio.toFixed(3)),
+        consensusThreshold: this.consensusThreshold,
+        validatedBy: this.id
+      }
+    };
+  }
+
+  private recordValidation(
+    context: IntegrityContext,
+    result: ValidationResult,
+    input: Record<string, unknown>
+  ): void {
+    this.validationHistory.push({ context, result, timestamp: new Date() });
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: result.result ? 'integrity.validation.passed' : 'integrity.validation.failed',
+      payload: {
+        ruleId: context.capabilityId ?? 'integrity',
+        input,
+        result,
+        context: context.specificationId ?? 'integrity',
+        timestamp: new Date(),
+        correlationId: context.correlationId,
+        sourceAgent: this.id
+      },
+      metadata: { sourceAgent: this.id, correlationId: context.correlationId }
+    });
+  }
+
+  private findCapability(context: IntegrityContext): Capability | undefined {
+    if (!context.specificationId) return undefined;
+
+    const spec = this.specifications.get(context.specificationId);
+    if (!spec) return undefined;
+
+    return context.capabilityId
+      ? spec.capabilities.find(cap => cap.id === context.capabilityId || cap.name === context.capabilityId)
+      : spec.capabilities[0];
+  }
+}
+
+function canVerify(cas: ContentAddressableStorage): cas is VerifyingStorage {
+  return typeof (cas as Partial<VerifyingStorage>).verify === 'function';
+}
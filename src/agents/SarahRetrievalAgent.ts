@@ -0,0 +1,463 @@
+// src/agents/SarahRetrievalAgent.ts
+// Sarah retrieval agent: offline BM25 index over local markdown and generated
+// specification documentation.
+
+import fs from 'fs';
+import path from 'path';
+import {
+  AgentContract,
+  AgentSpecification,
+  AgentStatus,
+  DesignArtifact,
+  EventPayload,
+  KnowledgeEventPayload,
+  TraceEvent,
+  UserInteraction,
+  ValidationResult
+} from './AgentContract';
+import { Documentation } from '../specifications/SpecificationEngine';
+
+export interface KnowledgePassage {
+  source: string;
+  heading?: string;
+  text: string;
+  score: number;
+}
+
+export interface KnowledgeResult {
+  query: string;
+  content: string;
+  passages: KnowledgePassage[];
+  sources: string[];
+  confidence: number;
+}
+
+export interface RetrievalOptions {
+  limit?: number;
+  correlationId?: string;
+}
+
+export interface SarahRetrievalOptions {
+  // BM25 term-frequency saturation and length normalisation
+  k1?: number;
+  b?: number;
+  maxPassageLength?: number;
+}
+
+export interface IndexStats {
+  sources: number;
+  passages: number;
+  terms: number;
+}
+
+interface IndexedPassage {
+  id: number;
+  source: string;
+  heading?: string;
+  text: string;
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.mdc'];
+
+// Common English and Portuguese words that carry no retrieval signal
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'with',
+  'ao', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'em', 'na', 'nas', 'no',
+  'nos', 'o', 'os', 'ou', 'para', 'por', 'que', 'se', 'um', 'uma'
+]);
+
+export class SarahRetrievalAgent implements AgentContract {
+  readonly id: string;
+  readonly role = 'KnowledgeRetriever';
+  readonly dependencies: string[] = [];
+
+  private status: AgentStatus = {
+    status: 'initializing',
+    uptime: 0
+  };
+  private startTime: number = Date.now();
+  private passages: Map<number, IndexedPassage> = new Map();
+  private postings: Map<string, Set<number>> = new Map();
+  private sourcePassages: Map<string, number[]> = new Map();
+  private totalLength = 0;
+  private passageCounter = 0;
+  private k1: number;
+  private b: number;
+  private maxPassageLength: number;
+
+  constructor(id: string, options: SarahRetrievalOptions = {}) {
+    this.id = id;
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.maxPassageLength = options.maxPassageLength ?? 1200;
+  }
+
+  async initialize(): Promise<void> {
+    this.startTime = Date.now();
+    this.status = {
+      status: 'ready',
+      uptime: 0
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.initialized',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  async handleEvent(eventType: string, payload: EventPayload): Promise<void> {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload,
+      metadata: { sourceAgent: this.id }
+    });
+
+    if (eventType === 'rag.knowledge.retrieve' && 'query' in payload) {
+      this.retrieveKnowledge(payload.query, { correlationId: payload.correlationId });
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.status = {
+      status: 'shutting-down',
+      uptime: Date.now() - this.startTime
+    };
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'agent.shutdown',
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  emitTrace(event: TraceEvent): void {
+    console.log(`[SarahRetrievalAgent:${this.id}]`, event);
+  }
+
+  getStatus(): AgentStatus {
+    return {
+      ...this.status,
+      uptime: this.status.status === 'ready'
+        ? Date.now() - this.startTime
+        : this.status.uptime
+    };
+  }
+
+  // DDD/SDD Implementation
+
+  validateSpecification(spec: AgentSpecification): ValidationResult {
+    // Capabilities without descriptions cannot be found through retrieval
+    const undocumented = spec.capabilities
+      .filter(cap => !cap.description || cap.description.trim() === '')
+      .map(cap => cap.id);
+
+    return {
+      result: undocumented.length === 0,
+      consensus: undocumented.length === 0,
+      reason: undocumented.length > 0
+        ? `Capabilities missing descriptions: ${undocumented.join(', ')}`
+        : undefined,
+      details: { specificationId: spec.id, undocumentedCapabilities: undocumented.length }
+    };
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    const stats = this.getIndexStats();
+    return [{
+      id: `knowledge-index-${this.id}`,
+      type: 'specification',
+      content: {
+        type: 'specification',
+        data: { sources: Array.from(this.sourcePassages.keys()) },
+        metadata: { agentId: this.id, ...stats },
+        schema: 'knowledge-index-v1'
+      },
+      version: '1.0.0',
+      createdAt: new Date(),
+      validatedBy: [this.id]
+    }];
+  }
+
+  trackUserInteraction(interaction: UserInteraction): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'user.interaction.tracked',
+      payload: {
+        interactionId: interaction.id,
+        userId: interaction.userId,
+        sessionId: interaction.sessionId,
+        action: interaction.action,
+        context: interaction.context,
+        timestamp: interaction.timestamp,
+        outcome: interaction.outcome,
+        feedback: interaction.feedback,
+        correlationId: interaction.sessionId,
+        sourceAgent: this.id
+      },
+      metadata: { sourceAgent: this.id, correlationId: interaction.sessionId }
+    });
+  }
+
+  // Indexing
+
+  /**
+   * Indexes a markdown document, one passage per heading section. Re-indexing
+   * a source replaces its previous passages.
+   */
+  indexDocument(source: string, markdown: string): number {
+    this.removeSource(source);
+
+    const ids: number[] = [];
+    for (const section of this.splitPassages(markdown)) {
+      const tokens = this.tokenize(`${section.heading ?? ''} ${section.text}`);
+      if (tokens.length === 0) continue;
+
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+
+      const passage: IndexedPassage = {
+        id: ++this.passageCounter,
+        source,
+        heading: section.heading,
+        text: section.text,
+        length: tokens.length,
+        termFrequencies
+      };
+      this.passages.set(passage.id, passage);
+      this.totalLength += passage.length;
+      for (const term of termFrequencies.keys()) {
+        const posting = this.postings.get(term) ?? new Set<number>();
+        posting.add(passage.id);
+        this.postings.set(term, posting);
+      }
+      ids.push(passage.id);
+    }
+
+    this.sourcePassages.set(source, ids);
+    return ids.length;
+  }
+
+  async indexFile(filePath: string, source: string = filePath): Promise<number> {
+    const markdown = await fs.promises.readFile(filePath, 'utf-8');
+    return this.indexDocument(source, markdown);
+  }
+
+  /**
+   * Recursively indexes the markdown files below a directory. Sources are
+   * recorded relative to `baseDir` so results stay stable across checkouts.
+   */
+  async indexDirectory(dir: string, baseDir: string = dir): Promise<number> {
+    let indexed = 0;
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        indexed += await this.indexDirectory(entryPath, baseDir);
+      } else if (MARKDOWN_EXTENSIONS.includes(path.extname(entry.name))) {
+        indexed += await this.indexFile(entryPath, path.relative(baseDir, entryPath));
+      }
+    }
+
+    return indexed;
+  }
+
+  // Indexes README.md and docs/ of a repository checkout
+  async indexRepository(rootDir: string): Promise<number> {
+    let indexed = 0;
+    const readmePath = path.join(rootDir, 'README.md');
+    if (fs.existsSync(readmePath)) {
+      indexed += await this.indexFile(readmePath, 'README.md');
+    }
+
+    const docsPath = path.join(rootDir, 'docs');
+    if (fs.existsSync(docsPath)) {
+      indexed += await this.indexDirectory(docsPath, rootDir);
+    }
+
+    return indexed;
+  }
+
+  // Indexes documentation produced by SpecificationEngine.generateDocumentation
+  indexDocumentation(specificationId: string, documentation: Documentation): number {
+    const sections: Array<[string, string]> = [
+      ['apiDocs', documentation.apiDocs],
+      ['userGuide', documentation.userGuide],
+      ['technicalSpec', documentation.technicalSpec],
+      ['examples', documentation.examples.join('\n\n')]
+    ];
+
+    return sections.reduce(
+      (sum, [name, markdown]) => sum + this.indexDocument(`spec:${specificationId}#${name}`, markdown),
+      0
+    );
+  }
+
+  removeSource(source: string): void {
+    for (const id of this.sourcePassages.get(source) ?? []) {
+      const passage = this.passages.get(id);
+      if (!passage) continue;
+
+      for (const term of passage.termFrequencies.keys()) {
+        const posting = this.postings.get(term);
+        posting?.delete(id);
+        if (posting && posting.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.totalLength -= passage.length;
+      this.passages.delete(id);
+    }
+    this.sourcePassages.delete(source);
+  }
+
+  getIndexStats(): IndexStats {
+    return {
+      sources: this.sourcePassages.size,
+      passages: this.passages.size,
+      terms: this.postings.size
+    };
+  }
+
+  // Retrieval
+
+  /**
+   * Ranks indexed passages against the query with BM25. Confidence combines
+   * how many query terms the best passage covers with a saturating function of
+   * its score, so it stays in [0, 1] regardless of corpus size.
+   */
+  retrieveKnowledge(query: string, options: RetrievalOptions = {}): KnowledgeResult {
+    const limit = options.limit ?? 5;
+    const terms = Array.from(new Set(this.tokenize(query)));
+    const scores = new Map<number, number>();
+    const averageLength = this.passages.size > 0 ? this.totalLength / this.passages.size : 0;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (this.passages.size - posting.size + 0.5) / (posting.size + 0.5));
+      for (const id of posting) {
+        const passage = this.passages.get(id)!;
+        const tf = passage.termFrequencies.get(term) ?? 0;
+        const norm = tf + this.k1 * (1 - this.b + this.b * passage.length / averageLength);
+        scores.set(id, (scores.get(id) ?? 0) + idf * (tf * (this.k1 + 1)) / norm);
+      }
+    }
+
+    const ordered = Array.from(scores.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+    const ranked = ordered
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const passage = this.passages.get(id)!;
+        return {
+          source: passage.source,
+          heading: passage.heading,
+          text: passage.text,
+          score: Math.round(score * 1000) / 1000
+        };
+      });
+
+    if (ranked.length === 0) {
+      const error = terms.length === 0
+        ? 'Query has no searchable terms'
+        : `No indexed knowledge matches: ${query}`;
+      this.emitKnowledgeTrace('rag.knowledge.failed', {
+        query,
+        operation: 'fail',
+        confidence: 0,
+        passageCount: 0,
+        error,
+        correlationId: options.correlationId
+      });
+      return { query, content: '', passages: [], sources: [], confidence: 0 };
+    }
+
+    const best = this.passages.get(ordered[0][0])!;
+    const coverage = terms.filter(term => best.termFrequencies.has(term)).length / terms.length;
+    const topScore = ranked[0].score;
+    const confidence = Math.round(coverage * (topScore / (topScore + 1)) * 1000) / 1000;
+    const sources = Array.from(new Set(ranked.map(passage => passage.source)));
+
+    this.emitKnowledgeTrace('rag.knowledge.retrieved', {
+      query,
+      operation: 'complete',
+      sources,
+      confidence,
+      passageCount: ranked.length,
+      correlationId: options.correlationId
+    });
+
+    return {
+      query,
+      content: ranked
+        .map(passage => passage.heading ? `${passage.heading}\n${passage.text}` : passage.text)
+        .join('\n\n'),
+      passages: ranked,
+      sources,
+      confidence
+    };
+  }
+
+  private splitPassages(markdown: string): Array<{ heading?: string; text: string }> {
+    const sections: Array<{ heading?: string; lines: string[] }> = [{ lines: [] }];
+    let inCodeBlock = false;
+
+    for (const line of markdown.split(/\r?\n/)) {
+      if (line.trim().startsWith('```')) {
+        inCodeBlock = !inCodeBlock;
+      }
+      const heading = !inCodeBlock && /^#{1,6}\s+(.*)$/.exec(line);
+      if (heading) {
+        sections.push({ heading: heading[1].trim(), lines: [] });
+      } else {
+        sections[sections.length - 1].lines.push(line);
+      }
+    }
+
+    const passages: Array<{ heading?: string; text: string }> = [];
+    for (const section of sections) {
+      const text = section.lines.join('\n').trim();
+      if (!text && !section.heading) continue;
+
+      // Long sections are split on paragraph boundaries
+      let current = '';
+      for (const paragraph of text.split(/\n\s*\n/)) {
+        if (current && current.length + paragraph.length > this.maxPassageLength) {
+          passages.push({ heading: section.heading, text: current });
+          current = '';
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+      }
+      passages.push({ heading: section.heading, text: current });
+    }
+
+    return passages;
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+  }
+
+  private emitKnowledgeTrace(
+    eventType: string,
+    payload: Omit<KnowledgeEventPayload, 'timestamp' | 'sourceAgent'>
+  ): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType,
+      payload: { ...payload, timestamp: new Date(), sourceAgent: this.id },
+      metadata: { sourceAgent: this.id, correlationId: payload.correlationId }
+    });
+  }
+}
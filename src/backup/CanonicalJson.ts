@@ -0,0 +1,66 @@
+// src/backup/CanonicalJson.ts
+// Canonical JSON serialisation for content hashing: logically equal values
+// serialise to the same string regardless of key order or how they were built.
+//
+// - object keys are sorted by UTF-16 code unit (as in RFC 8785)
+// - numbers use the shortest round-trip form; -0 becomes 0, NaN/±Infinity
+//   become null, exactly what JSON.stringify stores
+// - Dates become their ISO string, other toJSON() values are canonicalised
+// - undefined, functions and symbols are dropped from objects and become null
+//   in arrays, again matching what a JSON round-trip gives back
+//
+// The rules follow JSON.stringify wherever it is already deterministic, so
+// content hashed before storing hashes the same after being retrieved.
+
+export function canonicalJson(value: unknown): string {
+  const serialised = serialise(value, new Set());
+  if (serialised === undefined) {
+    throw new TypeError(`Cannot canonicalise a value of type ${typeof value}`);
+  }
+  return serialised;
+}
+
+function serialise(value: unknown, ancestors: Set<object>): string | undefined {
+  if (value === null) return 'null';
+
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return JSON.stringify(value);
+    case 'number':
+      return Number.isFinite(value) ? JSON.stringify(value) : 'null';
+    case 'bigint':
+      throw new TypeError('Cannot canonicalise a bigint');
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  const object = value as Record<string, unknown> & { toJSON?: () => unknown };
+  if (typeof object.toJSON === 'function') {
+    return serialise(object.toJSON(), ancestors);
+  }
+
+  if (ancestors.has(object)) {
+    throw new TypeError('Cannot canonicalise a circular structure');
+  }
+  ancestors.add(object);
+
+  let result: string;
+  if (Array.isArray(object)) {
+    result = `[${object.map(item => serialise(item, ancestors) ?? 'null').join(',')}]`;
+  } else {
+    const members: string[] = [];
+    for (const key of Object.keys(object).sort()) {
+      const member = serialise(object[key], ancestors);
+      if (member !== undefined) {
+        members.push(`${JSON.stringify(key)}:${member}`);
+      }
+    }
+    result = `{${members.join(',')}}`;
+  }
+
+  ancestors.delete(object);
+  return result;
+}
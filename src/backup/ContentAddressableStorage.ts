@@ -4,10 +4,32 @@
 
 import crypto from 'crypto';
 import fs from 'fs';
-import { ValidationResult, TraceEvent } from '../agents/AgentContract';
+import { Buffer } from 'buffer';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AgentContract, AgentSnapshotState, SnapshotParticipant, ValidationResult, TraceEvent, isSnapshotParticipant } from '../agents/AgentContract';
 import path from 'path';
+import { ChunkingOptions, ContentChunker, DEFAULT_CHUNKING, chunkContent } from './ContentChunker';
+import { canonicalJson } from './CanonicalJson';
+import { TarEntry, readTar, writeTar } from './TarArchive';
+import { DecryptOptions, KeyProvider, createDecryptStream, createEncryptStream, decrypt, encrypt, readKeyId } from './Encryption';
+import { RetentionPlan, RetentionPolicy, applyLegacyRetention, applyRetentionPolicy } from './RetentionPolicy';
+import { FileLock, FileLockOptions } from './FileLock';
+import { recoverJournal, writeFileAtomic, writeJournaled } from './MetadataJournal';
+import { CASReplicator, ReplicationOptions, ReplicationReport, SyncDirection, SyncReport } from './Replication';
+import {
+  ChainEntry,
+  ChainVerification,
+  ChainVerificationOptions,
+  SigningKey,
+  SnapshotSignature,
+  appendChainEntry,
+  toSnapshotSignature,
+  verifyChainEntries
+} from './SnapshotChain';
 
 // Core CAS interfaces aligned with DDD/SDD principles
+// Every backend must pass the shared suite in test/casConformance.ts
 export interface ContentAddressableStorage {
   store(content: unknown, metadata?: Record<string, unknown>): Promise<string>;
   retrieve(hash: string): Promise<unknown>;
@@ -16,13 +38,178 @@ export interface ContentAddressableStorage {
   list(): Promise<string[]>;
 }
 
+/**
+ * Raw byte content (model artifacts, logs) that is hashed and written as it
+ * streams in, so it never has to fit in memory or be JSON-serialisable.
+ * The hash is the sha256 of the bytes themselves.
+ */
+export interface StreamingContentStorage {
+  storeStream(source: Uint8Array | Readable, metadata?: Record<string, unknown>): Promise<string>;
+  retrieveStream(hash: string): Promise<Readable>;
+  statStream(hash: string): Promise<StreamBlobInfo>;
+}
+
+export interface StreamBlobInfo {
+  hash: string;
+  size: number;
+  storedAt: string;
+  metadata: Record<string, unknown>;
+  // Present when the bytes were stored as content-defined chunks
+  chunks?: string[];
+}
+
+export interface AikoCASOptions {
+  // Content-defined chunking settings; false stores every object whole
+  chunking?: Partial<ChunkingOptions> | false;
+  // JSON content larger than this many bytes is chunked
+  chunkThreshold?: number;
+  // Re-hash content on read: never, for a random share of reads, or always
+  verifyOnRead?: VerifyOnReadMode;
+  // Share of reads verified in 'sample' mode, between 0 and 1
+  verifySampleRate?: number;
+  // Encrypts every file written with AES-256-GCM
+  keyProvider?: KeyProvider;
+  // Reads plaintext files despite the keyProvider, to encrypt an existing
+  // store with rotateKey(); otherwise they fail with DecryptionError
+  allowPlaintext?: boolean;
+}
+
+export interface RyuMetadataDAGOptions {
+  // Encrypts snapshots.json and chain.json with AES-256-GCM
+  keyProvider?: KeyProvider;
+  // As for AikoCAS: reads plaintext metadata despite the keyProvider
+  allowPlaintext?: boolean;
+  // Signs every snapshot change into the hash chain in chain.json
+  signingKey?: SigningKey;
+  // The metadata lock serialises every process writing to the directory
+  lock?: FileLockOptions;
+}
+
+export interface BackupManagerOptions extends AikoCASOptions {
+  signingKey?: SigningKey;
+  // Mirrors blobs and snapshots to secondary stores
+  replication?: ReplicationOptions;
+}
+
+export interface KeyRotationReport {
+  keyId: string;
+  // Files rewritten under keyId, including ones that were still plaintext
+  reencrypted: number;
+  // Files already encrypted with keyId
+  unchanged: number;
+}
+
+export type VerifyOnReadMode = 'off' | 'sample' | 'always';
+
+export interface GarbageCollectionOptions {
+  policy?: RegenerationPolicy;
+  dryRun?: boolean;
+  // Unreferenced blobs younger than this survive, protecting content stored
+  // for a snapshot that has not been created yet
+  minBlobAgeMs?: number;
+}
+
+export interface GarbageCollectionReport {
+  dryRun: boolean;
+  snapshotsDeleted: string[];
+  snapshotsKept: number;
+  reachableHashes: number;
+  blobsDeleted: string[];
+  chunksDeleted: number;
+  // Bytes on disk freed (or that would be freed on a dry run)
+  bytesReclaimed: number;
+}
+
+export interface SweepOptions {
+  // Report what would be deleted without deleting it
+  dryRun?: boolean;
+  // Unreferenced content younger than this is kept
+  minAgeMs?: number;
+}
+
+export interface SweepResult {
+  deletedHashes: string[];
+  deletedChunks: string[];
+  bytesReclaimed: number;
+}
+
+export const SNAPSHOT_BUNDLE_FORMAT = 'aikoryu-snapshot-bundle';
+
+/**
+ * First entry of an exported bundle (manifest.json). The bundle also holds
+ * snapshot.json, with the snapshot's full DAG, and one file per referenced
+ * blob: blobs/<hash>.json (canonical JSON) or streams/<hash>.bin (raw bytes).
+ */
+export interface SnapshotBundleManifest {
+  format: typeof SNAPSHOT_BUNDLE_FORMAT;
+  version: 1;
+  snapshotId: string;
+  // computeContentHash of snapshot.json's content
+  snapshotHash: string;
+  entries: Array<{ path: string; hash: string; kind: 'json' | 'binary'; size: number }>;
+}
+
+// Thrown by importSnapshot before anything is written
+export class SnapshotBundleError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid snapshot bundle: ${problems.join('; ')}`);
+    this.name = 'SnapshotBundleError';
+  }
+}
+
+export class CASIntegrityError extends Error {
+  constructor(readonly hash: string, readonly actualHash: string) {
+    super(`Content integrity check failed for hash: ${hash} (content hashes to ${actualHash})`);
+    this.name = 'CASIntegrityError';
+  }
+}
+
+export interface BlobVerification {
+  hash: string;
+  kind: 'json' | 'binary';
+  valid: boolean;
+  reason?: string;
+}
+
+export interface FsckReport {
+  checkedAt: string;
+  // No corrupt blobs and no snapshot references to missing blobs
+  healthy: boolean;
+  blobsChecked: number;
+  snapshotsChecked: number;
+  corruptBlobs: Array<{ hash: string; reason: string }>;
+  // Blobs no snapshot lists in casHashes; candidates for garbage collection
+  orphanedBlobs: string[];
+  missingBlobs: Array<{ hash: string; snapshotId: string; nodeIds: string[] }>;
+}
+
+export interface CASEntry {
+  hash: string;
+  kind: 'json' | 'binary';
+  // Logical size in bytes, i.e. what retrieve/retrieveStream returns
+  size: number;
+  chunks?: string[];
+}
+
+export interface CASStats {
+  objects: number;
+  chunks: number;
+  logicalSize: number;
+  physicalSize: number;
+  dedupRatio: number;
+}
+
 export interface MetadataDAG {
   timestamp: Date;
   version: string;
+  // For a snapshot with a parent, only the nodes added or changed since it
   nodes: Record<string, DAGNode>;
+  // Always the full edge list; edges are small next to node metadata
   edges: DAGEdge[];
   consensus: boolean;
   validatedBy: string[];
+  // Parent nodes that no longer exist in this snapshot
+  removedNodes?: string[];
 }
 
 export interface DAGNode {
@@ -63,14 +250,64 @@ export interface BackupSnapshot {
   description: string;
   tags: string[];
   immutable: boolean;
+  // Incremental snapshots store their DAG as a delta against this snapshot
+  parentId?: string;
+  // Latest chain entry for this snapshot, when the DAG has a signing key
+  signature?: SnapshotSignature;
+}
+
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  addedNodes: string[];
+  removedNodes: string[];
+  changedNodes: string[];
+  addedEdges: DAGEdge[];
+  removedEdges: DAGEdge[];
+  // CAS addresses referenced by `to` but not `from`, and the reverse
+  addedHashes: string[];
+  removedHashes: string[];
+}
+
+export interface SquashResult {
+  snapshotId: string;
+  parentId?: string;
+  // Mutable snapshots folded into snapshotId and deleted
+  squashed: string[];
+  // Immutable snapshots left in place outside the chain
+  kept: string[];
 }
 
+/**
+ * How restoreSnapshot treats each node:
+ * - incremental: skips nodes whose live state already matches the snapshot
+ *   and recomputes dependents only when a recomputed output actually changed
+ * - full: rehydrates every node and recomputes everything downstream of a
+ *   recomputed node
+ * - selective: like incremental, limited to `selectedNodes` and the nodes
+ *   they depend on
+ * For garbage collection, `retention` replaces maxSnapshots and ttlDays.
+ */
 export interface RegenerationPolicy {
   strategy: 'incremental' | 'full' | 'selective';
   validateBeforeRestore: boolean;
   preserveHistory: boolean;
   maxSnapshots: number;
   ttlDays: number;
+  selectedNodes?: string[];
+  retention?: RetentionPolicy;
+}
+
+/**
+ * Puts restored node content back into the running system. Without a
+ * restorer, restoreSnapshot only reports what could be restored.
+ */
+export interface NodeRestorer {
+  // Hash of the node's live state, so incremental restores can skip it
+  currentHash?(node: DAGNode): Promise<string | undefined>;
+  rehydrate(node: DAGNode, content: unknown): Promise<void>;
+  // Re-runs the producing capability on the contents of node.metadata.inputHashes
+  recompute?(node: DAGNode, inputs: unknown[]): Promise<unknown>;
 }
 
 export interface BackupManager {
@@ -81,34 +318,84 @@ export interface BackupManager {
   garbageCollect(policy?: RegenerationPolicy): Promise<string[]>;
 }
 
+/**
+ * Computes the CAS address of a piece of content. Shared by the stores and by
+ * integrity checks that need to re-hash retrieved content. Hashes the
+ * canonical serialisation, so `{a:1,b:2}` and `{b:2,a:1}` share an address.
+ */
+export function computeContentHash(content: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(content)).digest('hex');
+}
+
+const LEGACY_ADDRESS_REASON = 'stored under its pre-canonical JSON.stringify hash; run migrate:cas';
+
+// Blobs written before canonical hashing are addressed by JSON.stringify and
+// stay readable until migrate:cas moves them
+function isLegacyAddress(content: unknown, hash: string): boolean {
+  return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex') === hash;
+}
+
+/**
+ * Every CAS address a snapshot keeps alive: its casHashes plus each node's
+ * own hash and its input and output hashes. For an incremental snapshot pass
+ * RyuMetadataDAG.resolveSnapshot(id) to include the nodes it inherits.
+ */
+export function getSnapshotHashes(snapshot: BackupSnapshot): string[] {
+  const nodes = Object.values(snapshot.metadataDAG.nodes);
+  return Array.from(new Set([
+    ...snapshot.casHashes,
+    ...nodes.flatMap(node => [node.hash, ...node.metadata.inputHashes, ...node.metadata.outputHashes])
+  ]));
+}
+
+// Authenticated with every encrypted stream body (see getEncryptionContext)
+const STREAM_ENCRYPTION_CONTEXT = 'streams';
+
 // Implementation aligned with Aiko & Ryu principles
-export class AikoCAS implements ContentAddressableStorage {
+export class AikoCAS implements ContentAddressableStorage, StreamingContentStorage {
   private storagePath: string;
   private metadataPath: string;
+  private chunking: Partial<ChunkingOptions> | false;
+  private chunkThreshold: number;
+  private verifyOnRead: VerifyOnReadMode;
+  private verifySampleRate: number;
+  private keyProvider?: KeyProvider;
+  private decryptOptions: DecryptOptions;
   
-  constructor(storagePath: string = './.backups') {
+  constructor(storagePath: string = './.backups', options: AikoCASOptions = {}) {
     this.storagePath = storagePath;
     this.metadataPath = path.join(storagePath, 'metadata');
+    this.chunking = options.chunking ?? {};
+    this.chunkThreshold = options.chunkThreshold ?? DEFAULT_CHUNKING.maxSize;
+    this.verifyOnRead = options.verifyOnRead ?? 'always';
+    this.verifySampleRate = options.verifySampleRate ?? 0.1;
+    this.keyProvider = options.keyProvider;
+    this.decryptOptions = { allowPlaintext: options.allowPlaintext };
     this.ensureDirectories();
   }
   
   async store(content: unknown, metadata?: Record<string, unknown>): Promise<string> {
-    const contentStr = JSON.stringify(content);
-    const hash = this.computeHash(contentStr);
+    const contentStr = canonicalJson(content);
+    const hash = computeContentHash(content);
     const blobPath = this.getBlobPath(hash);
-    
-    // Store content with metadata
-    const blobData = {
-      content,
-      metadata: {
-        ...metadata,
-        storedAt: new Date().toISOString(),
-        hash,
-        size: contentStr.length
-      }
+    const bytes = Buffer.from(contentStr);
+    const blobMetadata = {
+      ...metadata,
+      storedAt: new Date().toISOString(),
+      hash,
+      size: bytes.length
     };
     
-    await fs.promises.writeFile(blobPath, JSON.stringify(blobData, null, 2));
+    // Large payloads are stored as a manifest of shared chunks instead of inline
+    let blobData: Record<string, unknown>;
+    if (this.chunking && bytes.length > this.chunkThreshold) {
+      const chunks = await this.storeChunks(chunkContent(bytes, this.chunking), []);
+      blobData = { chunks, byteLength: bytes.length, metadata: blobMetadata };
+    } else {
+      blobData = { content, metadata: blobMetadata };
+    }
+    
+    await this.writeAtomically(blobPath, JSON.stringify(blobData, null, 2));
     
     // Emit trace event for auditability
     this.emitTrace({
@@ -116,7 +403,7 @@ export class AikoCAS implements ContentAddressableStorage {
       eventType: 'cas.content.stored',
       payload: {
         hash,
-        size: contentStr.length,
+        size: bytes.length,
         operation: 'store',
         timestamp: new Date(),
         correlationId: hash,
@@ -135,7 +422,19 @@ export class AikoCAS implements ContentAddressableStorage {
       throw new Error(`Content not found for hash: ${hash}`);
     }
     
-    const blobData = JSON.parse(await fs.promises.readFile(blobPath, 'utf-8'));
+    const content = await this.readContent(hash);
+    
+    if (this.shouldVerify()) {
+      const actual = computeContentHash(content);
+      if (actual === hash) {
+        this.emitValidation(hash, true);
+      } else if (isLegacyAddress(content, hash)) {
+        this.emitValidation(hash, true, LEGACY_ADDRESS_REASON);
+      } else {
+        this.emitValidation(hash, false, `content hashes to ${actual}`);
+        throw new CASIntegrityError(hash, actual);
+      }
+    }
     
     // Emit trace event for auditability
     this.emitTrace({
@@ -151,33 +450,21 @@ export class AikoCAS implements ContentAddressableStorage {
       metadata: { sourceAgent: 'AikoCAS' }
     });
     
-    return blobData.content;
+    return content;
   }
   
   exists(hash: string): boolean {
-    return fs.existsSync(this.getBlobPath(hash));
+    return fs.existsSync(this.getBlobPath(hash)) || fs.existsSync(this.getStreamMetadataPath(hash));
   }
   
   async delete(hash: string): Promise<boolean> {
-    const blobPath = this.getBlobPath(hash);
+    const entry = await this.readEntry(hash);
     
-    if (fs.existsSync(blobPath)) {
-      await fs.promises.unlink(blobPath);
-      
-      // Emit trace event for auditability
-      this.emitTrace({
-        timestamp: new Date(),
-        eventType: 'cas.content.deleted',
-        payload: {
-          hash,
-          operation: 'delete',
-          timestamp: new Date(),
-          correlationId: hash,
-          sourceAgent: 'AikoCAS'
-        },
-        metadata: { sourceAgent: 'AikoCAS' }
-      });
-      
+    if (entry) {
+      await this.removeObject(hash);
+      if (entry.chunks) {
+        await this.removeUnreferencedChunks(entry.chunks);
+      }
       return true;
     }
     
@@ -185,244 +472,1274 @@ export class AikoCAS implements ContentAddressableStorage {
   }
   
   async list(): Promise<string[]> {
-    const blobsPath = path.join(this.storagePath, 'blobs');
-    
-    if (!fs.existsSync(blobsPath)) {
-      return [];
-    }
-    
-    const files = await fs.promises.readdir(blobsPath);
-    return files.filter(file => file.endsWith('.json'));
+    return [
+      ...await this.listByExtension(path.join(this.storagePath, 'blobs'), '.json'),
+      ...await this.listByExtension(this.streamsPath, '.meta.json')
+    ];
   }
   
-  private computeHash(content: string): string {
-    return crypto.createHash('sha256').update(content).digest('hex');
+  /**
+   * Lists stored objects with their logical size (what retrieve returns) and
+   * their chunk manifest, if any. Chunks themselves are not objects.
+   */
+  async listEntries(): Promise<CASEntry[]> {
+    const entries: CASEntry[] = [];
+    for (const hash of await this.list()) {
+      const entry = await this.readEntry(hash);
+      if (entry) entries.push(entry);
+    }
+    return entries;
   }
   
-  private getBlobPath(hash: string): string {
-    return path.join(this.storagePath, 'blobs', `${hash}.json`);
+  async getEntry(hash: string): Promise<CASEntry | undefined> {
+    return this.readEntry(hash);
   }
   
-  private ensureDirectories(): void {
-    const dirs = [
-      this.storagePath,
-      path.join(this.storagePath, 'blobs'),
-      this.metadataPath
-    ];
+  /**
+   * Sizes in bytes. Physical size counts every chunk file once, however many
+   * objects share it, so dedupRatio = logicalSize / physicalSize.
+   */
+  async getStats(): Promise<CASStats> {
+    const entries = await this.listEntries();
+    let logicalSize = 0;
+    let physicalSize = 0;
     
-    dirs.forEach(dir => {
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
+    for (const entry of entries) {
+      logicalSize += entry.size;
+      if (!entry.chunks) {
+        physicalSize += entry.size;
       }
-    });
-  }
-  
-  private emitTrace(event: TraceEvent): void {
-    console.log(`[AikoCAS]`, event);
-  }
-}
-
-export class RyuMetadataDAG {
-  private dagPath: string;
-  private snapshots: Map<string, BackupSnapshot> = new Map();
-  
-  constructor(dagPath: string = './.backups/metadata') {
-    this.dagPath = dagPath;
-    this.loadSnapshots();
+    }
+    
+    const chunkFiles = await this.listByExtension(this.chunksPath, '.chunk');
+    for (const chunk of chunkFiles) {
+      physicalSize += (await fs.promises.stat(this.getChunkPath(chunk))).size;
+    }
+    
+    return {
+      objects: entries.length,
+      chunks: chunkFiles.length,
+      logicalSize,
+      physicalSize,
+      dedupRatio: physicalSize > 0 ? logicalSize / physicalSize : 1
+    };
   }
   
-  async createSnapshot(
-    nodes: Record<string, DAGNode>,
-    edges: DAGEdge[],
-    description: string,
-    tags: string[] = [],
-    immutable: boolean = true
-  ): Promise<BackupSnapshot> {
-    const metadataDAG: MetadataDAG = {
-      timestamp: new Date(),
-      version: '1.0.0',
-      nodes,
-      edges,
-      consensus: this.validateConsensus(nodes, edges),
-      validatedBy: ['RyuMetadataDAG']
-    };
+  async storeStream(source: Uint8Array | Readable, metadata?: Record<string, unknown>): Promise<string> {
+    this.ensureDirectories();
+    const input = source instanceof Readable ? source : Readable.from([Buffer.from(source)]);
+    const hasher = crypto.createHash('sha256');
+    let size = 0;
     
-    const snapshot: BackupSnapshot = {
-      id: this.generateSnapshotId(),
-      timestamp: new Date(),
-      metadataDAG,
-      casHashes: this.extractHashes(nodes),
-      version: '1.0.0',
-      description,
-      tags,
-      immutable
+    const meter = new Transform({
+      transform(chunk: Buffer | string, _encoding: string, callback): void {
+        const bytes = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        hasher.update(bytes);
+        size += bytes.length;
+        callback(null, bytes);
+      }
+    });
+    
+    // Chunked streams write each chunk as it completes; otherwise bytes land in
+    // a temp file first, since the final name is only known once hashed
+    const chunker = this.chunking ? new ContentChunker(this.chunking) : undefined;
+    const chunkHashes: string[] = [];
+    const createdChunks: string[] = [];
+    const tempPath = chunker ? undefined : this.getTempPath();
+    const cipher = tempPath && this.keyProvider
+      ? createEncryptStream(this.keyProvider.getActiveKey(), STREAM_ENCRYPTION_CONTEXT)
+      : undefined;
+    const sink = chunker
+      ? new Writable({
+        write: (chunk: Buffer, _encoding: string, callback): void => {
+          this.storeChunks(chunker.push(chunk), createdChunks)
+            .then(hashes => {
+              chunkHashes.push(...hashes);
+              callback();
+            }, callback);
+        },
+        final: (callback): void => {
+          this.storeChunks(chunker.flush(), createdChunks)
+            .then(hashes => {
+              chunkHashes.push(...hashes);
+              callback();
+            }, callback);
+        }
+      })
+      : fs.createWriteStream(tempPath as string);
+    
+    try {
+      await (cipher ? pipeline(input, meter, cipher, sink) : pipeline(input, meter, sink));
+    } catch (error) {
+      if (tempPath) await fs.promises.rm(tempPath, { force: true });
+      for (const chunk of createdChunks) {
+        await fs.promises.rm(this.getChunkPath(chunk), { force: true });
+      }
+      throw error;
+    }
+    
+    const hash = hasher.digest('hex');
+    const info: StreamBlobInfo = {
+      hash,
+      size,
+      storedAt: new Date().toISOString(),
+      metadata: { ...metadata },
+      ...(chunker ? { chunks: chunkHashes } : {})
     };
     
-    await this.saveSnapshot(snapshot);
+    // The metadata file is written last: its presence is what makes the blob exist
+    if (tempPath) await fs.promises.rename(tempPath, this.getStreamPath(hash));
+    await this.writeAtomically(this.getStreamMetadataPath(hash), JSON.stringify(info, null, 2));
     
-    // Emit trace event for auditability
     this.emitTrace({
       timestamp: new Date(),
-      eventType: 'dag.snapshot.created',
+      eventType: 'cas.content.stored',
       payload: {
-        snapshotId: snapshot.id,
-        nodeCount: Object.keys(nodes).length,
-        operation: 'create',
+        hash,
+        size,
+        operation: 'store',
         timestamp: new Date(),
-        correlationId: snapshot.id,
-        sourceAgent: 'RyuMetadataDAG'
+        correlationId: hash,
+        sourceAgent: 'AikoCAS'
       },
-      metadata: { sourceAgent: 'RyuMetadataDAG' }
+      metadata: { sourceAgent: 'AikoCAS' }
     });
     
-    return snapshot;
+    return hash;
   }
   
-  async restoreSnapshot(
-    snapshotId: string,
-    cas: ContentAddressableStorage,
-    policy: RegenerationPolicy = this.getDefaultPolicy()
-  ): Promise<ValidationResult> {
-    const snapshot = this.snapshots.get(snapshotId);
-    
-    if (!snapshot) {
-      return {
-        result: false,
-        consensus: false,
-        reason: `Snapshot not found: ${snapshotId}`
-      };
-    }
+  async retrieveStream(hash: string): Promise<Readable> {
+    const info = await this.statStream(hash);
     
-    const restoredNodes: string[] = [];
-    const recomputedNodes: string[] = [];
-    
-    // Traverse DAG in dependency order
-    const sortedNodes = this.topologicalSort(snapshot.metadataDAG.nodes, snapshot.metadataDAG.edges);
-    
-    for (const nodeId of sortedNodes) {
-      const node = snapshot.metadataDAG.nodes[nodeId];
-      
-      if (policy.validateBeforeRestore) {
-        const validationResult = await this.validateNode(node, cas);
-        if (!validationResult.result) {
-          recomputedNodes.push(nodeId);
-          continue;
-        }
-      }
-      
-      if (cas.exists(node.hash)) {
-        restoredNodes.push(nodeId);
-      } else {
-        recomputedNodes.push(nodeId);
-      }
-    }
-    
-    const result: ValidationResult = {
-      result: restoredNodes.length > 0,
-      consensus: recomputedNodes.length === 0,
-      reason: recomputedNodes.length > 0 ? `Nodes need recomputation: ${recomputedNodes.join(', ')}` : undefined,
-      details: {
-        restoredNodes: restoredNodes.join(','),
-        recomputedNodes: recomputedNodes.join(','),
-        restoredNodesCount: restoredNodes.length,
-        recomputedNodesCount: recomputedNodes.length,
-        totalNodes: sortedNodes.length,
-        policy: policy.strategy
-      }
-    };
-    
-    // Emit trace event for auditability
     this.emitTrace({
       timestamp: new Date(),
-      eventType: 'dag.snapshot.restored',
+      eventType: 'cas.content.retrieved',
       payload: {
-        snapshotId,
-        result: result.result,
-        operation: 'restore',
+        hash,
+        operation: 'retrieve',
         timestamp: new Date(),
-        correlationId: snapshotId,
-        sourceAgent: 'RyuMetadataDAG'
+        correlationId: hash,
+        sourceAgent: 'AikoCAS'
       },
-      metadata: { sourceAgent: 'RyuMetadataDAG' }
+      metadata: { sourceAgent: 'AikoCAS' }
     });
     
-    return result;
-  }
-  
-  async listSnapshots(): Promise<BackupSnapshot[]> {
-    return Array.from(this.snapshots.values());
+    const source = this.openStream(info);
+    if (!this.shouldVerify()) {
+      return source;
+    }
+    
+    // The hash is only known once every byte has passed, so a mismatch
+    // surfaces as an error at the end of the stream
+    const hasher = crypto.createHash('sha256');
+    const verifier = new Transform({
+      transform(chunk: Buffer, _encoding: string, callback): void {
+        hasher.update(chunk);
+        callback(null, chunk);
+      },
+      flush: (callback): void => {
+        const actual = hasher.digest('hex');
+        this.emitValidation(hash, actual === hash, actual === hash ? undefined : `content hashes to ${actual}`);
+        callback(actual === hash ? undefined : new CASIntegrityError(hash, actual));
+      }
+    });
+    pipeline(source, verifier).catch(() => undefined);
+    return verifier;
   }
   
-  async deleteSnapshot(snapshotId: string): Promise<boolean> {
-    const snapshot = this.snapshots.get(snapshotId);
+  async statStream(hash: string): Promise<StreamBlobInfo> {
+    const metadataPath = this.getStreamMetadataPath(hash);
     
-    if (snapshot && !snapshot.immutable) {
-      this.snapshots.delete(snapshotId);
-      await this.saveSnapshots();
-      
-      // Emit trace event for auditability
-      this.emitTrace({
-        timestamp: new Date(),
-        eventType: 'dag.snapshot.deleted',
-        payload: {
-          snapshotId,
-          operation: 'delete',
-          timestamp: new Date(),
-          correlationId: snapshotId,
-          sourceAgent: 'RyuMetadataDAG'
-        },
-        metadata: { sourceAgent: 'RyuMetadataDAG' }
-      });
-      
-      return true;
+    if (!fs.existsSync(metadataPath)) {
+      throw new Error(`Content not found for hash: ${hash}`);
     }
     
-    return false;
+    return JSON.parse((await this.readStoredFile(metadataPath)).toString('utf-8'));
   }
   
-  async garbageCollect(policy: RegenerationPolicy = this.getDefaultPolicy()): Promise<string[]> {
-    const snapshots = await this.listSnapshots();
-    const toDelete: string[] = [];
+  /**
+   * Sweep phase of mark-and-sweep garbage collection: deletes every object
+   * not in `reachable`, then every chunk no surviving object uses (including
+   * chunks left by interrupted stream writes). Objects and chunks younger
+   * than minAgeMs are kept, since a snapshot may be about to reference them.
+   */
+  async sweep(reachable: Set<string>, options: SweepOptions = {}): Promise<SweepResult> {
+    const dryRun = options.dryRun ?? false;
+    const cutoff = Date.now() - (options.minAgeMs ?? 0);
+    const result: SweepResult = { deletedHashes: [], deletedChunks: [], bytesReclaimed: 0 };
+    const liveChunks = new Set<string>();
     
-    // Keep only the most recent N snapshots
-    const sortedSnapshots = snapshots.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-    const keepSnapshots = sortedSnapshots.slice(0, policy.maxSnapshots);
+    for (const entry of await this.listEntries()) {
+      const files = this.getObjectFiles(entry.hash);
+      const stats = await Promise.all(files.map(file => fs.promises.stat(file)));
+      const newest = Math.max(...stats.map(stat => stat.mtimeMs));
+      
+      if (reachable.has(entry.hash) || newest > cutoff) {
+        entry.chunks?.forEach(chunk => liveChunks.add(chunk));
+        continue;
+      }
+      
+      result.deletedHashes.push(entry.hash);
+      result.bytesReclaimed += stats.reduce((total, stat) => total + stat.size, 0);
+    }
     
-    for (const snapshot of sortedSnapshots) {
-      if (!keepSnapshots.includes(snapshot) && !snapshot.immutable) {
-        toDelete.push(snapshot.id);
+    for (const chunk of await this.listByExtension(this.chunksPath, '.chunk')) {
+      const stat = await fs.promises.stat(this.getChunkPath(chunk));
+      if (!liveChunks.has(chunk) && stat.mtimeMs <= cutoff) {
+        result.deletedChunks.push(chunk);
+        result.bytesReclaimed += stat.size;
       }
     }
     
-    // Delete old snapshots
-    for (const snapshotId of toDelete) {
-      await this.deleteSnapshot(snapshotId);
+    if (!dryRun) {
+      for (const hash of result.deletedHashes) {
+        await this.removeObject(hash);
+      }
+      for (const chunk of result.deletedChunks) {
+        await fs.promises.rm(this.getChunkPath(chunk), { force: true });
+      }
     }
     
-    return toDelete;
+    return result;
   }
   
-  private validateConsensus(nodes: Record<string, DAGNode>, edges: DAGEdge[]): boolean {
-    // Validate that all dependencies exist
-    for (const edge of edges) {
-      if (!nodes[edge.from] || !nodes[edge.to]) {
-        return false;
+  /**
+   * Re-hashes stored content and compares it with its address, regardless of
+   * the verifyOnRead setting. Never throws for a bad blob; the reason says why.
+   */
+  async verify(hash: string): Promise<BlobVerification> {
+    if (fs.existsSync(this.getBlobPath(hash))) {
+      try {
+        const content = await this.readContent(hash);
+        const actual = computeContentHash(content);
+        if (actual === hash) {
+          return { hash, kind: 'json', valid: true };
+        }
+        return isLegacyAddress(content, hash)
+          ? { hash, kind: 'json', valid: true, reason: LEGACY_ADDRESS_REASON }
+          : { hash, kind: 'json', valid: false, reason: `content hashes to ${actual}` };
+      } catch (error) {
+        return { hash, kind: 'json', valid: false, reason: `unreadable: ${(error as Error).message}` };
       }
     }
     
-    // Validate that all nodes have valid hashes
-    for (const node of Object.values(nodes)) {
-      if (!node.hash || node.hash.length !== 64) { // SHA256 length
-        return false;
+    if (fs.existsSync(this.getStreamMetadataPath(hash))) {
+      try {
+        const info = await this.statStream(hash);
+        const hasher = crypto.createHash('sha256');
+        let size = 0;
+        await pipeline(this.openStream(info), new Writable({
+          write(chunk: Buffer, _encoding: string, callback): void {
+            hasher.update(chunk);
+            size += chunk.length;
+            callback();
+          }
+        }));
+        const actual = hasher.digest('hex');
+        if (actual !== hash) {
+          return { hash, kind: 'binary', valid: false, reason: `content hashes to ${actual}` };
+        }
+        return size === info.size
+          ? { hash, kind: 'binary', valid: true }
+          : { hash, kind: 'binary', valid: false, reason: `size ${size} does not match recorded ${info.size}` };
+      } catch (error) {
+        return { hash, kind: 'binary', valid: false, reason: `unreadable: ${(error as Error).message}` };
       }
     }
     
-    return true;
+    throw new Error(`Content not found for hash: ${hash}`);
   }
   
-  private extractHashes(nodes: Record<string, DAGNode>): string[] {
-    return Object.values(nodes).map(node => node.hash);
-  }
+  /**
+   * Checks the whole store against the given snapshots: every blob is
+   * re-hashed, blobs no snapshot lists are reported as orphaned and
+   * snapshot references without a blob as missing. Each finding is also
+   * traced as a cas.content.validated event.
+   */
+  async fsck(snapshots: BackupSnapshot[] = []): Promise<FsckReport> {
+    const referenced = new Set(snapshots.flatMap(snapshot => snapshot.casHashes));
+    const report: FsckReport = {
+      checkedAt: new Date().toISOString(),
+      healthy: true,
+      blobsChecked: 0,
+      snapshotsChecked: snapshots.length,
+      corruptBlobs: [],
+      orphanedBlobs: [],
+      missingBlobs: []
+    };
+    
+    for (const hash of await this.list()) {
+      const verification = await this.verify(hash);
+      const orphaned = !referenced.has(hash);
+      report.blobsChecked++;
+      
+      if (!verification.valid) {
+        report.corruptBlobs.push({ hash, reason: verification.reason ?? 'invalid' });
+      }
+      if (orphaned) {
+        report.orphanedBlobs.push(hash);
+      }
+      
+      const reasons = [verification.reason, orphaned ? 'orphaned: not referenced by any snapshot' : undefined];
+      this.emitValidation(hash, verification.valid, reasons.filter(Boolean).join('; ') || undefined);
+    }
+    
+    for (const snapshot of snapshots) {
+      const nodes = Object.values(snapshot.metadataDAG.nodes);
+      const hashes = new Set([...snapshot.casHashes, ...nodes.map(node => node.hash)]);
+      
+      for (const hash of hashes) {
+        if (this.exists(hash)) continue;
+        
+        const nodeIds = nodes.filter(node => node.hash === hash).map(node => node.id);
+        report.missingBlobs.push({ hash, snapshotId: snapshot.id, nodeIds });
+        this.emitValidation(hash, false, `missing: referenced by snapshot ${snapshot.id}`, snapshot.id);
+      }
+    }
+    
+    report.healthy = report.corruptBlobs.length === 0 && report.missingBlobs.length === 0;
+    return report;
+  }
+  
+  /**
+   * Stores JSON content again under its current hash, keeping the caller
+   * metadata, and returns that hash. The old blob is left in place: callers
+   * delete it once every reference has moved (see migrateToCanonicalHashes).
+   */
+  async rehash(hash: string): Promise<string> {
+    const blobPath = this.getBlobPath(hash);
+    
+    if (!fs.existsSync(blobPath)) {
+      throw new Error(`Content not found for hash: ${hash}`);
+    }
+    
+    // Read without verify-on-read: not matching the address is the point here
+    const content = await this.readContent(hash);
+    const newHash = computeContentHash(content);
+    if (newHash === hash) {
+      return hash;
+    }
+    
+    const blobData = JSON.parse((await this.readStoredFile(blobPath)).toString('utf-8'));
+    // storedAt, hash and size describe the old blob and are recomputed by store
+    const { storedAt, hash: _hash, size: _size, ...metadata } = blobData.metadata ?? {};
+    await this.store(content, {
+      ...metadata,
+      rehashedFrom: hash,
+      originallyStoredAt: metadata.originallyStoredAt ?? storedAt
+    });
+    
+    return newHash;
+  }
+  
+  /**
+   * Re-encrypts every file not yet under the provider's active key, plaintext
+   * included. Call it after making a new key active; older keys must stay
+   * readable until it returns. Addresses never change.
+   */
+  async rotateKey(): Promise<KeyRotationReport> {
+    if (!this.keyProvider) {
+      throw new Error('Key rotation requires a key provider');
+    }
+    const key = this.keyProvider.getActiveKey();
+    const report: KeyRotationReport = { keyId: key.id, reencrypted: 0, unchanged: 0 };
+    const files = [
+      ...(await this.listByExtension(path.join(this.storagePath, 'blobs'), '.json')).map(hash => this.getBlobPath(hash)),
+      ...(await this.listByExtension(this.streamsPath, '.meta.json')).map(hash => this.getStreamMetadataPath(hash)),
+      ...(await this.listByExtension(this.streamsPath, '.bin')).map(hash => this.getStreamPath(hash)),
+      ...(await this.listByExtension(this.chunksPath, '.chunk')).map(hash => this.getChunkPath(hash))
+    ];
+    
+    for (const file of files) {
+      if (await readKeyId(file) === key.id) {
+        report.unchanged++;
+        continue;
+      }
+      
+      // Stream bodies can be larger than memory, so they are re-encrypted as a stream
+      if (file.endsWith('.bin')) {
+        const tempPath = this.getTempPath();
+        await pipeline(
+          createDecryptStream(file, this.keyProvider, STREAM_ENCRYPTION_CONTEXT, this.decryptOptions),
+          createEncryptStream(key, STREAM_ENCRYPTION_CONTEXT),
+          fs.createWriteStream(tempPath)
+        ).catch(async error => {
+          await fs.promises.rm(tempPath, { force: true });
+          throw error;
+        });
+        await fs.promises.rename(tempPath, file);
+      } else {
+        await this.writeAtomically(file, await this.readStoredFile(file));
+      }
+      report.reencrypted++;
+    }
+    
+    return report;
+  }
+  
+  private async removeObject(hash: string): Promise<void> {
+    for (const file of this.getObjectFiles(hash)) {
+      await fs.promises.rm(file, { force: true });
+    }
+    
+    // Emit trace event for auditability
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.deleted',
+      payload: {
+        hash,
+        operation: 'delete',
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'AikoCAS'
+      },
+      metadata: { sourceAgent: 'AikoCAS' }
+    });
+  }
+  
+  // Files making up an object, excluding its chunks
+  private getObjectFiles(hash: string): string[] {
+    return [this.getBlobPath(hash), this.getStreamMetadataPath(hash), this.getStreamPath(hash)]
+      .filter(file => fs.existsSync(file));
+  }
+  
+  private async readContent(hash: string): Promise<unknown> {
+    const blobData = JSON.parse((await this.readStoredFile(this.getBlobPath(hash))).toString('utf-8'));
+    return Array.isArray(blobData.chunks)
+      ? JSON.parse((await this.readChunks(blobData.chunks)).toString('utf-8'))
+      : blobData.content;
+  }
+  
+  private openStream(info: StreamBlobInfo): Readable {
+    if (!info.chunks) {
+      const streamPath = this.getStreamPath(info.hash);
+      return createDecryptStream(streamPath, this.keyProvider, this.getEncryptionContext(streamPath), this.decryptOptions);
+    }
+    
+    // Reassemble one chunk at a time so memory stays bounded by the chunk size
+    const chunks = info.chunks;
+    let next = 0;
+    const readChunk = (chunk: string): Promise<Buffer> => this.readStoredFile(this.getChunkPath(chunk));
+    return new Readable({
+      read(): void {
+        if (next >= chunks.length) {
+          this.push(null);
+          return;
+        }
+        readChunk(chunks[next++]).then(
+          data => this.push(data),
+          error => this.destroy(error)
+        );
+      }
+    });
+  }
+  
+  private shouldVerify(): boolean {
+    switch (this.verifyOnRead) {
+      case 'always':
+        return true;
+      case 'sample':
+        return Math.random() < this.verifySampleRate;
+      default:
+        return false;
+    }
+  }
+  
+  private emitValidation(hash: string, result: boolean, reason?: string, correlationId: string = hash): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.validated',
+      payload: {
+        hash,
+        operation: 'validate',
+        result,
+        reason,
+        timestamp: new Date(),
+        correlationId,
+        sourceAgent: 'AikoCAS'
+      },
+      metadata: { sourceAgent: 'AikoCAS' }
+    });
+  }
+  
+  private get streamsPath(): string {
+    return path.join(this.storagePath, 'streams');
+  }
+  
+  private get chunksPath(): string {
+    return path.join(this.storagePath, 'chunks');
+  }
+  
+  private getBlobPath(hash: string): string {
+    return path.join(this.storagePath, 'blobs', `${hash}.json`);
+  }
+  
+  private getStreamPath(hash: string): string {
+    return path.join(this.streamsPath, `${hash}.bin`);
+  }
+  
+  private getStreamMetadataPath(hash: string): string {
+    return path.join(this.streamsPath, `${hash}.meta.json`);
+  }
+  
+  private getChunkPath(hash: string): string {
+    return path.join(this.chunksPath, `${hash}.chunk`);
+  }
+  
+  // Temp files live next to their destination so rename never crosses devices
+  private getTempPath(dir: string = this.streamsPath): string {
+    return path.join(dir, `.${process.pid}-${crypto.randomBytes(8).toString('hex')}.tmp`);
+  }
+  
+  private async writeAtomically(filePath: string, data: string | Uint8Array): Promise<void> {
+    await writeFileAtomic(filePath, this.seal(filePath, data));
+  }
+  
+  // Encrypts with the active key when a key provider is configured
+  private seal(filePath: string, data: string | Uint8Array): string | Uint8Array {
+    if (!this.keyProvider) {
+      return data;
+    }
+    return encrypt(typeof data === 'string' ? Buffer.from(data) : data, this.keyProvider.getActiveKey(), this.getEncryptionContext(filePath));
+  }
+  
+  private async readStoredFile(filePath: string): Promise<Buffer> {
+    return decrypt(await fs.promises.readFile(filePath), this.keyProvider, this.getEncryptionContext(filePath), this.decryptOptions);
+  }
+  
+  // Binds an encrypted file to its place in the store. Stream bodies are
+  // encrypted before their hash is known, so they are bound to the directory
+  // only; reading them re-hashes the plaintext anyway.
+  private getEncryptionContext(filePath: string): string {
+    const relative = path.relative(this.storagePath, filePath).split(path.sep).join('/');
+    return relative.endsWith('.bin') ? STREAM_ENCRYPTION_CONTEXT : relative;
+  }
+  
+  // Stores chunks not already present and returns their hashes in order;
+  // newly written ones are appended to `created` for cleanup on failure
+  private async storeChunks(chunks: Buffer[], created: string[]): Promise<string[]> {
+    const hashes: string[] = [];
+    for (const chunk of chunks) {
+      const hash = crypto.createHash('sha256').update(chunk).digest('hex');
+      const chunkPath = this.getChunkPath(hash);
+      if (!fs.existsSync(chunkPath)) {
+        await this.writeAtomically(chunkPath, chunk);
+        created.push(hash);
+      }
+      hashes.push(hash);
+    }
+    return hashes;
+  }
+  
+  private async readChunks(chunks: string[]): Promise<Buffer> {
+    const parts: Buffer[] = [];
+    for (const chunk of chunks) {
+      const chunkPath = this.getChunkPath(chunk);
+      if (!fs.existsSync(chunkPath)) {
+        throw new Error(`Chunk not found for hash: ${chunk}`);
+      }
+      parts.push(await this.readStoredFile(chunkPath));
+    }
+    return Buffer.concat(parts);
+  }
+  
+  private async readEntry(hash: string): Promise<CASEntry | undefined> {
+    const blobPath = this.getBlobPath(hash);
+    if (fs.existsSync(blobPath)) {
+      const blobData = JSON.parse((await this.readStoredFile(blobPath)).toString('utf-8'));
+      return Array.isArray(blobData.chunks)
+        ? { hash, kind: 'json', size: blobData.byteLength, chunks: blobData.chunks }
+        : { hash, kind: 'json', size: Buffer.byteLength(JSON.stringify(blobData.content)) };
+    }
+    
+    if (fs.existsSync(this.getStreamMetadataPath(hash))) {
+      const info = await this.statStream(hash);
+      return { hash, kind: 'binary', size: info.size, ...(info.chunks ? { chunks: info.chunks } : {}) };
+    }
+    
+    return undefined;
+  }
+  
+  // Chunks may be shared, so only those no remaining manifest mentions are removed
+  private async removeUnreferencedChunks(candidates: string[]): Promise<void> {
+    const referenced = new Set<string>();
+    for (const entry of await this.listEntries()) {
+      entry.chunks?.forEach(chunk => referenced.add(chunk));
+    }
+    
+    for (const chunk of new Set(candidates)) {
+      if (!referenced.has(chunk)) {
+        await fs.promises.rm(this.getChunkPath(chunk), { force: true });
+      }
+    }
+  }
+  
+  private async listByExtension(dir: string, extension: string): Promise<string[]> {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    
+    const files = await fs.promises.readdir(dir);
+    return files
+      .filter(file => file.endsWith(extension))
+      .map(file => file.slice(0, -extension.length));
+  }
+  
+  private ensureDirectories(): void {
+    const dirs = [
+      this.storagePath,
+      path.join(this.storagePath, 'blobs'),
+      this.streamsPath,
+      this.chunksPath,
+      this.metadataPath
+    ];
+    
+    dirs.forEach(dir => {
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    });
+  }
+  
+  private emitTrace(event: TraceEvent): void {
+    console.log(`[AikoCAS]`, event);
+  }
+}
+
+export class RyuMetadataDAG {
+  private dagPath: string;
+  private snapshots: Map<string, BackupSnapshot> = new Map();
+  private keyProvider?: KeyProvider;
+  private decryptOptions: DecryptOptions;
+  private signingKey?: SigningKey;
+  private chain: ChainEntry[] = [];
+  // Snapshots created, changed or deleted since the last save
+  private changed: Set<string> = new Set();
+  private lock: FileLock;
+  
+  constructor(dagPath: string = './.backups/metadata', options: RyuMetadataDAGOptions = {}) {
+    this.dagPath = dagPath;
+    this.keyProvider = options.keyProvider;
+    this.decryptOptions = { allowPlaintext: options.allowPlaintext };
+    this.signingKey = options.signingKey;
+    fs.mkdirSync(dagPath, { recursive: true });
+    this.lock = new FileLock(path.join(dagPath, '.lock'), options.lock);
+    // A write in progress elsewhere is not a crash; its process recovers or finishes it
+    if (this.lock.tryAcquire()) {
+      try {
+        this.recover();
+      } finally {
+        this.lock.release();
+      }
+    }
+    this.loadSnapshots();
+  }
+  
+  /**
+   * Runs fn holding the metadata lock, after recovering any write a crashed
+   * process left behind and reloading the snapshots, so fn sees every change
+   * other processes made. Every DAG method that writes runs in here; callers
+   * wrap a read-then-write sequence of their own to make it atomic.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.lock.held) {
+      return await fn();
+    }
+    return await this.lock.withLock(async () => {
+      this.recover();
+      this.loadSnapshots();
+      return await fn();
+    });
+  }
+  
+  /**
+   * Records a snapshot of the full DAG. With a parentId only the nodes that
+   * differ from the parent are stored; resolveSnapshot rebuilds the rest.
+   */
+  async createSnapshot(
+    nodes: Record<string, DAGNode>,
+    edges: DAGEdge[],
+    description: string,
+    tags: string[] = [],
+    immutable: boolean = true,
+    parentId?: string
+  ): Promise<BackupSnapshot> {
+    return await this.withLock(async () => {
+      const parent = parentId ? this.snapshots.get(parentId) : undefined;
+      if (parentId && !parent) {
+        throw new Error(`Snapshot not found: ${parentId}`);
+      }
+    
+      const delta = this.computeDelta(nodes, parent ? this.resolveDAG(parent).nodes : {});
+      const metadataDAG: MetadataDAG = {
+        timestamp: new Date(),
+        version: '1.0.0',
+        nodes: delta.nodes,
+        edges,
+        consensus: this.validateConsensus(nodes, edges),
+        validatedBy: ['RyuMetadataDAG']
+      };
+      if (delta.removedNodes.length > 0) {
+        metadataDAG.removedNodes = delta.removedNodes;
+      }
+    
+      const snapshot: BackupSnapshot = {
+        id: this.generateSnapshotId(),
+        timestamp: new Date(),
+        metadataDAG,
+        casHashes: this.extractHashes(delta.nodes),
+        version: '1.0.0',
+        description,
+        tags,
+        immutable
+      };
+      if (parentId) {
+        snapshot.parentId = parentId;
+      }
+    
+      await this.saveSnapshot(snapshot);
+    
+      // Emit trace event for auditability
+      this.emitTrace({
+        timestamp: new Date(),
+        eventType: 'dag.snapshot.created',
+        payload: {
+          snapshotId: snapshot.id,
+          nodeCount: Object.keys(nodes).length,
+          operation: 'create',
+          timestamp: new Date(),
+          correlationId: snapshot.id,
+          sourceAgent: 'RyuMetadataDAG'
+        },
+        metadata: { sourceAgent: 'RyuMetadataDAG' }
+      });
+    
+      return snapshot;
+    });
+  }
+  
+  /**
+   * Walks the snapshot in dependency order. Nodes whose content is in CAS
+   * (and matches its hash, with validateBeforeRestore) are rehydrated; the
+   * rest are recomputed from their inputs, stored again and rehydrated.
+   */
+  async restoreSnapshot(
+    snapshotId: string,
+    cas: ContentAddressableStorage,
+    policy: RegenerationPolicy = this.getDefaultPolicy(),
+    restorer?: NodeRestorer
+  ): Promise<ValidationResult> {
+    const snapshot = this.snapshots.get(snapshotId);
+    
+    if (!snapshot) {
+      return {
+        result: false,
+        consensus: false,
+        reason: `Snapshot not found: ${snapshotId}`
+      };
+    }
+    
+    const { nodes, edges } = this.resolveDAG(snapshot);
+    const unknownNodes = (policy.selectedNodes ?? []).filter(nodeId => !nodes[nodeId]);
+    if (policy.strategy === 'selective' && (!policy.selectedNodes?.length || unknownNodes.length > 0)) {
+      return {
+        result: false,
+        consensus: false,
+        reason: unknownNodes.length > 0
+          ? `Selected nodes not in snapshot: ${unknownNodes.join(', ')}`
+          : 'Selective restore requires policy.selectedNodes'
+      };
+    }
+    
+    const restoredNodes: string[] = [];
+    const recomputedNodes: string[] = [];
+    const skippedNodes: string[] = [];
+    const failedNodes: string[] = [];
+    const failures: string[] = [];
+    
+    // Nodes whose dependents must be recomputed, and the new address of
+    // every recomputed output that changed
+    const regenerated = new Set<string>();
+    const replacedHashes = new Map<string, string>();
+    
+    // Traverse DAG in dependency order
+    const sortedNodes = this.topologicalSort(nodes, edges);
+    const scope = this.getRestoreScope(sortedNodes, edges, policy);
+    
+    for (const nodeId of sortedNodes) {
+      const node = nodes[nodeId];
+      const upstream = edges.filter(edge => edge.to === nodeId).map(edge => edge.from);
+      const inputsChanged = upstream.some(dep => regenerated.has(dep));
+      
+      if (!scope.has(nodeId)) {
+        skippedNodes.push(nodeId);
+        continue;
+      }
+      
+      if (!inputsChanged) {
+        if (policy.strategy !== 'full' && restorer?.currentHash && await restorer.currentHash(node) === node.hash) {
+          skippedNodes.push(nodeId);
+          continue;
+        }
+        
+        const stored = await this.loadNodeContent(node, cas, policy.validateBeforeRestore);
+        if (stored.found) {
+          try {
+            await restorer?.rehydrate(node, stored.content);
+            restoredNodes.push(nodeId);
+          } catch (error) {
+            failedNodes.push(nodeId);
+            failures.push(`${nodeId}: ${(error as Error).message}`);
+          }
+          continue;
+        }
+      }
+      
+      if (!restorer?.recompute) {
+        failedNodes.push(nodeId);
+        failures.push(`${nodeId}: content unavailable and no recomputation registered`);
+        continue;
+      }
+      
+      try {
+        const inputs = await this.loadNodeInputs(node, cas, replacedHashes);
+        const output = await restorer.recompute(node, inputs);
+        const hash = await cas.store(output, { nodeId, agentId: node.agentId, recomputedFrom: node.hash });
+        await restorer.rehydrate(node, output);
+        
+        recomputedNodes.push(nodeId);
+        if (hash !== node.hash) {
+          replacedHashes.set(node.hash, hash);
+        }
+        if (hash !== node.hash || policy.strategy === 'full') {
+          regenerated.add(nodeId);
+        }
+      } catch (error) {
+        failedNodes.push(nodeId);
+        failures.push(`${nodeId}: ${(error as Error).message}`);
+      }
+    }
+    
+    const reasons: string[] = [];
+    if (failedNodes.length > 0) reasons.push(`Nodes could not be restored: ${failures.join('; ')}`);
+    if (recomputedNodes.length > 0) reasons.push(`Nodes recomputed: ${recomputedNodes.join(', ')}`);
+    
+    const result: ValidationResult = {
+      result: sortedNodes.length > 0 && failedNodes.length === 0,
+      consensus: failedNodes.length === 0 && recomputedNodes.length === 0,
+      reason: reasons.length > 0 ? reasons.join('. ') : undefined,
+      details: {
+        restoredNodes: restoredNodes.join(','),
+        recomputedNodes: recomputedNodes.join(','),
+        skippedNodes: skippedNodes.join(','),
+        failedNodes: failedNodes.join(','),
+        restoredNodesCount: restoredNodes.length,
+        recomputedNodesCount: recomputedNodes.length,
+        skippedNodesCount: skippedNodes.length,
+        failedNodesCount: failedNodes.length,
+        totalNodes: sortedNodes.length,
+        policy: policy.strategy
+      }
+    };
+    
+    // Emit trace event for auditability
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'dag.snapshot.restored',
+      payload: {
+        snapshotId,
+        result: result.result,
+        operation: 'restore',
+        timestamp: new Date(),
+        correlationId: snapshotId,
+        sourceAgent: 'RyuMetadataDAG'
+      },
+      metadata: { sourceAgent: 'RyuMetadataDAG' }
+    });
+    
+    return result;
+  }
+  
+  async listSnapshots(): Promise<BackupSnapshot[]> {
+    return Array.from(this.snapshots.values());
+  }
+  
+  async deleteSnapshot(snapshotId: string): Promise<boolean> {
+    return await this.withLock(async () => {
+      const snapshot = this.snapshots.get(snapshotId);
+    
+      if (snapshot && !snapshot.immutable) {
+        this.rebaseChildren(snapshot);
+        this.snapshots.delete(snapshotId);
+        this.changed.add(snapshotId);
+        await this.saveSnapshots();
+      
+        // Emit trace event for auditability
+        this.emitTrace({
+          timestamp: new Date(),
+          eventType: 'dag.snapshot.deleted',
+          payload: {
+            snapshotId,
+            operation: 'delete',
+            timestamp: new Date(),
+            correlationId: snapshotId,
+            sourceAgent: 'RyuMetadataDAG'
+          },
+          metadata: { sourceAgent: 'RyuMetadataDAG' }
+        });
+      
+        return true;
+      }
+    
+      return false;
+    });
+  }
+  
+  /**
+   * Deletes the snapshots planRetention prunes and returns their ids; with
+   * dryRun nothing is deleted.
+   */
+  async garbageCollect(policy: RegenerationPolicy = this.getDefaultPolicy(), dryRun: boolean = false): Promise<string[]> {
+    return await this.withLock(async () => {
+      const toDelete = this.planRetention(policy).prune;
+    
+      if (!dryRun) {
+        for (const snapshotId of toDelete) {
+          await this.deleteSnapshot(snapshotId);
+        }
+      }
+    
+      return toDelete;
+    });
+  }
+  
+  /**
+   * Shows what garbageCollect would do with the policy: every snapshot,
+   * newest first, with the rules that keep it. With policy.retention the
+   * RetentionPolicy rules apply; otherwise mutable snapshots beyond the newest
+   * maxSnapshots or older than ttlDays (ttlDays <= 0 disables expiry) are
+   * pruned. Immutable snapshots are never pruned.
+   */
+  planRetention(policy: RegenerationPolicy = this.getDefaultPolicy(), now: Date = new Date()): RetentionPlan {
+    const snapshots = Array.from(this.snapshots.values());
+    return policy.retention
+      ? applyRetentionPolicy(snapshots, policy.retention, now)
+      : applyLegacyRetention(snapshots, policy.maxSnapshots, policy.ttlDays, now);
+  }
+  
+  /**
+   * Adds a snapshot recorded elsewhere, e.g. read from a bundle. Its parent,
+   * if it has one, must already be here.
+   */
+  async importSnapshot(snapshotData: BackupSnapshot): Promise<BackupSnapshot> {
+    return await this.withLock(async () => {
+      // A signature from another store's chain means nothing here
+      const { signature: _signature, ...snapshot } = this.reviveSnapshot(snapshotData);
+      if (this.snapshots.has(snapshot.id)) {
+        throw new Error(`Snapshot already exists: ${snapshot.id}`);
+      }
+      if (snapshot.parentId && !this.snapshots.has(snapshot.parentId)) {
+        throw new Error(`Snapshot not found: ${snapshot.parentId}`);
+      }
+    
+      await this.saveSnapshot(snapshot);
+    
+      this.emitTrace({
+        timestamp: new Date(),
+        eventType: 'dag.snapshot.imported',
+        payload: {
+          snapshotId: snapshot.id,
+          nodeCount: Object.keys(snapshot.metadataDAG.nodes).length,
+          operation: 'import',
+          timestamp: new Date(),
+          correlationId: snapshot.id,
+          sourceAgent: 'RyuMetadataDAG'
+        },
+        metadata: { sourceAgent: 'RyuMetadataDAG' }
+      });
+    
+      return snapshot;
+    });
+  }
+  
+  hasSnapshot(snapshotId: string): boolean {
+    return this.snapshots.has(snapshotId);
+  }
+  
+  /**
+   * Returns the snapshot with its full DAG: the parent chain's nodes with
+   * this snapshot's delta applied. Snapshots without a parent come back as is.
+   */
+  resolveSnapshot(snapshotId: string): BackupSnapshot | undefined {
+    const snapshot = this.snapshots.get(snapshotId);
+    if (!snapshot) {
+      return undefined;
+    }
+    
+    const metadataDAG = this.resolveDAG(snapshot);
+    return { ...snapshot, metadataDAG, casHashes: this.extractHashes(metadataDAG.nodes) };
+  }
+  
+  /**
+   * Compares the full DAGs of two snapshots. Nodes count as changed when
+   * anything but their traceId or computationTime differs.
+   */
+  async diffSnapshots(fromId: string, toId: string): Promise<SnapshotDiff> {
+    const from = this.resolveSnapshot(fromId);
+    const to = this.resolveSnapshot(toId);
+    if (!from || !to) {
+      throw new Error(`Snapshot not found: ${from ? toId : fromId}`);
+    }
+    
+    const fromNodes = from.metadataDAG.nodes;
+    const toNodes = to.metadataDAG.nodes;
+    const fromEdges = new Map(from.metadataDAG.edges.map(edge => [canonicalJson(edge), edge]));
+    const toEdges = new Map(to.metadataDAG.edges.map(edge => [canonicalJson(edge), edge]));
+    const fromHashes = new Set(getSnapshotHashes(from));
+    const toHashes = new Set(getSnapshotHashes(to));
+    
+    return {
+      from: fromId,
+      to: toId,
+      addedNodes: Object.keys(toNodes).filter(nodeId => !fromNodes[nodeId]),
+      removedNodes: Object.keys(fromNodes).filter(nodeId => !toNodes[nodeId]),
+      changedNodes: Object.keys(toNodes).filter(nodeId =>
+        fromNodes[nodeId] && this.nodeFingerprint(fromNodes[nodeId]) !== this.nodeFingerprint(toNodes[nodeId])
+      ),
+      addedEdges: Array.from(toEdges.keys()).filter(key => !fromEdges.has(key)).map(key => toEdges.get(key)!),
+      removedEdges: Array.from(fromEdges.keys()).filter(key => !toEdges.has(key)).map(key => fromEdges.get(key)!),
+      addedHashes: Array.from(toHashes).filter(hash => !fromHashes.has(hash)),
+      removedHashes: Array.from(fromHashes).filter(hash => !toHashes.has(hash))
+    };
+  }
+  
+  /**
+   * Folds the parent chain of headId, up to and including baseId (the root by
+   * default), into headId, which then holds its DAG relative to baseId's
+   * parent. Mutable snapshots in the chain are deleted; immutable ones are
+   * kept as they are but are no longer ancestors of headId.
+   */
+  async squashSnapshots(headId: string, baseId?: string): Promise<SquashResult> {
+    return await this.withLock(async () => {
+      const head = this.snapshots.get(headId);
+      if (!head) {
+        throw new Error(`Snapshot not found: ${headId}`);
+      }
+    
+      const chain: BackupSnapshot[] = [];
+      let ancestor = head.parentId ? this.snapshots.get(head.parentId) : undefined;
+      while (ancestor) {
+        chain.push(ancestor);
+        if (ancestor.id === baseId) break;
+        ancestor = ancestor.parentId ? this.snapshots.get(ancestor.parentId) : undefined;
+      }
+      if (baseId !== undefined && chain[chain.length - 1]?.id !== baseId) {
+        throw new Error(`Snapshot ${baseId} is not an ancestor of ${headId}`);
+      }
+    
+      const parentId = chain.length > 0 ? chain[chain.length - 1].parentId : head.parentId;
+      this.rebase(head, parentId);
+      await this.saveSnapshots();
+    
+      const squashed: string[] = [];
+      const kept: string[] = [];
+      for (const snapshot of chain) {
+        if (await this.deleteSnapshot(snapshot.id)) {
+          squashed.push(snapshot.id);
+        } else {
+          kept.push(snapshot.id);
+        }
+      }
+    
+      this.emitTrace({
+        timestamp: new Date(),
+        eventType: 'dag.snapshot.squashed',
+        payload: {
+          snapshotId: headId,
+          nodeCount: Object.keys(head.metadataDAG.nodes).length,
+          operation: 'squash',
+          timestamp: new Date(),
+          correlationId: headId,
+          sourceAgent: 'RyuMetadataDAG'
+        },
+        metadata: { sourceAgent: 'RyuMetadataDAG' }
+      });
+    
+      const result: SquashResult = { snapshotId: headId, squashed, kept };
+      if (parentId) {
+        result.parentId = parentId;
+      }
+      return result;
+    });
+  }
+  
+  /**
+   * Points every snapshot at new CAS addresses: node hashes, node input and
+   * output hashes and the snapshot's casHashes. This is the one sanctioned
+   * edit of immutable snapshots, since the content they describe is unchanged.
+   * Returns the ids of the snapshots that changed.
+   */
+  async rewriteHashes(mapping: Map<string, string>, dryRun: boolean = false): Promise<string[]> {
+    return await this.withLock(async () => {
+      const rewrite = (hash: string): string => mapping.get(hash) ?? hash;
+      const changed: string[] = [];
+    
+      for (const snapshot of this.snapshots.values()) {
+        if (!getSnapshotHashes(snapshot).some(hash => mapping.has(hash))) {
+          continue;
+        }
+      
+        changed.push(snapshot.id);
+        if (dryRun) {
+          continue;
+        }
+      
+        snapshot.casHashes = Array.from(new Set(snapshot.casHashes.map(rewrite)));
+        this.changed.add(snapshot.id);
+        for (const node of Object.values(snapshot.metadataDAG.nodes)) {
+          node.hash = rewrite(node.hash);
+          node.metadata.inputHashes = node.metadata.inputHashes.map(rewrite);
+          node.metadata.outputHashes = node.metadata.outputHashes.map(rewrite);
+        }
+      }
+    
+      if (changed.length > 0 && !dryRun) {
+        await this.saveSnapshots();
+      
+        for (const snapshotId of changed) {
+          this.emitTrace({
+            timestamp: new Date(),
+            eventType: 'dag.snapshot.migrated',
+            payload: {
+              snapshotId,
+              operation: 'migrate',
+              timestamp: new Date(),
+              correlationId: snapshotId,
+              sourceAgent: 'RyuMetadataDAG'
+            },
+            metadata: { sourceAgent: 'RyuMetadataDAG' }
+          });
+        }
+      }
+    
+      return changed;
+    });
+  }
+  
+  // Rewrites snapshots.json and chain.json under the active key and returns
+  // how many of them were not already
+  async rotateKey(): Promise<number> {
+    return await this.withLock(async () => {
+      if (!this.keyProvider) {
+        throw new Error('Key rotation requires a key provider');
+      }
+      let rewritten = 0;
+      for (const fileName of ['snapshots.json', 'chain.json']) {
+        const filePath = path.join(this.dagPath, fileName);
+        if (fs.existsSync(filePath) && await readKeyId(filePath) !== this.keyProvider.getActiveKey().id) {
+          await writeJournaled(this.dagPath, [this.sealMetadataFile(fileName, this.readMetadataFile(fileName))]);
+          rewritten++;
+        }
+      }
+      return rewritten;
+    });
+  }
+  
+  private resolveDAG(snapshot: BackupSnapshot): MetadataDAG {
+    const { removedNodes, ...metadataDAG } = snapshot.metadataDAG;
+    if (!snapshot.parentId) {
+      return metadataDAG;
+    }
+    
+    const parent = this.snapshots.get(snapshot.parentId);
+    if (!parent) {
+      throw new Error(`Parent snapshot not found: ${snapshot.parentId}`);
+    }
+    
+    const nodes = { ...this.resolveDAG(parent).nodes };
+    for (const nodeId of removedNodes ?? []) {
+      delete nodes[nodeId];
+    }
+    return { ...metadataDAG, nodes: { ...nodes, ...metadataDAG.nodes } };
+  }
+  
+  private computeDelta(
+    nodes: Record<string, DAGNode>,
+    baseNodes: Record<string, DAGNode>
+  ): { nodes: Record<string, DAGNode>; removedNodes: string[] } {
+    const changed: Record<string, DAGNode> = {};
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      if (!baseNodes[nodeId] || this.nodeFingerprint(baseNodes[nodeId]) !== this.nodeFingerprint(node)) {
+        changed[nodeId] = node;
+      }
+    }
+    
+    return {
+      nodes: changed,
+      removedNodes: Object.keys(baseNodes).filter(nodeId => !nodes[nodeId])
+    };
+  }
+  
+  // Trace ids and timings differ on every capture without the node changing
+  private nodeFingerprint(node: DAGNode): string {
+    return canonicalJson({
+      ...node,
+      traceId: undefined,
+      metadata: { ...node.metadata, computationTime: undefined }
+    });
+  }
+  
+  // Re-expresses a snapshot's stored delta against another parent (or none)
+  // without changing its resolved DAG
+  private rebase(snapshot: BackupSnapshot, parentId: string | undefined): void {
+    const resolved = this.resolveDAG(snapshot);
+    const parent = parentId ? this.snapshots.get(parentId) : undefined;
+    const delta = this.computeDelta(resolved.nodes, parent ? this.resolveDAG(parent).nodes : {});
+    
+    snapshot.metadataDAG = { ...resolved, nodes: delta.nodes };
+    if (delta.removedNodes.length > 0) {
+      snapshot.metadataDAG.removedNodes = delta.removedNodes;
+    }
+    snapshot.casHashes = this.extractHashes(delta.nodes);
+    this.changed.add(snapshot.id);
+    
+    if (parentId) {
+      snapshot.parentId = parentId;
+    } else {
+      delete snapshot.parentId;
+    }
+  }
+  
+  // Children of a snapshot about to be deleted take over its nodes
+  private rebaseChildren(snapshot: BackupSnapshot): void {
+    for (const child of this.snapshots.values()) {
+      if (child.parentId === snapshot.id) {
+        this.rebase(child, snapshot.parentId);
+      }
+    }
+  }
+  
+  private validateConsensus(nodes: Record<string, DAGNode>, edges: DAGEdge[]): boolean {
+    // Validate that all dependencies exist
+    for (const edge of edges) {
+      if (!nodes[edge.from] || !nodes[edge.to]) {
+        return false;
+      }
+    }
+    
+    // Validate that all nodes have valid hashes
+    for (const node of Object.values(nodes)) {
+      if (!node.hash || node.hash.length !== 64) { // SHA256 length
+        return false;
+      }
+    }
+    
+    return true;
+  }
+  
+  private extractHashes(nodes: Record<string, DAGNode>): string[] {
+    return Object.values(nodes).map(node => node.hash);
+  }
   
   private generateSnapshotId(): string {
     return `snapshot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -469,20 +1786,58 @@ export class RyuMetadataDAG {
     return result;
   }
   
-  private async validateNode(node: DAGNode, cas: ContentAddressableStorage): Promise<ValidationResult> {
+  // Selective restores cover the selected nodes plus everything they depend on
+  private getRestoreScope(sortedNodes: string[], edges: DAGEdge[], policy: RegenerationPolicy): Set<string> {
+    if (policy.strategy !== 'selective') {
+      return new Set(sortedNodes);
+    }
+    
+    const scope = new Set<string>();
+    const pending = [...(policy.selectedNodes ?? [])];
+    while (pending.length > 0) {
+      const nodeId = pending.pop()!;
+      if (scope.has(nodeId)) continue;
+      scope.add(nodeId);
+      pending.push(...edges.filter(edge => edge.to === nodeId).map(edge => edge.from));
+    }
+    return scope;
+  }
+  
+  private async loadNodeContent(
+    node: DAGNode,
+    cas: ContentAddressableStorage,
+    validate: boolean
+  ): Promise<{ found: boolean; content?: unknown }> {
     if (!cas.exists(node.hash)) {
-      return {
-        result: false,
-        consensus: false,
-        reason: `Node content not found in CAS: ${node.hash}`
-      };
+      return { found: false };
     }
     
-    return {
-      result: true,
-      consensus: true,
-      details: { nodeId: node.id, hash: node.hash }
-    };
+    try {
+      const content = await cas.retrieve(node.hash);
+      if (validate && computeContentHash(content) !== node.hash) {
+        return { found: false };
+      }
+      return { found: true, content };
+    } catch {
+      return { found: false };
+    }
+  }
+  
+  // Inputs that were recomputed during this restore are read from their new address
+  private async loadNodeInputs(
+    node: DAGNode,
+    cas: ContentAddressableStorage,
+    replacedHashes: Map<string, string>
+  ): Promise<unknown[]> {
+    const inputs: unknown[] = [];
+    for (const inputHash of node.metadata.inputHashes) {
+      const hash = replacedHashes.get(inputHash) ?? inputHash;
+      if (!cas.exists(hash)) {
+        throw new Error(`input not available: ${inputHash}`);
+      }
+      inputs.push(await cas.retrieve(hash));
+    }
+    return inputs;
   }
   
   private getDefaultPolicy(): RegenerationPolicy {
@@ -497,86 +1852,503 @@ export class RyuMetadataDAG {
   
   private async saveSnapshot(snapshot: BackupSnapshot): Promise<void> {
     this.snapshots.set(snapshot.id, snapshot);
+    this.changed.add(snapshot.id);
     await this.saveSnapshots();
   }
   
+  // chain.json and snapshots.json are replaced together through the journal
   private async saveSnapshots(): Promise<void> {
-    const snapshotsPath = path.join(this.dagPath, 'snapshots.json');
-    const snapshotsData = Array.from(this.snapshots.values());
-    await fs.promises.writeFile(snapshotsPath, JSON.stringify(snapshotsData, null, 2));
+    const files: Array<{ fileName: string; data: Uint8Array }> = [];
+    if (this.signingKey) {
+      this.signChanges(this.signingKey);
+      files.push(this.sealMetadataFile('chain.json', this.chain));
+    }
+    this.changed.clear();
+    files.push(this.sealMetadataFile('snapshots.json', Array.from(this.snapshots.values())));
+    await writeJournaled(this.dagPath, files);
+  }
+  
+  // Only snapshots changed through this DAG are signed, so an edit made on
+  // disk is never adopted by a later save
+  private signChanges(key: SigningKey): void {
+    for (const snapshotId of this.changed) {
+      const snapshot = this.snapshots.get(snapshotId);
+      const latest = this.getLatestChainEntry(snapshotId);
+      const recorded = latest !== undefined && latest.operation !== 'delete';
+      
+      if (!snapshot) {
+        if (recorded) {
+          appendChainEntry(this.chain, 'delete', snapshotId, null, key);
+        }
+        continue;
+      }
+      
+      const hash = this.hashSnapshot(snapshot);
+      if (!recorded || latest.snapshotHash !== hash) {
+        const entry = appendChainEntry(this.chain, recorded ? 'update' : 'create', snapshotId, hash, key);
+        snapshot.signature = toSnapshotSignature(entry);
+      }
+    }
+  }
+  
+  private getLatestChainEntry(snapshotId: string): ChainEntry | undefined {
+    for (let i = this.chain.length - 1; i >= 0; i--) {
+      if (this.chain[i].snapshotId === snapshotId) {
+        return this.chain[i];
+      }
+    }
+    return undefined;
+  }
+  
+  // The signature is not part of what it signs
+  private hashSnapshot(snapshot: BackupSnapshot): string {
+    const { signature: _signature, ...content } = snapshot;
+    return computeContentHash(content);
+  }
+  
+  /**
+   * Checks the hash chain and the snapshots as they are on disk now: entry
+   * signatures and links, and that every snapshot matches its latest entry.
+   * Edited, reordered or deleted snapshots and chain entries show up in
+   * `problems`, and each affected snapshot is traced as dag.snapshot.validated.
+   */
+  async verifyChain(options: ChainVerificationOptions = {}): Promise<ChainVerification> {
+    const publicKeys = options.publicKeys ?? (this.signingKey ? [this.signingKey.publicKey] : undefined);
+    if (!publicKeys) {
+      throw new Error('Chain verification requires a public key');
+    }
+    
+    const chain = (this.readMetadataFile('chain.json') ?? []) as ChainEntry[];
+    const snapshots = new Map(((this.readMetadataFile('snapshots.json') ?? []) as BackupSnapshot[]).map(snapshotData => {
+      const snapshot = this.reviveSnapshot(snapshotData);
+      return [snapshot.id, { hash: this.hashSnapshot(snapshot), signature: snapshot.signature }];
+    }));
+    const verification = verifyChainEntries(chain, snapshots, publicKeys, options.expectedHead);
+    
+    const failed = new Set(verification.problems.map(problem => problem.snapshotId).filter((id): id is string => !!id));
+    for (const snapshotId of failed) {
+      this.emitTrace({
+        timestamp: new Date(),
+        eventType: 'dag.snapshot.validated',
+        payload: {
+          snapshotId,
+          operation: 'validate',
+          result: false,
+          timestamp: new Date(),
+          correlationId: snapshotId,
+          sourceAgent: 'RyuMetadataDAG'
+        },
+        metadata: { sourceAgent: 'RyuMetadataDAG' }
+      });
+    }
+    
+    return verification;
+  }
+  
+  private sealMetadataFile(fileName: string, data: unknown): { fileName: string; data: Uint8Array } {
+    const json = Buffer.from(JSON.stringify(data, null, 2));
+    return {
+      fileName,
+      data: this.keyProvider ? encrypt(json, this.keyProvider.getActiveKey(), `metadata/${fileName}`) : json
+    };
+  }
+  
+  private readMetadataFile(fileName: string): unknown {
+    const filePath = path.join(this.dagPath, fileName);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    return JSON.parse(decrypt(fs.readFileSync(filePath), this.keyProvider, `metadata/${fileName}`, this.decryptOptions).toString('utf-8'));
+  }
+  
+  // Must run with the lock held or before anyone else can write
+  private recover(): void {
+    const recovery = recoverJournal(this.dagPath);
+    if (recovery.action === 'replayed') {
+      console.warn(`Replayed interrupted metadata write of ${recovery.files.join(', ')} in ${this.dagPath}`);
+    } else if (recovery.action === 'discarded') {
+      console.warn(`Discarded incomplete metadata journal in ${this.dagPath}`);
+    }
   }
   
   private loadSnapshots(): void {
     const snapshotsPath = path.join(this.dagPath, 'snapshots.json');
     
-    if (fs.existsSync(snapshotsPath)) {
-      try {
-        const snapshotsData = JSON.parse(fs.readFileSync(snapshotsPath, 'utf-8'));
-        this.snapshots.clear();
-        
-        for (const snapshotData of snapshotsData) {
-          const snapshot: BackupSnapshot = {
-            ...snapshotData,
-            timestamp: new Date(snapshotData.timestamp),
-            metadataDAG: {
-              ...snapshotData.metadataDAG,
-              timestamp: new Date(snapshotData.metadataDAG.timestamp)
-            }
-          };
-          this.snapshots.set(snapshot.id, snapshot);
-        }
-      } catch (error) {
-        console.warn('Failed to load snapshots:', error);
-      }
+    if (!fs.existsSync(snapshotsPath)) {
+      this.snapshots.clear();
+      this.chain = [];
+    } else {
+      // Errors propagate: continuing with stale or empty state would let the
+      // next save overwrite the files on disk
+      const snapshotsData = this.readMetadataFile('snapshots.json') as BackupSnapshot[];
+      const chain = (this.readMetadataFile('chain.json') ?? []) as ChainEntry[];
+      const snapshots = new Map(snapshotsData.map(snapshotData => {
+        const snapshot = this.reviveSnapshot(snapshotData);
+        return [snapshot.id, snapshot] as [string, BackupSnapshot];
+      }));
+      
+      this.chain = chain;
+      this.snapshots = snapshots;
     }
   }
   
+  // Dates come back from JSON as ISO strings
+  private reviveSnapshot(snapshotData: BackupSnapshot): BackupSnapshot {
+    return {
+      ...snapshotData,
+      timestamp: new Date(snapshotData.timestamp),
+      metadataDAG: {
+        ...snapshotData.metadataDAG,
+        timestamp: new Date(snapshotData.metadataDAG.timestamp)
+      }
+    };
+  }
+  
   private emitTrace(event: TraceEvent): void {
     console.log(`[RyuMetadataDAG]`, event);
   }
 }
 
 // Backup Manager that orchestrates CAS and Metadata DAG
+async function readStream(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  await pipeline(stream, new Writable({
+    write(chunk: Buffer, _encoding: string, callback): void {
+      parts.push(chunk);
+      callback();
+    }
+  }));
+  return Buffer.concat(parts);
+}
+
+interface VerifiedBundle {
+  snapshot: BackupSnapshot;
+  blobs: Array<{ hash: string; kind: 'json' | 'binary'; data: Buffer }>;
+}
+
+// Collects every problem with a bundle instead of stopping at the first
+function verifySnapshotBundle(bundle: Uint8Array): VerifiedBundle {
+  let files: Map<string, Buffer>;
+  try {
+    files = new Map(readTar(bundle).map(entry => [entry.path, entry.data]));
+  } catch (error) {
+    throw new SnapshotBundleError([(error as Error).message]);
+  }
+  
+  const parse = (entryPath: string): unknown => {
+    const data = files.get(entryPath);
+    if (!data) {
+      throw new SnapshotBundleError([`missing ${entryPath}`]);
+    }
+    try {
+      return JSON.parse(data.toString('utf-8'));
+    } catch (error) {
+      throw new SnapshotBundleError([`${entryPath} is not valid JSON: ${(error as Error).message}`]);
+    }
+  };
+  
+  const manifest = parse('manifest.json') as SnapshotBundleManifest;
+  if (manifest.format !== SNAPSHOT_BUNDLE_FORMAT || manifest.version !== 1) {
+    throw new SnapshotBundleError([`unsupported bundle format: ${manifest.format} v${manifest.version}`]);
+  }
+  
+  const snapshot = parse('snapshot.json') as BackupSnapshot;
+  const problems: string[] = [];
+  if (snapshot.id !== manifest.snapshotId) {
+    problems.push(`snapshot.json holds ${snapshot.id}, manifest names ${manifest.snapshotId}`);
+  }
+  if (computeContentHash(snapshot) !== manifest.snapshotHash) {
+    problems.push('snapshot.json does not match the manifest hash');
+  }
+  if (snapshot.parentId) {
+    problems.push(`snapshot.json depends on parent ${snapshot.parentId}; bundles must be self-contained`);
+  }
+  
+  const blobs: VerifiedBundle['blobs'] = [];
+  for (const entry of manifest.entries) {
+    const data = files.get(entry.path);
+    if (!data) {
+      problems.push(`missing ${entry.path}`);
+      continue;
+    }
+    
+    let actual: string;
+    try {
+      actual = entry.kind === 'json'
+        ? computeContentHash(JSON.parse(data.toString('utf-8')))
+        : crypto.createHash('sha256').update(data).digest('hex');
+    } catch (error) {
+      problems.push(`${entry.path} is unreadable: ${(error as Error).message}`);
+      continue;
+    }
+    
+    if (actual !== entry.hash) {
+      problems.push(`${entry.path} hashes to ${actual}`);
+    } else if (data.length !== entry.size) {
+      problems.push(`${entry.path} is ${data.length} bytes, manifest says ${entry.size}`);
+    } else {
+      blobs.push({ hash: entry.hash, kind: entry.kind, data });
+    }
+  }
+  
+  const listed = new Set(['manifest.json', 'snapshot.json', ...manifest.entries.map(entry => entry.path)]);
+  for (const entryPath of files.keys()) {
+    if (!listed.has(entryPath)) {
+      problems.push(`${entryPath} is not in the manifest`);
+    }
+  }
+  
+  const bundled = new Set(manifest.entries.map(entry => entry.hash));
+  for (const hash of getSnapshotHashes(snapshot)) {
+    if (!bundled.has(hash)) {
+      problems.push(`blob ${hash} referenced by the snapshot is not in the bundle`);
+    }
+  }
+  
+  if (problems.length > 0) {
+    throw new SnapshotBundleError(problems);
+  }
+  return { snapshot, blobs };
+}
+
+type ParticipatingAgent = AgentContract & SnapshotParticipant;
+
+interface CapturedAgentState {
+  agent: ParticipatingAgent;
+  hash: string;
+  snapshotState: AgentSnapshotState;
+  captureTime: number;
+  size: number;
+}
+
 export class AikoRyuBackupManager implements BackupManager {
-  private cas: ContentAddressableStorage;
+  private cas: AikoCAS;
   private dag: RyuMetadataDAG;
+  private participants: Map<string, ParticipatingAgent> = new Map();
+  private replicator?: CASReplicator;
   
-  constructor(storagePath: string = './.backups') {
-    this.cas = new AikoCAS(storagePath);
-    this.dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
-  }
-  
-  async createSnapshot(description: string, tags: string[] = [], immutable: boolean = true): Promise<BackupSnapshot> {
-    // This would be called with actual DAG state from the mesh
-    const mockNodes: Record<string, DAGNode> = {
-      'agent-aiko': {
-        id: 'agent-aiko',
-        hash: await this.cas.store({ role: 'SemanticValidator', status: 'ready' }),
-        deps: [],
-        metadata: {
-          agentRole: 'SemanticValidator',
-          capability: 'validation',
-          inputHashes: [],
-          outputHashes: [],
-          computationTime: 100,
-          memoryUsage: 50,
-          validationResult: { result: true, consensus: true },
-          designIntent: 'Validate semantic consistency',
-          userRequirement: 'Ensure system integrity'
-        },
-        status: 'completed',
-        agentId: 'aiko-1',
-        traceId: `trace-${Date.now()}`
+  constructor(storagePath: string = './.backups', options: BackupManagerOptions = {}) {
+    this.cas = new AikoCAS(storagePath, options);
+    this.dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'), {
+      keyProvider: options.keyProvider,
+      allowPlaintext: options.allowPlaintext,
+      signingKey: options.signingKey
+    });
+    if (options.replication) {
+      this.replicator = new CASReplicator(this.cas, this.dag, options.replication);
+    }
+  }
+  
+  /**
+   * Adds an agent to the set whose state goes into snapshots. Agents that do
+   * not implement SnapshotParticipant are skipped and false is returned.
+   */
+  registerAgent(agent: AgentContract): boolean {
+    if (!isSnapshotParticipant(agent)) {
+      return false;
+    }
+    this.participants.set(agent.id, agent);
+    return true;
+  }
+  
+  // Registers every participating agent (e.g. mesh.getAgents()) and returns their ids
+  registerAgents(agents: AgentContract[]): string[] {
+    return agents.filter(agent => this.registerAgent(agent)).map(agent => agent.id);
+  }
+  
+  unregisterAgent(agentId: string): boolean {
+    return this.participants.delete(agentId);
+  }
+  
+  /**
+   * Captures every registered participant: each agent's state is stored in
+   * CAS and becomes one DAG node, with an edge from each agent it depends on.
+   * With a parentId only the nodes that changed since that snapshot are kept.
+   * Holds the metadata lock throughout, so a collectGarbage in another
+   * process cannot sweep the new blobs before the snapshot references them.
+   */
+  async createSnapshot(
+    description: string,
+    tags: string[] = [],
+    immutable: boolean = true,
+    parentId?: string
+  ): Promise<BackupSnapshot> {
+    const snapshot = await this.dag.withLock(async () => {
+      const captured = new Map<string, CapturedAgentState>();
+    
+      for (const agent of this.participants.values()) {
+        const startedAt = Date.now();
+        const snapshotState = await agent.captureSnapshotState();
+        const captureTime = Date.now() - startedAt;
+        const hash = await this.cas.store(snapshotState.state, { agentId: agent.id, agentRole: agent.role });
+        const size = Buffer.byteLength(canonicalJson(snapshotState.state ?? null));
+        captured.set(agent.id, { agent, hash, snapshotState, captureTime, size });
+      }
+    
+      const nodes: Record<string, DAGNode> = {};
+      const edges: DAGEdge[] = [];
+      const traceId = `trace-${Date.now()}`;
+    
+      for (const { agent, hash, snapshotState, captureTime, size } of captured.values()) {
+        const deps = this.resolveParticipantDependencies(agent, snapshotState.dependencies);
+      
+        nodes[agent.id] = {
+          id: agent.id,
+          hash,
+          deps,
+          metadata: {
+            agentRole: agent.role,
+            capability: snapshotState.capability ?? 'snapshot',
+            inputHashes: deps.map(dep => captured.get(dep)!.hash),
+            outputHashes: [hash],
+            computationTime: captureTime,
+            memoryUsage: size,
+            validationResult: { result: true, consensus: true },
+            designIntent: snapshotState.designIntent ?? `Preserve ${agent.role} state`,
+            userRequirement: snapshotState.userRequirement ?? 'Restore the system to a known good state'
+          },
+          status: 'completed',
+          agentId: agent.id,
+          traceId
+        };
+      
+        for (const dep of deps) {
+          edges.push({ from: dep, to: agent.id, type: 'dependency', metadata: {} });
+        }
       }
+    
+      return await this.dag.createSnapshot(nodes, edges, description, tags, immutable, parentId);
+    });
+    await this.replicator?.replicate({ kind: 'snapshot', snapshotId: snapshot.id });
+    return snapshot;
+  }
+  
+  // Snapshot on top of the most recent one, for cheap periodic backups
+  async createIncrementalSnapshot(description: string, tags: string[] = [], immutable: boolean = true): Promise<BackupSnapshot> {
+    const snapshots = await this.dag.listSnapshots();
+    const latest = snapshots.reverse().sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+    return await this.createSnapshot(description, tags, immutable, latest?.id);
+  }
+  
+  async diffSnapshots(fromId: string, toId: string): Promise<SnapshotDiff> {
+    return await this.dag.diffSnapshots(fromId, toId);
+  }
+  
+  async squashSnapshots(headId: string, baseId?: string): Promise<SquashResult> {
+    let records = new Map<string, string>();
+    const result = await this.dag.withLock(async () => {
+      records = await this.getReplicaRecords();
+      return await this.dag.squashSnapshots(headId, baseId);
+    });
+    await this.replicateDeletes(result.squashed, records);
+    return result;
+  }
+  
+  /**
+   * Packs a snapshot into a self-contained tar bundle: a manifest, the
+   * snapshot with its full DAG (no parent) and every blob it references.
+   * The same snapshot always exports to the same bytes.
+   */
+  async exportSnapshot(snapshotId: string): Promise<Buffer> {
+    const resolved = this.dag.resolveSnapshot(snapshotId);
+    if (!resolved) {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+    
+    const { parentId: _parentId, signature: _signature, ...snapshot } = resolved;
+    const blobEntries: TarEntry[] = [];
+    const manifest: SnapshotBundleManifest = {
+      format: SNAPSHOT_BUNDLE_FORMAT,
+      version: 1,
+      snapshotId,
+      snapshotHash: computeContentHash(snapshot),
+      entries: []
     };
     
-    const mockEdges: DAGEdge[] = [];
+    for (const hash of getSnapshotHashes(snapshot).sort()) {
+      const entry = await this.cas.getEntry(hash);
+      if (!entry) {
+        throw new Error(`Content not found for hash: ${hash}`);
+      }
+      
+      const data = entry.kind === 'json'
+        ? Buffer.from(canonicalJson(await this.cas.retrieve(hash)))
+        : await readStream(await this.cas.retrieveStream(hash));
+      const entryPath = entry.kind === 'json' ? `blobs/${hash}.json` : `streams/${hash}.bin`;
+      
+      blobEntries.push({ path: entryPath, data });
+      manifest.entries.push({ path: entryPath, hash, kind: entry.kind, size: data.length });
+    }
+    
+    return writeTar([
+      { path: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+      { path: 'snapshot.json', data: Buffer.from(JSON.stringify(snapshot, null, 2)) },
+      ...blobEntries
+    ], snapshot.timestamp);
+  }
+  
+  /**
+   * Verifies a bundle from exportSnapshot (manifest, snapshot record and
+   * every blob hash) and only then stores its blobs and adds the snapshot.
+   * Throws SnapshotBundleError, without writing anything, on any mismatch.
+   */
+  async importSnapshot(bundle: Uint8Array): Promise<BackupSnapshot> {
+    const imported = await this.dag.withLock(async () => {
+      const { snapshot, blobs } = verifySnapshotBundle(bundle);
+      if (this.dag.hasSnapshot(snapshot.id)) {
+        throw new Error(`Snapshot already exists: ${snapshot.id}`);
+      }
+    
+      for (const blob of blobs) {
+        const metadata = { importedFrom: snapshot.id };
+        const hash = blob.kind === 'json'
+          ? await this.cas.store(JSON.parse(blob.data.toString('utf-8')), metadata)
+          : await this.cas.storeStream(blob.data, metadata);
+        if (hash !== blob.hash) {
+          throw new CASIntegrityError(blob.hash, hash);
+        }
+      }
     
-    return await this.dag.createSnapshot(mockNodes, mockEdges, description, tags, immutable);
+      return await this.dag.importSnapshot(snapshot);
+    });
+    await this.replicator?.replicate({ kind: 'snapshot', snapshotId: imported.id });
+    return imported;
   }
   
+  /**
+   * Restores the snapshot into the registered agents: each node's state goes
+   * back to the agent with the same id, and lost state is recomputed by that
+   * agent's recomputeSnapshotState. Nodes without a registered agent are
+   * only checked.
+   */
   async restoreSnapshot(snapshotId: string, policy?: RegenerationPolicy): Promise<ValidationResult> {
-    return await this.dag.restoreSnapshot(snapshotId, this.cas, policy);
+    const rehydratedAgents: string[] = [];
+    
+    const restorer: NodeRestorer = {
+      currentHash: async (node: DAGNode): Promise<string | undefined> => {
+        const agent = this.participants.get(node.agentId);
+        return agent ? computeContentHash((await agent.captureSnapshotState()).state ?? null) : undefined;
+      },
+      rehydrate: async (node: DAGNode, content: unknown): Promise<void> => {
+        const agent = this.participants.get(node.agentId);
+        if (!agent) return;
+        await agent.restoreSnapshotState(content);
+        rehydratedAgents.push(agent.id);
+      },
+      recompute: async (node: DAGNode, inputs: unknown[]): Promise<unknown> => {
+        const agent = this.participants.get(node.agentId);
+        if (!agent?.recomputeSnapshotState) {
+          throw new Error(`Agent ${node.agentId} cannot recompute ${node.metadata.capability}`);
+        }
+        return await agent.recomputeSnapshotState(node.metadata.capability, inputs);
+      }
+    };
+    
+    const result = await this.dag.restoreSnapshot(snapshotId, this.cas, policy, restorer);
+    return {
+      ...result,
+      details: { ...result.details, rehydratedAgents: rehydratedAgents.join(',') }
+    };
   }
   
   async listSnapshots(): Promise<BackupSnapshot[]> {
@@ -584,10 +2356,130 @@ export class AikoRyuBackupManager implements BackupManager {
   }
   
   async deleteSnapshot(snapshotId: string): Promise<boolean> {
-    return await this.dag.deleteSnapshot(snapshotId);
+    let records = new Map<string, string>();
+    const deleted = await this.dag.withLock(async () => {
+      records = await this.getReplicaRecords();
+      return await this.dag.deleteSnapshot(snapshotId);
+    });
+    await this.replicateDeletes(deleted ? [snapshotId] : [], records);
+    return deleted;
   }
   
   async garbageCollect(policy?: RegenerationPolicy): Promise<string[]> {
-    return await this.dag.garbageCollect(policy);
+    return (await this.collectGarbage({ policy })).snapshotsDeleted;
+  }
+  
+  /**
+   * Mark and sweep: drop expired snapshots, mark every hash the surviving
+   * snapshots reach, then delete all other blobs and chunks. Holds the
+   * metadata lock, so no snapshot is recorded between mark and sweep.
+   * Replica targets drop the same snapshots and blobs.
+   */
+  async collectGarbage(options: GarbageCollectionOptions = {}): Promise<GarbageCollectionReport> {
+    let records = new Map<string, string>();
+    const report = await this.dag.withLock(async () => {
+      const dryRun = options.dryRun ?? false;
+      records = await this.getReplicaRecords();
+      const snapshotsDeleted = await this.dag.garbageCollect(options.policy, dryRun);
+    
+      const surviving = (await this.dag.listSnapshots()).filter(snapshot => !snapshotsDeleted.includes(snapshot.id));
+      const reachable = new Set(surviving.flatMap(snapshot => getSnapshotHashes(this.dag.resolveSnapshot(snapshot.id)!)));
+      const sweep = await this.cas.sweep(reachable, { dryRun, minAgeMs: options.minBlobAgeMs });
+    
+      return {
+        dryRun,
+        snapshotsDeleted,
+        snapshotsKept: surviving.length,
+        reachableHashes: reachable.size,
+        blobsDeleted: sweep.deletedHashes,
+        chunksDeleted: sweep.deletedChunks.length,
+        bytesReclaimed: sweep.bytesReclaimed
+      };
+    });
+    if (!report.dryRun) {
+      await this.replicateDeletes(report.snapshotsDeleted, records, report.blobsDeleted);
+    }
+    return report;
+  }
+  
+  // Preview of which snapshots collectGarbage would delete under the policy
+  planRetention(policy?: RegenerationPolicy): RetentionPlan {
+    return this.dag.planRetention(policy);
+  }
+  
+  async fsck(): Promise<FsckReport> {
+    const snapshots = await this.dag.listSnapshots();
+    return await this.cas.fsck(snapshots.map(snapshot => this.dag.resolveSnapshot(snapshot.id)!));
+  }
+  
+  async verifyChain(options?: ChainVerificationOptions): Promise<ChainVerification> {
+    return await this.dag.verifyChain(options);
+  }
+  
+  // Re-encrypts blobs and snapshot metadata under the key provider's active key
+  async rotateEncryptionKey(): Promise<KeyRotationReport> {
+    const report = await this.cas.rotateKey();
+    report.reencrypted += await this.dag.rotateKey();
+    return report;
+  }
+  
+  /**
+   * Copies hashes missing on either side between this store and its replica
+   * targets (see CASReplicator.sync). Snapshots found only on a target are
+   * imported here.
+   */
+  async sync(direction: SyncDirection = 'both'): Promise<SyncReport> {
+    return await this.getReplicator().sync(direction);
+  }
+  
+  // Compares every replica target with this store
+  async verifyReplication(): Promise<ReplicationReport> {
+    return await this.getReplicator().verify();
+  }
+  
+  // Waits for the asynchronous replication queue to empty
+  async flushReplication(): Promise<void> {
+    await this.getReplicator().flush();
+  }
+  
+  private getReplicator(): CASReplicator {
+    if (!this.replicator) {
+      throw new Error('Replication is not configured');
+    }
+    return this.replicator;
+  }
+  
+  // Record addresses on the replicas, looked up before snapshots are deleted
+  private async getReplicaRecords(): Promise<Map<string, string>> {
+    const records = new Map<string, string>();
+    if (this.replicator) {
+      for (const snapshot of await this.dag.listSnapshots()) {
+        records.set(snapshot.id, this.replicator.getRecordHash(snapshot.id)!);
+      }
+    }
+    return records;
+  }
+  
+  private async replicateDeletes(snapshotIds: string[], records: Map<string, string>, blobs: string[] = []): Promise<void> {
+    const hashes = [...snapshotIds.map(snapshotId => records.get(snapshotId)).filter((hash): hash is string => !!hash), ...blobs];
+    if (this.replicator && hashes.length > 0) {
+      await this.replicator.replicate({ kind: 'delete', hashes });
+    }
+  }
+  
+  // Dependencies may name an agent by id, role or class name, as in AgentMesh
+  private resolveParticipantDependencies(agent: ParticipatingAgent, dependencies: string[]): string[] {
+    const resolved: string[] = [];
+    
+    for (const dependency of dependencies) {
+      const match = this.participants.get(dependency) ?? Array.from(this.participants.values()).find(candidate =>
+        candidate.role === dependency || candidate.constructor.name === dependency
+      );
+      if (match && match.id !== agent.id && !resolved.includes(match.id)) {
+        resolved.push(match.id);
+      }
+    }
+    
+    return resolved;
   }
-} 
\ No newline at end of file
+}
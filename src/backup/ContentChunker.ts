@@ -0,0 +1,91 @@
+// src/backup/ContentChunker.ts
+// Content-defined chunking with a Gear rolling hash (as in FastCDC). Chunk
+// boundaries depend only on nearby bytes, so an edit in the middle of a large
+// payload changes the chunks around it and leaves the rest shareable.
+
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+
+export interface ChunkingOptions {
+  minSize: number;
+  // Expected chunk size; must be a power of two
+  avgSize: number;
+  maxSize: number;
+}
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  minSize: 2 * 1024,
+  avgSize: 8 * 1024,
+  maxSize: 64 * 1024
+};
+
+// Fixed pseudo-random table so boundaries are stable across processes and releases
+const GEAR: Uint32Array = ((): Uint32Array => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < table.length; i++) {
+    table[i] = crypto.createHash('sha256').update(`aikoryu-gear-${i}`).digest().readUInt32BE(0);
+  }
+  return table;
+})();
+
+export class ContentChunker {
+  private readonly options: ChunkingOptions;
+  private readonly mask: number;
+  private pending: Buffer = Buffer.alloc(0);
+  private hash = 0;
+
+  constructor(options: Partial<ChunkingOptions> = {}) {
+    this.options = { ...DEFAULT_CHUNKING, ...options };
+    const { minSize, avgSize, maxSize } = this.options;
+
+    if ((avgSize & (avgSize - 1)) !== 0 || avgSize < 64) {
+      throw new Error(`Chunk avgSize must be a power of two of at least 64, got ${avgSize}`);
+    }
+    if (!(minSize > 0 && minSize < avgSize && avgSize < maxSize)) {
+      throw new Error(`Chunk sizes must satisfy 0 < minSize < avgSize < maxSize, got ${minSize}/${avgSize}/${maxSize}`);
+    }
+
+    // Test the high bits: with a shift-left hash they depend on the last 32
+    // bytes, while the low bits only see the last few
+    const bits = Math.log2(avgSize);
+    this.mask = ((avgSize - 1) << (32 - bits)) >>> 0;
+  }
+
+  /**
+   * Feeds more bytes and returns the chunks completed by them. The tail is
+   * kept until a boundary or flush().
+   */
+  push(data: Uint8Array): Buffer[] {
+    const scanFrom = this.pending.length;
+    const buffer = scanFrom > 0 ? Buffer.concat([this.pending, data]) : Buffer.from(data);
+    const { minSize, maxSize } = this.options;
+    const chunks: Buffer[] = [];
+    let start = 0;
+
+    for (let i = scanFrom; i < buffer.length; i++) {
+      this.hash = ((this.hash << 1) + GEAR[buffer[i]]) >>> 0;
+      const length = i - start + 1;
+
+      if ((length >= minSize && (this.hash & this.mask) === 0) || length >= maxSize) {
+        chunks.push(buffer.subarray(start, i + 1));
+        start = i + 1;
+        this.hash = 0;
+      }
+    }
+
+    this.pending = buffer.subarray(start);
+    return chunks;
+  }
+
+  flush(): Buffer[] {
+    const tail = this.pending;
+    this.pending = Buffer.alloc(0);
+    this.hash = 0;
+    return tail.length > 0 ? [tail] : [];
+  }
+}
+
+export function chunkContent(data: Uint8Array, options?: Partial<ChunkingOptions>): Buffer[] {
+  const chunker = new ContentChunker(options);
+  return [...chunker.push(data), ...chunker.flush()];
+}
@@ -0,0 +1,293 @@
+// src/backup/Encryption.ts
+// AES-256-GCM encryption at rest for backup files. Content is hashed before
+// it is encrypted, so CAS addresses, deduplication and DAG references are the
+// same whether or not a store is encrypted.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { Buffer } from 'buffer';
+import { PassThrough, Readable, Transform } from 'stream';
+
+export interface EncryptionKey {
+  // First 16 hex characters of the key's sha256, recorded in every file it encrypts
+  id: string;
+  key: Buffer;
+}
+
+export interface KeyProvider {
+  // Key new files are encrypted with
+  getActiveKey(): EncryptionKey;
+  // Any key still needed to read files written before a rotation
+  getKey(id: string): EncryptionKey | undefined;
+}
+
+export const ENCRYPTION_KEYS_VARIABLE = 'AIKORYU_ENCRYPTION_KEYS';
+
+/**
+ * Encrypted file layout:
+ *   magic (8) | key id length (1) | key id | iv (12) | ciphertext | auth tag (16)
+ * The tag comes last so large streams can be encrypted as they are written.
+ * JSON files never start with the magic; raw bytes practically never do.
+ */
+const MAGIC = Buffer.from('AIKOENC\u0001', 'latin1');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export interface DecryptOptions {
+  // Reads plaintext files even though a key provider is configured, while an
+  // existing store is being encrypted. Without a provider plaintext is
+  // always read.
+  allowPlaintext?: boolean;
+}
+
+export class DecryptionError extends Error {
+  constructor(readonly context: string, reason: string) {
+    super(`Cannot decrypt ${context}: ${reason}`);
+    this.name = 'DecryptionError';
+  }
+}
+
+// Accepts 32 raw bytes, or 64 hex / 44 base64 characters
+export function createEncryptionKey(material: Uint8Array | string): EncryptionKey {
+  const key = typeof material === 'string'
+    ? Buffer.from(material.trim(), /^[0-9a-f]{64}$/i.test(material.trim()) ? 'hex' : 'base64')
+    : Buffer.from(material);
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Encryption keys must be ${KEY_LENGTH} bytes, got ${key.length}`);
+  }
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 16), key };
+}
+
+// Keys in order of preference: the first encrypts, all of them decrypt
+class KeyRing implements KeyProvider {
+  private keys: EncryptionKey[] = [];
+
+  getActiveKey(): EncryptionKey {
+    return this.keys[0];
+  }
+
+  getKey(id: string): EncryptionKey | undefined {
+    return this.keys.find(key => key.id === id);
+  }
+
+  protected setKeys(materials: Array<Uint8Array | string>, source: string): void {
+    if (materials.length === 0) {
+      throw new Error(`No encryption keys in ${source}`);
+    }
+    this.keys = materials.map(createEncryptionKey);
+  }
+}
+
+// Rotating adds a new active key and keeps the previous ones for reading
+export class MemoryKeyProvider extends KeyRing {
+  private materials: Array<Uint8Array | string>;
+
+  constructor(activeKey: Uint8Array | string, retiredKeys: Array<Uint8Array | string> = []) {
+    super();
+    this.materials = [activeKey, ...retiredKeys];
+    this.setKeys(this.materials, 'memory');
+  }
+
+  rotate(newKey: Uint8Array | string): EncryptionKey {
+    this.materials = [newKey, ...this.materials];
+    this.setKeys(this.materials, 'memory');
+    return this.getActiveKey();
+  }
+}
+
+// Comma-separated keys, active key first, e.g. AIKORYU_ENCRYPTION_KEYS=<new>,<old>
+export class EnvKeyProvider extends KeyRing {
+  constructor(variable: string = ENCRYPTION_KEYS_VARIABLE, env: Record<string, string | undefined> = process.env) {
+    super();
+    const value = env[variable] ?? '';
+    this.setKeys(value.split(',').map(key => key.trim()).filter(Boolean), `$${variable}`);
+  }
+}
+
+// One key per line, active key first; blank lines and # comments are ignored
+export class FileKeyProvider extends KeyRing {
+  constructor(private readonly filePath: string) {
+    super();
+    this.reload();
+  }
+
+  // Picks up keys added to the file since construction, e.g. before a rotation
+  reload(): void {
+    const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'));
+    this.setKeys(lines, this.filePath);
+  }
+}
+
+export function isEncrypted(data: Uint8Array): boolean {
+  return data.length >= MAGIC.length && MAGIC.equals(Buffer.from(data.buffer, data.byteOffset, MAGIC.length));
+}
+
+// Key id of an encrypted file's header, or undefined for plaintext
+export function getKeyId(data: Uint8Array): string | undefined {
+  if (!isEncrypted(data)) {
+    return undefined;
+  }
+  const length = data[MAGIC.length];
+  return Buffer.from(data.buffer, data.byteOffset + MAGIC.length + 1, length).toString('utf-8');
+}
+
+// Reads just enough of a file to tell which key encrypted it
+export async function readKeyId(filePath: string): Promise<string | undefined> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(MAGIC.length + 1 + 255);
+    const { bytesRead } = await handle.read(head, 0, head.length, 0);
+    return getKeyId(head.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * `context` is authenticated but not stored: decrypting with a different
+ * context fails, so an encrypted file cannot be swapped for another one.
+ */
+export function encrypt(plaintext: Uint8Array, key: EncryptionKey, context: string): Buffer {
+  const { header, cipher } = createCipher(key, context);
+  return Buffer.concat([header, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Plaintext passes through unchanged only without a key provider or with
+ * allowPlaintext; otherwise a plaintext file put in place of an encrypted one
+ * would be read without any check.
+ */
+export function decrypt(data: Uint8Array, keys: KeyProvider | undefined, context: string, options: DecryptOptions = {}): Buffer {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (!isEncrypted(buffer)) {
+    checkPlaintextAllowed(keys, context, options);
+    return buffer;
+  }
+
+  const header = parseHeader(buffer, keys, context);
+  if (buffer.length < header.length + TAG_LENGTH) {
+    throw new DecryptionError(context, 'file is truncated');
+  }
+  const decipher = createDecipher(header, context);
+  decipher.setAuthTag(buffer.subarray(buffer.length - TAG_LENGTH));
+  try {
+    return Buffer.concat([decipher.update(buffer.subarray(header.length, buffer.length - TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new DecryptionError(context, 'authentication failed');
+  }
+}
+
+// Emits the header first and the auth tag when the input ends
+export function createEncryptStream(key: EncryptionKey, context: string): Transform {
+  const { header, cipher } = createCipher(key, context);
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding: string, callback): void {
+      callback(null, cipher.update(chunk));
+    },
+    flush(callback): void {
+      callback(null, Buffer.concat([cipher.final(), cipher.getAuthTag()]));
+    }
+  });
+  stream.push(header);
+  return stream;
+}
+
+/**
+ * Streams a file's plaintext. The tag is read up front, but GCM can only
+ * check it once every byte has been decrypted, so tampering surfaces as an
+ * error at the end of the stream (as hash verification on read already does).
+ */
+export function createDecryptStream(
+  filePath: string,
+  keys: KeyProvider | undefined,
+  context: string,
+  options: DecryptOptions = {}
+): Readable {
+  const output = new PassThrough();
+
+  const open = async (): Promise<void> => {
+    const handle = await fs.promises.open(filePath, 'r');
+    const tag = Buffer.alloc(TAG_LENGTH);
+    let head: Buffer;
+    let size: number;
+    try {
+      size = (await handle.stat()).size;
+      head = Buffer.alloc(Math.min(size, MAGIC.length + 1 + 255 + IV_LENGTH));
+      await handle.read(head, 0, head.length, 0);
+      if (size >= TAG_LENGTH) {
+        await handle.read(tag, 0, TAG_LENGTH, size - TAG_LENGTH);
+      }
+    } finally {
+      await handle.close();
+    }
+
+    if (!isEncrypted(head)) {
+      checkPlaintextAllowed(keys, context, options);
+      fs.createReadStream(filePath).on('error', error => output.destroy(error)).pipe(output);
+      return;
+    }
+
+    const header = parseHeader(head, keys, context);
+    if (size < header.length + TAG_LENGTH) {
+      throw new DecryptionError(context, 'file is truncated');
+    }
+    const decipher = createDecipher(header, context);
+    decipher.setAuthTag(tag);
+    decipher.on('error', () => output.destroy(new DecryptionError(context, 'authentication failed')));
+    const ciphertext = size - TAG_LENGTH > header.length
+      ? fs.createReadStream(filePath, { start: header.length, end: size - TAG_LENGTH - 1 })
+      : Readable.from([]);
+    ciphertext.on('error', (error: Error) => output.destroy(error)).pipe(decipher).pipe(output);
+  };
+
+  open().catch(error => output.destroy(error));
+  return output;
+}
+
+function checkPlaintextAllowed(keys: KeyProvider | undefined, context: string, options: DecryptOptions): void {
+  if (keys && !options.allowPlaintext) {
+    throw new DecryptionError(context, 'file is not encrypted but a key provider is configured');
+  }
+}
+
+function createCipher(key: EncryptionKey, context: string): { header: Buffer; cipher: crypto.CipherGCM } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key.key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const keyId = Buffer.from(key.id);
+  return { header: Buffer.concat([MAGIC, Buffer.from([keyId.length]), keyId, iv]), cipher };
+}
+
+interface EnvelopeHeader {
+  key: EncryptionKey;
+  iv: Buffer;
+  // Bytes before the ciphertext
+  length: number;
+}
+
+function parseHeader(data: Buffer, keys: KeyProvider | undefined, context: string): EnvelopeHeader {
+  const keyIdLength = data[MAGIC.length];
+  const ivStart = MAGIC.length + 1 + keyIdLength;
+  if (data.length < ivStart + IV_LENGTH) {
+    throw new DecryptionError(context, 'file is truncated');
+  }
+
+  const keyId = data.subarray(MAGIC.length + 1, ivStart).toString('utf-8');
+  if (!keys) {
+    throw new DecryptionError(context, `encrypted with key ${keyId} but no key provider is configured`);
+  }
+  const key = keys.getKey(keyId);
+  if (!key) {
+    throw new DecryptionError(context, `key ${keyId} is not available`);
+  }
+  return { key, iv: data.subarray(ivStart, ivStart + IV_LENGTH), length: ivStart + IV_LENGTH };
+}
+
+function createDecipher(header: EnvelopeHeader, context: string): crypto.DecipherGCM {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', header.key.key, header.iv);
+  decipher.setAAD(Buffer.from(context));
+  return decipher;
+}
@@ -0,0 +1,149 @@
+// src/backup/FileLock.ts
+// Advisory cross-process lock backed by a lock file created with O_EXCL.
+// Every process (and every FileLock instance) sharing the lock path is
+// serialised; calls nested inside withLock do not lock again.
+
+import fs from 'fs';
+import os from 'os';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface FileLockOptions {
+  // How long withLock waits for the lock before giving up
+  timeoutMs?: number;
+  // Locks held from another host are broken after this long; on this host a
+  // lock is broken as soon as its process is gone
+  staleMs?: number;
+  retryMs?: number;
+}
+
+export interface LockHolder {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+export class LockTimeoutError extends Error {
+  constructor(readonly lockPath: string, readonly holder?: LockHolder) {
+    super(`Timed out waiting for lock ${lockPath}${holder ? ` held by pid ${holder.pid} on ${holder.hostname} since ${holder.acquiredAt}` : ''}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+export class FileLock {
+  private timeoutMs: number;
+  private staleMs: number;
+  private retryMs: number;
+  private context = new AsyncLocalStorage<true>();
+
+  constructor(readonly lockPath: string, options: FileLockOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.staleMs = options.staleMs ?? 30000;
+    this.retryMs = options.retryMs ?? 10;
+  }
+
+  // True inside a withLock callback of this instance
+  get held(): boolean {
+    return this.context.getStore() === true;
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.held) {
+      return await fn();
+    }
+
+    const deadline = Date.now() + this.timeoutMs;
+    while (!this.tryAcquire()) {
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.lockPath, this.readHolder());
+      }
+      // Jitter keeps waiting processes from retrying in lockstep
+      await new Promise(resolve => setTimeout(resolve, this.retryMs + Math.random() * this.retryMs));
+    }
+
+    try {
+      return await this.context.run(true, fn);
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Takes the lock without waiting. Synchronous so constructors can use it;
+   * pair it with release().
+   */
+  tryAcquire(): boolean {
+    // A second attempt follows breaking a stale lock
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const fd = fs.openSync(this.lockPath, 'wx');
+        const holder: LockHolder = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+        fs.writeSync(fd, JSON.stringify(holder));
+        fs.closeSync(fd);
+        return true;
+      } catch (error) {
+        if (errorCode(error) !== 'EEXIST') {
+          throw error;
+        }
+        if (!this.breakIfStale()) {
+          return false;
+        }
+      }
+    }
+    return false;
+  }
+
+  release(): void {
+    fs.rmSync(this.lockPath, { force: true });
+  }
+
+  private readHolder(): LockHolder | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.lockPath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Removes a lock whose holder is gone; true if it did
+  private breakIfStale(): boolean {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.lockPath);
+    } catch {
+      // Released in the meantime
+      return true;
+    }
+
+    const holder = this.readHolder();
+    const age = Date.now() - stat.mtimeMs;
+    // A holder that has not written its details yet is only stale by age
+    const stale = holder && holder.hostname === os.hostname()
+      ? !isProcessAlive(holder.pid)
+      : age > this.staleMs;
+    if (!stale) {
+      return false;
+    }
+
+    // Re-check right before removing, so a lock taken over in the meantime survives
+    const current = this.readHolder();
+    if (current?.acquiredAt !== holder?.acquiredAt || current?.pid !== holder?.pid) {
+      return false;
+    }
+    fs.rmSync(this.lockPath, { force: true });
+    return true;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return errorCode(error) === 'EPERM';
+  }
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as { code?: string }).code;
+}
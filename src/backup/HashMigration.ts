@@ -0,0 +1,76 @@
+// src/backup/HashMigration.ts
+// Moves an AikoCAS store written before canonical JSON hashing onto canonical
+// addresses, rewriting DAGNode and BackupSnapshot references to match
+
+import path from 'path';
+import { AikoCAS, RyuMetadataDAG, computeContentHash } from './ContentAddressableStorage';
+
+export interface HashMigrationOptions {
+  // Report what would change without writing anything
+  dryRun?: boolean;
+}
+
+export interface HashMigrationReport {
+  storagePath: string;
+  dryRun: boolean;
+  scanned: number;
+  unchanged: number;
+  // Old address -> canonical address
+  rehashed: Record<string, string>;
+  // Objects whose canonical address was already taken by equal content
+  merged: number;
+  snapshotsUpdated: string[];
+}
+
+/**
+ * New blobs are written first, then snapshots are rewritten, and only then
+ * are the old blobs deleted, so an interrupted run never leaves a snapshot
+ * pointing at a missing address. Running it again finishes the job.
+ * Binary stream content is addressed by its bytes and is left untouched.
+ */
+export async function migrateToCanonicalHashes(
+  storagePath: string = './.backups',
+  options: HashMigrationOptions = {}
+): Promise<HashMigrationReport> {
+  const dryRun = options.dryRun ?? false;
+  // Legacy blobs never match their canonical address, so reads must not verify
+  const cas = new AikoCAS(storagePath, { verifyOnRead: 'off' });
+  const dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+
+  const entries = (await cas.listEntries()).filter(entry => entry.kind === 'json');
+  const occupied = new Set(entries.map(entry => entry.hash));
+  const mapping = new Map<string, string>();
+  let merged = 0;
+
+  for (const entry of entries) {
+    const newHash = dryRun
+      ? computeContentHash(await cas.retrieve(entry.hash))
+      : await cas.rehash(entry.hash);
+
+    if (newHash !== entry.hash) {
+      mapping.set(entry.hash, newHash);
+      if (occupied.has(newHash)) {
+        merged++;
+      }
+      occupied.add(newHash);
+    }
+  }
+
+  const snapshotsUpdated = await dag.rewriteHashes(mapping, dryRun);
+
+  if (!dryRun) {
+    for (const oldHash of mapping.keys()) {
+      await cas.delete(oldHash);
+    }
+  }
+
+  return {
+    storagePath,
+    dryRun,
+    scanned: entries.length,
+    unchanged: entries.length - mapping.size,
+    rehashed: Object.fromEntries(mapping),
+    merged,
+    snapshotsUpdated
+  };
+}
@@ -0,0 +1,132 @@
+// src/backup/MemoryCAS.ts
+// In-memory ContentAddressableStorage, used in tests and as the cache tier of
+// TieredCAS. Content is kept serialised so callers never share references.
+
+import { TraceEvent } from '../agents/AgentContract';
+import { ContentAddressableStorage, computeContentHash } from './ContentAddressableStorage';
+
+export interface MemoryCASOptions {
+  // Least recently used blobs are evicted beyond this many entries
+  maxEntries?: number;
+}
+
+interface MemoryBlob {
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export class MemoryCAS implements ContentAddressableStorage {
+  private blobs: Map<string, MemoryBlob> = new Map();
+  private maxEntries: number;
+
+  constructor(options: MemoryCASOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  async store(content: unknown, metadata?: Record<string, unknown>): Promise<string> {
+    const contentStr = JSON.stringify(content);
+    const hash = computeContentHash(content);
+
+    this.blobs.delete(hash);
+    this.blobs.set(hash, {
+      content: contentStr,
+      metadata: {
+        ...metadata,
+        storedAt: new Date().toISOString(),
+        hash,
+        size: contentStr.length
+      }
+    });
+    this.evict();
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.stored',
+      payload: {
+        hash,
+        size: contentStr.length,
+        operation: 'store',
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'MemoryCAS'
+      },
+      metadata: { sourceAgent: 'MemoryCAS' }
+    });
+
+    return hash;
+  }
+
+  async retrieve(hash: string): Promise<unknown> {
+    const blob = this.blobs.get(hash);
+    if (!blob) {
+      throw new Error(`Content not found for hash: ${hash}`);
+    }
+
+    // Refresh recency for LRU eviction
+    this.blobs.delete(hash);
+    this.blobs.set(hash, blob);
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.retrieved',
+      payload: {
+        hash,
+        operation: 'retrieve',
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'MemoryCAS'
+      },
+      metadata: { sourceAgent: 'MemoryCAS' }
+    });
+
+    return JSON.parse(blob.content);
+  }
+
+  exists(hash: string): boolean {
+    return this.blobs.has(hash);
+  }
+
+  async delete(hash: string): Promise<boolean> {
+    if (!this.blobs.delete(hash)) {
+      return false;
+    }
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.deleted',
+      payload: {
+        hash,
+        operation: 'delete',
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'MemoryCAS'
+      },
+      metadata: { sourceAgent: 'MemoryCAS' }
+    });
+
+    return true;
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.blobs.keys());
+  }
+
+  get size(): number {
+    return this.blobs.size;
+  }
+
+  clear(): void {
+    this.blobs.clear();
+  }
+
+  private evict(): void {
+    while (this.blobs.size > this.maxEntries) {
+      const oldest = this.blobs.keys().next().value as string;
+      this.blobs.delete(oldest);
+    }
+  }
+
+  private emitTrace(event: TraceEvent): void {
+    console.log(`[MemoryCAS]`, event);
+  }
+}
@@ -0,0 +1,126 @@
+// src/backup/MetadataJournal.ts
+// Write-ahead journal for metadata files that must change together
+// (snapshots.json and chain.json). The new contents are made durable in
+// journal.json before any file is replaced, so a crash at any point leaves
+// either the old files or a journal that recovery can replay.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { canonicalJson } from './CanonicalJson';
+
+export const JOURNAL_FILE = 'journal.json';
+
+export interface MetadataJournal {
+  version: 1;
+  // File contents as written to disk, base64-encoded
+  entries: Array<{ fileName: string; data: string }>;
+  // sha256 of the canonical entries; a journal that does not match is torn
+  checksum: string;
+}
+
+export interface JournalRecovery {
+  action: 'none' | 'replayed' | 'discarded';
+  files: string[];
+  // Temp files of interrupted writes
+  tempFilesRemoved: number;
+}
+
+export function createJournal(files: Array<{ fileName: string; data: Uint8Array }>): MetadataJournal {
+  const entries = files.map(file => ({ fileName: file.fileName, data: Buffer.from(file.data).toString('base64') }));
+  return { version: 1, entries, checksum: checksumOf(entries) };
+}
+
+/**
+ * Replaces every file in `dir` atomically as a group. Callers must hold the
+ * directory's lock, since the journal is shared.
+ */
+export async function writeJournaled(dir: string, files: Array<{ fileName: string; data: Uint8Array }>): Promise<void> {
+  const journal = createJournal(files);
+  await writeFileAtomic(path.join(dir, JOURNAL_FILE), JSON.stringify(journal));
+  for (const file of files) {
+    await writeFileAtomic(path.join(dir, file.fileName), file.data);
+  }
+  await fs.promises.rm(path.join(dir, JOURNAL_FILE), { force: true });
+}
+
+/**
+ * Finishes or abandons a write interrupted by a crash: a complete journal is
+ * replayed, a torn or unreadable one is discarded (its files were never
+ * touched), and leftover temp files are removed. Synchronous so it can run
+ * while a store is opened; callers must hold the directory's lock.
+ */
+export function recoverJournal(dir: string): JournalRecovery {
+  const recovery: JournalRecovery = { action: 'none', files: [], tempFilesRemoved: 0 };
+  if (!fs.existsSync(dir)) {
+    return recovery;
+  }
+
+  for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.tmp'))) {
+    fs.rmSync(path.join(dir, file), { force: true });
+    recovery.tempFilesRemoved++;
+  }
+
+  const journalPath = path.join(dir, JOURNAL_FILE);
+  if (!fs.existsSync(journalPath)) {
+    return recovery;
+  }
+
+  const journal = readJournal(journalPath);
+  if (journal) {
+    for (const entry of journal.entries) {
+      writeFileAtomicSync(path.join(dir, entry.fileName), Buffer.from(entry.data, 'base64'));
+      recovery.files.push(entry.fileName);
+    }
+  }
+  recovery.action = journal ? 'replayed' : 'discarded';
+  fs.rmSync(journalPath, { force: true });
+  return recovery;
+}
+
+// Temp file, fsync, rename: readers see the old or the new file, never a mix
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  const tempPath = getTempPath(filePath);
+  const handle = await fs.promises.open(tempPath, 'w');
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rename(tempPath, filePath);
+}
+
+export function writeFileAtomicSync(filePath: string, data: string | Uint8Array): void {
+  const tempPath = getTempPath(filePath);
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeFileSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+}
+
+function readJournal(journalPath: string): MetadataJournal | undefined {
+  try {
+    const journal = JSON.parse(fs.readFileSync(journalPath, 'utf-8')) as MetadataJournal;
+    const valid = journal.version === 1
+      && Array.isArray(journal.entries)
+      && journal.entries.every(entry => typeof entry.fileName === 'string' && !entry.fileName.includes('/') && typeof entry.data === 'string')
+      && journal.checksum === checksumOf(journal.entries);
+    return valid ? journal : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function checksumOf(entries: MetadataJournal['entries']): string {
+  return crypto.createHash('sha256').update(canonicalJson(entries)).digest('hex');
+}
+
+function getTempPath(filePath: string): string {
+  return path.join(path.dirname(filePath), `.${process.pid}-${crypto.randomBytes(8).toString('hex')}.tmp`);
+}
@@ -0,0 +1,482 @@
+// src/backup/Replication.ts
+// Mirrors a backup store's blobs and snapshot records to secondary
+// ContentAddressableStorage targets (another directory, a mounted disk),
+// either within each write or from a background queue, and reconciles and
+// verifies the targets on demand.
+
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { TraceEvent } from '../agents/AgentContract';
+import {
+  AikoCAS,
+  BackupSnapshot,
+  CASIntegrityError,
+  ContentAddressableStorage,
+  RyuMetadataDAG,
+  StreamingContentStorage,
+  computeContentHash,
+  getSnapshotHashes
+} from './ContentAddressableStorage';
+
+export const REPLICA_SNAPSHOT_FORMAT = 'aikoryu-replica-snapshot';
+
+// Binary content can only go to targets that also implement streaming
+export type ReplicaStorage = ContentAddressableStorage & Partial<StreamingContentStorage>;
+
+export interface ReplicaTarget {
+  // Identifies the target in reports and traces
+  name: string;
+  cas: ReplicaStorage;
+}
+
+export type ReplicationMode = 'sync' | 'async';
+
+export interface ReplicationOptions {
+  targets: ReplicaTarget[];
+  // 'sync' writes every change to every target before the manager call
+  // returns, recording failures instead of throwing; 'async' queues it and
+  // returns at once
+  mode?: ReplicationMode;
+  // Attempts per target before a queued change is given up on
+  maxAttempts?: number;
+  retryDelayMs?: number;
+}
+
+/**
+ * A snapshot as stored on a target: its full DAG without parent or
+ * signature, like snapshot.json in a bundle, so every record stands alone.
+ * Records are ordinary blobs, addressed by their content.
+ */
+export interface ReplicaSnapshotRecord {
+  format: typeof REPLICA_SNAPSHOT_FORMAT;
+  version: 1;
+  snapshot: BackupSnapshot;
+}
+
+export type ReplicationChange =
+  | { kind: 'snapshot'; snapshotId: string }
+  // Snapshot records and blobs the primary no longer has
+  | { kind: 'delete'; hashes: string[] };
+
+export interface ReplicationFailure {
+  target: string;
+  change: ReplicationChange;
+  attempts: number;
+  error: string;
+}
+
+export type SyncDirection = 'push' | 'pull' | 'both';
+
+export interface ReplicaSyncResult {
+  target: string;
+  // Blob hashes copied to and from the target
+  pushed: string[];
+  pulled: string[];
+  snapshotsPushed: string[];
+  snapshotsPulled: string[];
+  // Snapshots on the target whose blobs neither side has; not imported
+  snapshotsSkipped: string[];
+}
+
+export interface SyncReport {
+  direction: SyncDirection;
+  targets: ReplicaSyncResult[];
+}
+
+export interface ReplicaVerification {
+  target: string;
+  // Hashes the primary's snapshots reach that the target lacks
+  missingBlobs: string[];
+  // Present on the target but unreadable or not matching their address
+  corruptBlobs: string[];
+  missingSnapshots: string[];
+  // Snapshots only the target has
+  extraSnapshots: string[];
+  inSync: boolean;
+}
+
+export interface ReplicationReport {
+  verifiedAt: Date;
+  mode: ReplicationMode;
+  // Queued changes not applied yet
+  pending: number;
+  // Changes a target missed since the last sync(): failed sync-mode writes
+  // and queued changes given up on after maxAttempts
+  failures: ReplicationFailure[];
+  targets: ReplicaVerification[];
+  inSync: boolean;
+}
+
+export function toReplicaRecord(snapshot: BackupSnapshot): ReplicaSnapshotRecord {
+  const { parentId: _parentId, signature: _signature, ...standalone } = snapshot;
+  return { format: REPLICA_SNAPSHOT_FORMAT, version: 1, snapshot: standalone };
+}
+
+export function isReplicaRecord(content: unknown): content is ReplicaSnapshotRecord {
+  return typeof content === 'object' && content !== null
+    && (content as ReplicaSnapshotRecord).format === REPLICA_SNAPSHOT_FORMAT;
+}
+
+export class CASReplicator {
+  readonly mode: ReplicationMode;
+  private targets: ReplicaTarget[];
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private queue: ReplicationChange[] = [];
+  private draining?: Promise<void>;
+  private failures: ReplicationFailure[] = [];
+
+  constructor(private readonly cas: AikoCAS, private readonly dag: RyuMetadataDAG, options: ReplicationOptions) {
+    const names = options.targets.map(target => target.name);
+    if (names.length === 0) {
+      throw new Error('Replication requires at least one target');
+    }
+    if (new Set(names).size !== names.length) {
+      throw new Error(`Replica target names must be unique: ${names.join(', ')}`);
+    }
+    this.targets = options.targets;
+    this.mode = options.mode ?? 'sync';
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 100;
+  }
+
+  // Queued changes not applied yet
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  // Address of the snapshot's record on the targets
+  getRecordHash(snapshotId: string): string | undefined {
+    const snapshot = this.dag.resolveSnapshot(snapshotId);
+    return snapshot ? computeContentHash(toReplicaRecord(snapshot)) : undefined;
+  }
+
+  /**
+   * In sync mode applies the change to every target and returns the targets
+   * that failed; in async mode queues it. The change is already committed on
+   * the primary, so failures do not throw: they are kept for verify() and
+   * sync() repairs the targets. Snapshot changes read the snapshot and its
+   * blobs when applied, so a snapshot deleted in the meantime is skipped.
+   */
+  async replicate(change: ReplicationChange): Promise<ReplicationFailure[]> {
+    if (this.mode === 'async') {
+      this.queue.push(change);
+      this.startDraining();
+      return [];
+    }
+
+    const failures: ReplicationFailure[] = [];
+    for (const target of this.targets) {
+      try {
+        await this.apply(target, change);
+      } catch (error) {
+        failures.push({ target: target.name, change, attempts: 1, error: errorMessage(error) });
+      }
+    }
+    failures.forEach(failure => this.recordFailure(failure));
+    return failures;
+  }
+
+  // Resolves once every queued change has been applied or given up on
+  async flush(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  /**
+   * Copies the hashes one side has and the other lacks: 'push' from the
+   * primary to every target, 'pull' from every target to the primary, and
+   * 'both' pulls from all targets before pushing, so each target also gets
+   * what the others had. Pulled snapshot records become snapshots here.
+   * A complete 'push' or 'both' clears the recorded failures.
+   */
+  async sync(direction: SyncDirection = 'both'): Promise<SyncReport> {
+    await this.flush();
+    const results = this.targets.map((target): ReplicaSyncResult => ({
+      target: target.name, pushed: [], pulled: [], snapshotsPushed: [], snapshotsPulled: [], snapshotsSkipped: []
+    }));
+
+    if (direction !== 'push') {
+      for (const [index, target] of this.targets.entries()) {
+        await this.pull(target, results[index]);
+      }
+    }
+    if (direction !== 'pull') {
+      for (const [index, target] of this.targets.entries()) {
+        await this.push(target, results[index]);
+      }
+      this.failures = [];
+    }
+
+    return { direction, targets: results };
+  }
+
+  /**
+   * Checks every target against the primary's snapshots: each blob they
+   * reach and each snapshot record must be on the target and hash to its
+   * address. Reads everything it checks.
+   */
+  async verify(): Promise<ReplicationReport> {
+    const snapshots = (await this.dag.listSnapshots()).map(snapshot => this.dag.resolveSnapshot(snapshot.id)!);
+    const reachable = Array.from(new Set(snapshots.flatMap(getSnapshotHashes))).sort();
+    const records = new Map(snapshots.map(snapshot => [computeContentHash(toReplicaRecord(snapshot)), snapshot.id]));
+    const targets: ReplicaVerification[] = [];
+
+    for (const target of this.targets) {
+      const verification: ReplicaVerification = {
+        target: target.name, missingBlobs: [], corruptBlobs: [], missingSnapshots: [], extraSnapshots: [], inSync: false
+      };
+
+      for (const hash of reachable) {
+        if (!target.cas.exists(hash)) {
+          verification.missingBlobs.push(hash);
+        } else if (!await this.checkBlob(target, hash)) {
+          verification.corruptBlobs.push(hash);
+        }
+      }
+      for (const [hash, snapshotId] of records) {
+        if (!target.cas.exists(hash)) {
+          verification.missingSnapshots.push(snapshotId);
+        } else if (!await this.checkBlob(target, hash)) {
+          verification.corruptBlobs.push(hash);
+        }
+      }
+      for (const hash of await target.cas.list()) {
+        if (records.has(hash) || this.cas.exists(hash)) {
+          continue;
+        }
+        const content = await target.cas.retrieve(hash).catch(() => undefined);
+        if (isReplicaRecord(content) && !this.dag.hasSnapshot(content.snapshot.id)) {
+          verification.extraSnapshots.push(content.snapshot.id);
+        }
+      }
+
+      verification.inSync = verification.missingBlobs.length === 0 && verification.corruptBlobs.length === 0
+        && verification.missingSnapshots.length === 0 && verification.extraSnapshots.length === 0;
+      targets.push(verification);
+    }
+
+    return {
+      verifiedAt: new Date(),
+      mode: this.mode,
+      pending: this.pending,
+      failures: this.failures.slice(),
+      targets,
+      inSync: this.pending === 0 && this.failures.length === 0 && targets.every(target => target.inSync)
+    };
+  }
+
+  private startDraining(): void {
+    if (this.draining) {
+      return;
+    }
+    this.draining = this.drain().finally(() => {
+      this.draining = undefined;
+      // A change queued while the last one finished would otherwise wait for the next
+      if (this.queue.length > 0) {
+        this.startDraining();
+      }
+    });
+  }
+
+  // Applies queued changes in order; the head stays queued until every target has it
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const change = this.queue[0];
+      for (const target of this.targets) {
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+          try {
+            await this.apply(target, change);
+            break;
+          } catch (error) {
+            if (attempt === this.maxAttempts) {
+              this.recordFailure({ target: target.name, change, attempts: attempt, error: errorMessage(error) });
+            } else {
+              await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * attempt));
+            }
+          }
+        }
+      }
+      this.queue.shift();
+    }
+  }
+
+  private async apply(target: ReplicaTarget, change: ReplicationChange): Promise<void> {
+    if (change.kind === 'delete') {
+      for (const hash of change.hashes) {
+        await target.cas.delete(hash);
+      }
+      return;
+    }
+
+    const snapshot = this.dag.resolveSnapshot(change.snapshotId);
+    if (!snapshot) {
+      return;
+    }
+    for (const hash of getSnapshotHashes(snapshot)) {
+      if (this.cas.exists(hash) && !target.cas.exists(hash)) {
+        await this.pushBlob(target, hash);
+      }
+    }
+    await target.cas.store(toReplicaRecord(snapshot), { snapshotId: snapshot.id });
+  }
+
+  private async push(target: ReplicaTarget, result: ReplicaSyncResult): Promise<void> {
+    for (const hash of await this.cas.list()) {
+      if (!target.cas.exists(hash)) {
+        await this.pushBlob(target, hash);
+        result.pushed.push(hash);
+      }
+    }
+    for (const snapshot of await this.dag.listSnapshots()) {
+      const record = toReplicaRecord(this.dag.resolveSnapshot(snapshot.id)!);
+      if (!target.cas.exists(computeContentHash(record))) {
+        await target.cas.store(record, { snapshotId: snapshot.id });
+        result.snapshotsPushed.push(snapshot.id);
+      }
+    }
+  }
+
+  // Holds the metadata lock, so a collectGarbage elsewhere cannot sweep
+  // pulled blobs before their snapshots are imported
+  private async pull(target: ReplicaTarget, result: ReplicaSyncResult): Promise<void> {
+    await this.dag.withLock(async () => {
+      const known = new Set((await this.dag.listSnapshots()).map(snapshot => this.getRecordHash(snapshot.id)));
+      const records: ReplicaSnapshotRecord[] = [];
+
+      for (const hash of await target.cas.list()) {
+        if (known.has(hash) || this.cas.exists(hash)) {
+          continue;
+        }
+        const record = await this.pullBlob(target, hash);
+        if (record) {
+          records.push(record);
+        } else {
+          result.pulled.push(hash);
+        }
+      }
+
+      records.sort((a, b) => new Date(a.snapshot.timestamp).getTime() - new Date(b.snapshot.timestamp).getTime());
+      for (const { snapshot } of records) {
+        if (this.dag.hasSnapshot(snapshot.id)) {
+          continue;
+        }
+        if (getSnapshotHashes(snapshot).some(hash => !this.cas.exists(hash))) {
+          result.snapshotsSkipped.push(snapshot.id);
+          continue;
+        }
+        await this.dag.importSnapshot(snapshot);
+        result.snapshotsPulled.push(snapshot.id);
+      }
+    });
+  }
+
+  private async pushBlob(target: ReplicaTarget, hash: string): Promise<void> {
+    const entry = await this.cas.getEntry(hash);
+    if (!entry) {
+      throw new Error(`Content not found for hash: ${hash}`);
+    }
+
+    let stored: string;
+    if (entry.kind === 'json') {
+      stored = await target.cas.store(await this.cas.retrieve(hash), { replicatedFrom: 'primary' });
+    } else if (target.cas.storeStream) {
+      stored = await target.cas.storeStream(await this.cas.retrieveStream(hash), { replicatedFrom: 'primary' });
+    } else {
+      throw new Error(`Target ${target.name} cannot store binary content ${hash}`);
+    }
+    this.checkCopied(target, hash, stored);
+  }
+
+  // Snapshot records are returned for import instead of being stored
+  private async pullBlob(target: ReplicaTarget, hash: string): Promise<ReplicaSnapshotRecord | undefined> {
+    let stored: string;
+    if (await this.isBinary(target, hash)) {
+      stored = await this.cas.storeStream(await target.cas.retrieveStream!(hash), { replicatedFrom: target.name });
+    } else {
+      const content = await target.cas.retrieve(hash);
+      if (isReplicaRecord(content)) {
+        return content;
+      }
+      stored = await this.cas.store(content, { replicatedFrom: target.name });
+    }
+    this.checkCopied(target, hash, stored);
+    return undefined;
+  }
+
+  private checkCopied(target: ReplicaTarget, hash: string, stored: string): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.replicated',
+      payload: {
+        hash,
+        operation: 'replicate',
+        result: stored === hash,
+        reason: stored === hash ? target.name : `${target.name} stored it as ${stored}`,
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'CASReplicator'
+      },
+      metadata: { sourceAgent: 'CASReplicator' }
+    });
+    if (stored !== hash) {
+      throw new CASIntegrityError(hash, stored);
+    }
+  }
+
+  private async checkBlob(target: ReplicaTarget, hash: string): Promise<boolean> {
+    try {
+      if (await this.isBinary(target, hash)) {
+        const hasher = crypto.createHash('sha256');
+        await pipeline(await target.cas.retrieveStream!(hash), new Writable({
+          write(chunk: Buffer, _encoding: string, callback): void {
+            hasher.update(chunk);
+            callback();
+          }
+        }));
+        return hasher.digest('hex') === hash;
+      }
+      return computeContentHash(await target.cas.retrieve(hash)) === hash;
+    } catch {
+      return false;
+    }
+  }
+
+  private async isBinary(target: ReplicaTarget, hash: string): Promise<boolean> {
+    if (!target.cas.statStream) {
+      return false;
+    }
+    return await target.cas.statStream(hash).then(() => true, () => false);
+  }
+
+  private recordFailure(failure: ReplicationFailure): void {
+    this.failures.push(failure);
+    const { change } = failure;
+    const hash = change.kind === 'snapshot' ? this.getRecordHash(change.snapshotId) ?? change.snapshotId : change.hashes.join(',');
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.replication.failed',
+      payload: {
+        hash,
+        operation: 'replicate',
+        result: false,
+        reason: `${failure.target}: ${failure.error}`,
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'CASReplicator'
+      },
+      metadata: { sourceAgent: 'CASReplicator' }
+    });
+  }
+
+  private emitTrace(event: TraceEvent): void {
+    console.log(`[CASReplicator]`, event);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
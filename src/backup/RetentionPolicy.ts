@@ -0,0 +1,148 @@
+// src/backup/RetentionPolicy.ts
+// Decides which snapshots survive garbage collection. Every rule picks the
+// snapshots it keeps independently; a snapshot no rule keeps is pruned.
+
+import { BackupSnapshot } from './ContentAddressableStorage';
+
+/**
+ * Time buckets are UTC calendar days, ISO weeks (starting on Monday) and
+ * calendar months, counted back from the evaluation time including the
+ * current one. In each bucket only the newest snapshot is kept.
+ */
+export interface RetentionPolicy {
+  keepLast?: number;
+  keepDaily?: number;
+  keepWeekly?: number;
+  keepMonthly?: number;
+  // Snapshots carrying any of these tags are always kept
+  pinnedTags?: string[];
+}
+
+export interface RetentionDecision {
+  snapshotId: string;
+  timestamp: Date;
+  keep: boolean;
+  // What keeps the snapshot, e.g. 'immutable', 'last', 'daily 2025-05-01',
+  // 'weekly 2025-04-28', 'monthly 2025-05', 'tag release' or 'recent'
+  reasons: string[];
+}
+
+export interface RetentionPlan {
+  evaluatedAt: Date;
+  // Newest first
+  decisions: RetentionDecision[];
+  keep: string[];
+  prune: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Immutable snapshots are always kept. Snapshots must be given in creation
+ * order, which breaks ties between equal timestamps (newer wins).
+ */
+export function applyRetentionPolicy(snapshots: BackupSnapshot[], policy: RetentionPolicy, now: Date = new Date()): RetentionPlan {
+  const sorted = snapshots.slice().reverse().sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const reasons = new Map<string, string[]>(sorted.map(snapshot => [snapshot.id, []]));
+  const pinned = new Set(policy.pinnedTags ?? []);
+
+  for (const snapshot of sorted) {
+    if (snapshot.immutable) {
+      reasons.get(snapshot.id)!.push('immutable');
+    }
+    snapshot.tags.filter(tag => pinned.has(tag)).forEach(tag => reasons.get(snapshot.id)!.push(`tag ${tag}`));
+  }
+
+  sorted.slice(0, Math.max(policy.keepLast ?? 0, 0)).forEach(snapshot => reasons.get(snapshot.id)!.push('last'));
+
+  keepNewestPerBucket(sorted, reasons, 'daily', policy.keepDaily, dayIndex(now), time => ({
+    index: dayIndex(time),
+    label: time.toISOString().slice(0, 10)
+  }));
+  keepNewestPerBucket(sorted, reasons, 'weekly', policy.keepWeekly, weekIndex(now), time => ({
+    index: weekIndex(time),
+    label: new Date((weekIndex(time) * 7 - 3) * DAY_MS).toISOString().slice(0, 10)
+  }));
+  keepNewestPerBucket(sorted, reasons, 'monthly', policy.keepMonthly, monthIndex(now), time => ({
+    index: monthIndex(time),
+    label: time.toISOString().slice(0, 7)
+  }));
+
+  return toPlan(sorted, reasons, now);
+}
+
+/**
+ * The rules garbageCollect applied before RetentionPolicy: the newest
+ * maxSnapshots are kept unless older than ttlDays (ttlDays <= 0 disables
+ * expiry), plus every immutable snapshot.
+ */
+export function applyLegacyRetention(
+  snapshots: BackupSnapshot[],
+  maxSnapshots: number,
+  ttlDays: number,
+  now: Date = new Date()
+): RetentionPlan {
+  const sorted = snapshots.slice().reverse().sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const expiresBefore = now.getTime() - ttlDays * DAY_MS;
+  const reasons = new Map<string, string[]>(sorted.map(snapshot => [snapshot.id, []]));
+
+  sorted.forEach((snapshot, index) => {
+    const expired = ttlDays > 0 && snapshot.timestamp.getTime() < expiresBefore;
+    if (snapshot.immutable) {
+      reasons.get(snapshot.id)!.push('immutable');
+    }
+    if (index < maxSnapshots && !expired) {
+      reasons.get(snapshot.id)!.push('recent');
+    }
+  });
+
+  return toPlan(sorted, reasons, now);
+}
+
+function keepNewestPerBucket(
+  sorted: BackupSnapshot[],
+  reasons: Map<string, string[]>,
+  rule: string,
+  count: number | undefined,
+  currentIndex: number,
+  bucketOf: (time: Date) => { index: number; label: string }
+): void {
+  if (!count || count <= 0) {
+    return;
+  }
+
+  const seen = new Set<number>();
+  for (const snapshot of sorted) {
+    const bucket = bucketOf(snapshot.timestamp);
+    if (bucket.index > currentIndex - count && !seen.has(bucket.index)) {
+      seen.add(bucket.index);
+      reasons.get(snapshot.id)!.push(`${rule} ${bucket.label}`);
+    }
+  }
+}
+
+function toPlan(sorted: BackupSnapshot[], reasons: Map<string, string[]>, now: Date): RetentionPlan {
+  const decisions = sorted.map(snapshot => {
+    const kept = reasons.get(snapshot.id)!;
+    return { snapshotId: snapshot.id, timestamp: snapshot.timestamp, keep: kept.length > 0, reasons: kept };
+  });
+  return {
+    evaluatedAt: now,
+    decisions,
+    keep: decisions.filter(decision => decision.keep).map(decision => decision.snapshotId),
+    prune: decisions.filter(decision => !decision.keep).map(decision => decision.snapshotId)
+  };
+}
+
+function dayIndex(time: Date): number {
+  return Math.floor(time.getTime() / DAY_MS);
+}
+
+// Day 0 (1970-01-01) was a Thursday, so weeks are shifted to start on Monday
+function weekIndex(time: Date): number {
+  return Math.floor((dayIndex(time) + 3) / 7);
+}
+
+function monthIndex(time: Date): number {
+  return time.getUTCFullYear() * 12 + time.getUTCMonth();
+}
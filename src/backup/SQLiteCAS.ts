@@ -0,0 +1,199 @@
+// src/backup/SQLiteCAS.ts
+// ContentAddressableStorage backed by a single SQLite database file instead of
+// one JSON file per blob. Uses sql.js (SQLite compiled to WebAssembly), so no
+// native build is needed. sql.js keeps the database in memory and each save
+// rewrites the whole file, so stores and deletes that overlap share one save.
+
+import fs from 'fs';
+import path from 'path';
+import { Buffer } from 'buffer';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { TraceEvent } from '../agents/AgentContract';
+import { ContentAddressableStorage, computeContentHash } from './ContentAddressableStorage';
+import { writeFileAtomic } from './MetadataJournal';
+
+let sqlModule: Promise<SqlJsStatic> | undefined;
+
+function loadSqlModule(): Promise<SqlJsStatic> {
+  if (!sqlModule) {
+    sqlModule = initSqlJs();
+  }
+  return sqlModule;
+}
+
+export class SQLiteCAS implements ContentAddressableStorage {
+  private closed = false;
+  // Changes not yet written to the database file
+  private dirty = false;
+  // Serialises file writes so an export never overtakes an earlier one
+  private persistQueue: Promise<void> = Promise.resolve();
+  // A queued save that has not exported yet; later changes join it
+  private nextPersist?: Promise<void>;
+
+  private constructor(private readonly db: Database, private readonly filePath?: string) {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS blobs (
+        hash TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        stored_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Opens (or creates) a database file. Without a path the database lives in
+   * memory only. Loading the WebAssembly module is asynchronous, hence the
+   * factory instead of a public constructor.
+   */
+  static async open(filePath?: string): Promise<SQLiteCAS> {
+    const SQL = await loadSqlModule();
+    const data = filePath && fs.existsSync(filePath) ? fs.readFileSync(filePath) : undefined;
+    if (filePath) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    return new SQLiteCAS(new SQL.Database(data), filePath);
+  }
+
+  async store(content: unknown, metadata?: Record<string, unknown>): Promise<string> {
+    this.assertOpen();
+    const contentStr = JSON.stringify(content);
+    const hash = computeContentHash(content);
+    const storedAt = new Date().toISOString();
+    const size = Buffer.byteLength(contentStr);
+
+    this.db.run(
+      'INSERT OR REPLACE INTO blobs (hash, content, metadata, size, stored_at) VALUES (?, ?, ?, ?, ?)',
+      [
+        hash,
+        contentStr,
+        JSON.stringify({ ...metadata, storedAt, hash, size }),
+        size,
+        storedAt
+      ]
+    );
+    this.dirty = true;
+    await this.persist();
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.stored',
+      payload: {
+        hash,
+        size,
+        operation: 'store',
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'SQLiteCAS'
+      },
+      metadata: { sourceAgent: 'SQLiteCAS' }
+    });
+
+    return hash;
+  }
+
+  async retrieve(hash: string): Promise<unknown> {
+    this.assertOpen();
+    const rows = this.db.exec('SELECT content FROM blobs WHERE hash = ?', [hash]);
+    if (rows.length === 0 || rows[0].values.length === 0) {
+      throw new Error(`Content not found for hash: ${hash}`);
+    }
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.retrieved',
+      payload: {
+        hash,
+        operation: 'retrieve',
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'SQLiteCAS'
+      },
+      metadata: { sourceAgent: 'SQLiteCAS' }
+    });
+
+    return JSON.parse(rows[0].values[0][0] as string);
+  }
+
+  exists(hash: string): boolean {
+    this.assertOpen();
+    const rows = this.db.exec('SELECT 1 FROM blobs WHERE hash = ?', [hash]);
+    return rows.length > 0 && rows[0].values.length > 0;
+  }
+
+  async delete(hash: string): Promise<boolean> {
+    this.assertOpen();
+    this.db.run('DELETE FROM blobs WHERE hash = ?', [hash]);
+    if (this.db.getRowsModified() === 0) {
+      return false;
+    }
+    this.dirty = true;
+    await this.persist();
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'cas.content.deleted',
+      payload: {
+        hash,
+        operation: 'delete',
+        timestamp: new Date(),
+        correlationId: hash,
+        sourceAgent: 'SQLiteCAS'
+      },
+      metadata: { sourceAgent: 'SQLiteCAS' }
+    });
+
+    return true;
+  }
+
+  async list(): Promise<string[]> {
+    this.assertOpen();
+    const rows = this.db.exec('SELECT hash FROM blobs ORDER BY stored_at, hash');
+    return rows.length > 0 ? rows[0].values.map(row => row[0] as string) : [];
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    await this.persist();
+    this.db.close();
+    this.closed = true;
+  }
+
+  // Write the in-memory database back through a uniquely named temp file so a
+  // crash mid-write never leaves a truncated database behind. Resolves once
+  // the caller's changes are on disk and rejects if that save failed; while a
+  // save is running, every change made meanwhile waits for the next one.
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+    if (this.nextPersist) return this.nextPersist;
+
+    const write = this.persistQueue.then(async () => {
+      this.nextPersist = undefined;
+      if (!this.dirty) return;
+      this.dirty = false;
+      try {
+        await writeFileAtomic(filePath, this.db.export());
+      } catch (error) {
+        // Still in memory, so the next save retries them
+        this.dirty = true;
+        throw error;
+      }
+    });
+    this.nextPersist = write;
+    // Only keeps the queue going; the error reaches the callers of write
+    this.persistQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error('SQLiteCAS is closed');
+    }
+  }
+
+  private emitTrace(event: TraceEvent): void {
+    console.log(`[SQLiteCAS]`, event);
+  }
+}
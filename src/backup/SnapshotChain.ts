@@ -0,0 +1,178 @@
+// src/backup/SnapshotChain.ts
+// Append-only, hash-chained and Ed25519-signed record of every change to the
+// snapshot set. Each entry carries the hash of the one before it, so editing,
+// reordering or dropping entries breaks the chain, and each snapshot's current
+// content must match the last entry recorded for it.
+
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { canonicalJson } from './CanonicalJson';
+
+export interface SigningKey {
+  // First 16 hex characters of the sha256 of the public key (SPKI DER)
+  id: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+}
+
+export interface ChainEntry {
+  // Position in the chain, starting at 0
+  sequence: number;
+  operation: 'create' | 'update' | 'delete';
+  snapshotId: string;
+  // Hash of the snapshot as stored, without its signature; null for deletes
+  snapshotHash: string | null;
+  // hashChainEntry of the previous entry; null for the first one
+  previousHash: string | null;
+  recordedAt: string;
+  keyId: string;
+  // Base64 Ed25519 signature over the canonical JSON of the other fields
+  signature: string;
+}
+
+/**
+ * Copy of the snapshot's latest chain entry, kept on the snapshot itself so
+ * it can be checked without the chain.
+ */
+export interface SnapshotSignature {
+  sequence: number;
+  previousHash: string | null;
+  keyId: string;
+  signature: string;
+}
+
+export interface ChainProblem {
+  kind: 'signature' | 'chain' | 'edited' | 'deleted' | 'unrecorded' | 'truncated';
+  message: string;
+  sequence?: number;
+  snapshotId?: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  entries: number;
+  // Hash of the last entry. Keep it somewhere else: passing it back as
+  // expectedHead detects a chain cut short together with its snapshots.
+  headHash: string | null;
+  problems: ChainProblem[];
+}
+
+export interface ChainVerificationOptions {
+  // Public keys whose signatures are accepted; defaults to the signing key's
+  publicKeys?: crypto.KeyObject[];
+  expectedHead?: string;
+}
+
+export function generateSigningKey(): SigningKey {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  return createSigningKey(privateKey);
+}
+
+// Accepts a PEM-encoded Ed25519 private key or a KeyObject
+export function createSigningKey(privateKey: crypto.KeyObject | string | Uint8Array): SigningKey {
+  const key = privateKey instanceof crypto.KeyObject ? privateKey : crypto.createPrivateKey(Buffer.from(privateKey));
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Snapshot signing keys must be Ed25519, got ${key.asymmetricKeyType}`);
+  }
+  const publicKey = crypto.createPublicKey(key);
+  return { id: getPublicKeyId(publicKey), privateKey: key, publicKey };
+}
+
+export function getPublicKeyId(publicKey: crypto.KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function hashChainEntry(entry: ChainEntry): string {
+  return crypto.createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+// Appends the next entry to `chain` and returns it
+export function appendChainEntry(
+  chain: ChainEntry[],
+  operation: ChainEntry['operation'],
+  snapshotId: string,
+  snapshotHash: string | null,
+  key: SigningKey
+): ChainEntry {
+  const previous = chain[chain.length - 1];
+  const unsigned: Omit<ChainEntry, 'signature'> = {
+    sequence: chain.length,
+    operation,
+    snapshotId,
+    snapshotHash,
+    previousHash: previous ? hashChainEntry(previous) : null,
+    recordedAt: new Date().toISOString(),
+    keyId: key.id
+  };
+  const signature = crypto.sign(null, Buffer.from(canonicalJson(unsigned)), key.privateKey).toString('base64');
+  const entry: ChainEntry = { ...unsigned, signature };
+  chain.push(entry);
+  return entry;
+}
+
+export function toSnapshotSignature(entry: ChainEntry): SnapshotSignature {
+  return { sequence: entry.sequence, previousHash: entry.previousHash, keyId: entry.keyId, signature: entry.signature };
+}
+
+/**
+ * Checks every entry's signature and link, then compares the chain's view of
+ * the snapshot set with `snapshots` (id -> current hash and signature).
+ */
+export function verifyChainEntries(
+  chain: ChainEntry[],
+  snapshots: Map<string, { hash: string; signature?: SnapshotSignature }>,
+  publicKeys: crypto.KeyObject[],
+  expectedHead?: string
+): ChainVerification {
+  const problems: ChainProblem[] = [];
+  const trusted = new Map(publicKeys.map(key => [getPublicKeyId(key), key]));
+  const latest = new Map<string, ChainEntry>();
+  const hashes: string[] = [];
+
+  chain.forEach((entry, index) => {
+    const { signature, ...unsigned } = entry;
+    const key = trusted.get(entry.keyId);
+    if (!key) {
+      problems.push({ kind: 'signature', sequence: index, snapshotId: entry.snapshotId, message: `entry ${index} is signed with untrusted key ${entry.keyId}` });
+    } else if (!crypto.verify(null, Buffer.from(canonicalJson(unsigned)), key, Buffer.from(signature, 'base64'))) {
+      problems.push({ kind: 'signature', sequence: index, snapshotId: entry.snapshotId, message: `entry ${index} has an invalid signature` });
+    }
+
+    const expectedPrevious = index > 0 ? hashes[index - 1] : null;
+    if (entry.sequence !== index || entry.previousHash !== expectedPrevious) {
+      problems.push({ kind: 'chain', sequence: index, snapshotId: entry.snapshotId, message: `entry ${index} does not follow entry ${index - 1}` });
+    }
+
+    hashes.push(hashChainEntry(entry));
+    latest.set(entry.snapshotId, entry);
+  });
+
+  for (const [snapshotId, current] of snapshots) {
+    const entry = latest.get(snapshotId);
+    if (!entry || entry.operation === 'delete') {
+      problems.push({ kind: 'unrecorded', snapshotId, message: `snapshot ${snapshotId} is not recorded in the chain` });
+    } else if (entry.snapshotHash !== current.hash) {
+      problems.push({ kind: 'edited', snapshotId, sequence: entry.sequence, message: `snapshot ${snapshotId} was changed after entry ${entry.sequence}` });
+    } else if (!current.signature || canonicalJson(current.signature) !== canonicalJson(toSnapshotSignature(entry))) {
+      problems.push({ kind: 'signature', snapshotId, sequence: entry.sequence, message: `snapshot ${snapshotId} does not carry the signature of entry ${entry.sequence}` });
+    }
+  }
+
+  for (const [snapshotId, entry] of latest) {
+    if (entry.operation !== 'delete' && !snapshots.has(snapshotId)) {
+      problems.push({ kind: 'deleted', snapshotId, sequence: entry.sequence, message: `snapshot ${snapshotId} was removed without a delete entry` });
+    }
+  }
+
+  if (expectedHead !== undefined && !hashes.includes(expectedHead)) {
+    problems.push({ kind: 'truncated', message: `expected head ${expectedHead} is not in the chain` });
+  }
+
+  return {
+    valid: problems.length === 0,
+    entries: chain.length,
+    headHash: hashes[hashes.length - 1] ?? null,
+    problems
+  };
+}
@@ -0,0 +1,125 @@
+// src/backup/TarArchive.ts
+// Minimal POSIX ustar writer and reader for snapshot bundles. Only regular
+// files are supported, which is all a bundle contains; the output can still
+// be listed and unpacked with any tar tool.
+
+import { Buffer } from 'buffer';
+
+export interface TarEntry {
+  path: string;
+  data: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Packs entries into a ustar archive. All entries get the same mtime so the
+ * same input always produces the same bytes.
+ */
+export function writeTar(entries: TarEntry[], mtime: Date = new Date(0)): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    blocks.push(createHeader(entry.path, entry.data.length, mtime));
+    blocks.push(entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  // End of archive: two zero blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+export function readTar(archive: Uint8Array): TarEntry[] {
+  const buffer = Buffer.from(archive.buffer, archive.byteOffset, archive.byteLength);
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      return entries;
+    }
+
+    const expected = parseOctal(header, 148, 8);
+    if (expected !== computeChecksum(header)) {
+      throw new Error(`Invalid tar header checksum at offset ${offset}`);
+    }
+
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const size = parseOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > buffer.length) {
+      throw new Error(`Truncated tar entry: ${name}`);
+    }
+
+    if (type === '0' || type === '\0') {
+      entries.push({
+        path: prefix ? `${prefix}/${name}` : name,
+        data: Buffer.from(buffer.subarray(dataStart, dataStart + size))
+      });
+    }
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  throw new Error('Tar archive is missing its end-of-archive marker');
+}
+
+function createHeader(entryPath: string, size: number, mtime: Date): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  let name = entryPath;
+  let prefix = '';
+  if (Buffer.byteLength(name) > 100) {
+    const split = entryPath.lastIndexOf('/', 155);
+    prefix = entryPath.slice(0, split);
+    name = entryPath.slice(split + 1);
+    if (split < 0 || Buffer.byteLength(name) > 100 || Buffer.byteLength(prefix) > 155) {
+      throw new Error(`Tar entry path too long: ${entryPath}`);
+    }
+  }
+
+  header.write(name, 0, 100, 'utf-8');
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(mtime.getTime() / 1000));
+  header.write('0', 156, 1, 'utf-8');
+  header.write('ustar\u000000', 257, 8, 'utf-8');
+  header.write(prefix, 345, 155, 'utf-8');
+
+  // The checksum is written as six octal digits, a NUL and a space
+  const checksum = computeChecksum(header);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8, 'utf-8');
+  return header;
+}
+
+// Sum of all header bytes with the checksum field itself counted as spaces
+function computeChecksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, '0')}\u0000`, offset, length, 'utf-8');
+}
+
+function parseOctal(header: Buffer, offset: number, length: number): number {
+  const value = readString(header, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end >= 0 ? end : length).toString('utf-8');
+}
@@ -0,0 +1,62 @@
+// src/backup/TieredCAS.ts
+// Layered ContentAddressableStorage: a bounded in-memory cache in front of a
+// durable backing store. Writes go through to the backing store first.
+
+import { ContentAddressableStorage } from './ContentAddressableStorage';
+import { MemoryCAS } from './MemoryCAS';
+
+export interface TieredCASOptions {
+  // Cache tier; defaults to a MemoryCAS holding maxCacheEntries blobs
+  cache?: ContentAddressableStorage;
+  maxCacheEntries?: number;
+}
+
+export interface TieredCASStats {
+  hits: number;
+  misses: number;
+}
+
+export class TieredCAS implements ContentAddressableStorage {
+  private cache: ContentAddressableStorage;
+  private stats: TieredCASStats = { hits: 0, misses: 0 };
+
+  constructor(private readonly backing: ContentAddressableStorage, options: TieredCASOptions = {}) {
+    this.cache = options.cache ?? new MemoryCAS({ maxEntries: options.maxCacheEntries ?? 1000 });
+  }
+
+  async store(content: unknown, metadata?: Record<string, unknown>): Promise<string> {
+    const hash = await this.backing.store(content, metadata);
+    await this.cache.store(content, metadata);
+    return hash;
+  }
+
+  async retrieve(hash: string): Promise<unknown> {
+    if (this.cache.exists(hash)) {
+      this.stats.hits++;
+      return this.cache.retrieve(hash);
+    }
+
+    this.stats.misses++;
+    const content = await this.backing.retrieve(hash);
+    await this.cache.store(content);
+    return content;
+  }
+
+  exists(hash: string): boolean {
+    return this.cache.exists(hash) || this.backing.exists(hash);
+  }
+
+  async delete(hash: string): Promise<boolean> {
+    await this.cache.delete(hash);
+    return this.backing.delete(hash);
+  }
+
+  // The backing store is authoritative; the cache only ever holds a subset
+  async list(): Promise<string[]> {
+    return this.backing.list();
+  }
+
+  getStats(): TieredCASStats {
+    return { ...this.stats };
+  }
+}
@@ -1,7 +1,7 @@
 // CulturalTransformation.ts - Implements organizational culture modeling features
 // This module addresses the Cultural Transformation phase requirements
 
-import { AgentContract, ValidationResult, AgentSpecification, TraceEvent, AgentStatus, DesignArtifact, UserInteraction, EventPayload } from '../agents/AgentContract';
+import { AgentContract, ValidationResult, AgentSpecification, TraceEvent, AgentStatus, DesignArtifact, UserInteraction, EventPayload, SnapshotParticipant, AgentSnapshotState } from '../agents/AgentContract';
 
 // Cultural Transformation specific interfaces
 export interface CulturalTransformationStatus extends AgentStatus {
@@ -135,7 +135,15 @@ export interface Certification {
   issuingAuthority: string;
 }
 
-export class CulturalTransformationAgent implements AgentContract {
+// Shape of the state CulturalTransformationAgent contributes to backup snapshots
+interface CulturalTransformationSnapshotState {
+  workshops: DesignThinkingWorkshop[];
+  teams: CrossFunctionalTeam[];
+  metrics: InnovationMetrics[];
+  learningFrameworks: ContinuousLearningFramework[];
+}
+
+export class CulturalTransformationAgent implements AgentContract, SnapshotParticipant {
   readonly id: string;
   readonly role = 'CulturalTransformation';
   readonly dependencies: string[] = ['AikoAgent', 'RyuAgent'];
@@ -645,6 +653,33 @@ export class CulturalTransformationAgent implements AgentContract {
     }
   }
 
+  // Snapshot participation
+
+  captureSnapshotState(): AgentSnapshotState {
+    const state: CulturalTransformationSnapshotState = {
+      workshops: Array.from(this.workshops.values()),
+      teams: Array.from(this.teams.values()),
+      metrics: Array.from(this.metrics.values()),
+      learningFrameworks: Array.from(this.learningFrameworks.values())
+    };
+
+    return {
+      state,
+      dependencies: [...this.dependencies],
+      capability: 'cultural-transformation',
+      designIntent: 'Preserve workshops, teams, innovation metrics and learning frameworks'
+    };
+  }
+
+  restoreSnapshotState(state: unknown): void {
+    const snapshot = state as Partial<CulturalTransformationSnapshotState>;
+
+    this.workshops = new Map((snapshot.workshops ?? []).map(workshop => [workshop.id, workshop]));
+    this.teams = new Map((snapshot.teams ?? []).map(team => [team.id, team]));
+    this.metrics = new Map((snapshot.metrics ?? []).map(metric => [metric.id, metric]));
+    this.learningFrameworks = new Map((snapshot.learningFrameworks ?? []).map(framework => [framework.id, framework]));
+  }
+
   // Helper methods for generating design artifacts
 
   private generateWorkshopTemplate(): string {
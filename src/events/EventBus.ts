@@ -0,0 +1,201 @@
+// src/events/EventBus.ts
+// Typed publish/subscribe event bus keyed on the EventPayload variants
+
+import {
+  BackupEventPayload,
+  BehaviorEventPayload,
+  ContextEventPayload,
+  CulturalTransformationEventPayload,
+  DesignEventPayload,
+  EventPayload,
+  KnowledgeEventPayload,
+  OrchestrationEventPayload,
+  SnapshotEventPayload,
+  SpecificationEventPayload,
+  SystemEventPayload,
+  TraceEvent,
+  UserInteractionEventPayload,
+  ValidationEventPayload
+} from '../agents/AgentContract';
+
+// Compile-time mapping from event name to the payload variant it carries
+export interface AgentEventMap {
+  'agent.initialized': SystemEventPayload;
+  'agent.shutdown': SystemEventPayload;
+  'agent.error': SystemEventPayload;
+  'specification.validate': SpecificationEventPayload;
+  'specification.validated': SpecificationEventPayload;
+  'specification.create': SpecificationEventPayload;
+  'specification.update': SpecificationEventPayload;
+  'specification.delete': SpecificationEventPayload;
+  'design.artifact.generate': DesignEventPayload;
+  'design.artifact.generated': DesignEventPayload;
+  'design.artifact.validate': DesignEventPayload;
+  'user.interaction.track': UserInteractionEventPayload;
+  'user.interaction.tracked': UserInteractionEventPayload;
+  'validation.rule.evaluated': ValidationEventPayload;
+  'integrity.validate': ValidationEventPayload;
+  'integrity.validation.passed': ValidationEventPayload;
+  'integrity.validation.failed': ValidationEventPayload;
+  'compliance.check.passed': ValidationEventPayload;
+  'compliance.check.failed': ValidationEventPayload;
+  'context.propagate': ContextEventPayload;
+  'context.propagation.started': ContextEventPayload;
+  'context.propagation.completed': ContextEventPayload;
+  'context.propagation.failed': ContextEventPayload;
+  'rag.knowledge.retrieve': KnowledgeEventPayload;
+  'rag.knowledge.retrieved': KnowledgeEventPayload;
+  'rag.knowledge.failed': KnowledgeEventPayload;
+  'behavior.triggered': BehaviorEventPayload;
+  'behavior.skipped': BehaviorEventPayload;
+  'behavior.action.dispatched': BehaviorEventPayload;
+  'behavior.action.failed': BehaviorEventPayload;
+  'behavior.outcome.recorded': BehaviorEventPayload;
+  'cas.content.stored': BackupEventPayload;
+  'cas.content.retrieved': BackupEventPayload;
+  'cas.content.deleted': BackupEventPayload;
+  'cas.content.validated': BackupEventPayload;
+  'dag.snapshot.created': SnapshotEventPayload;
+  'dag.snapshot.restored': SnapshotEventPayload;
+  'dag.snapshot.validated': SnapshotEventPayload;
+  'dag.snapshot.deleted': SnapshotEventPayload;
+  'dag.snapshot.migrated': SnapshotEventPayload;
+  'dag.snapshot.squashed': SnapshotEventPayload;
+  'dag.snapshot.imported': SnapshotEventPayload;
+  'dag.orchestrate': OrchestrationEventPayload;
+  'dag.orchestration.started': OrchestrationEventPayload;
+  'dag.orchestration.completed': OrchestrationEventPayload;
+  'dag.orchestration.failed': OrchestrationEventPayload;
+  'dag.node.completed': OrchestrationEventPayload;
+  'dag.node.failed': OrchestrationEventPayload;
+  'workshop.create': CulturalTransformationEventPayload;
+  'team.form': CulturalTransformationEventPayload;
+  'metrics.track': CulturalTransformationEventPayload;
+  'learning.path.create': CulturalTransformationEventPayload;
+}
+
+export type AgentEventName = keyof AgentEventMap;
+
+// Known event names get their mapped payload; any other name falls back to the full union
+export type EventPayloadFor<K extends string> =
+  K extends AgentEventName ? AgentEventMap[K] : EventPayload;
+
+// Event names matched by a subscription pattern: exact name, 'prefix.*' or '*'
+export type EventsMatching<P extends string> =
+  P extends '*' ? AgentEventName :
+  P extends `${infer Prefix}.*` ? Extract<AgentEventName, `${Prefix}.${string}`> :
+  Extract<AgentEventName, P>;
+
+export type SubscriptionPayload<P extends string> =
+  [EventsMatching<P>] extends [never] ? EventPayload : AgentEventMap[EventsMatching<P>];
+
+export type EventHandler<P extends string> =
+  (payload: SubscriptionPayload<P>, eventType: string) => void | Promise<void>;
+
+export interface SubscriptionOptions {
+  // Subscriptions sharing an id receive each event at most once
+  subscriberId?: string;
+}
+
+export interface PublishResult {
+  eventType: string;
+  delivered: string[];
+  failed: Array<{ subscriberId: string; error: Error }>;
+}
+
+interface Subscription {
+  pattern: string;
+  subscriberId: string;
+  handler: (payload: EventPayload, eventType: string) => void | Promise<void>;
+}
+
+/**
+ * Checks whether an event name matches a subscription pattern. 'prefix.*'
+ * matches every event below the prefix, at any depth; '*' matches everything.
+ */
+export function matchesEventPattern(pattern: string, eventType: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith('.*')) {
+    return eventType.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === eventType;
+}
+
+export class EventBus {
+  private subscriptions: Subscription[] = [];
+  private subscriptionCounter = 0;
+
+  subscribe<P extends string>(
+    pattern: P,
+    handler: EventHandler<P>,
+    options: SubscriptionOptions = {}
+  ): () => void {
+    const subscription: Subscription = {
+      pattern,
+      subscriberId: options.subscriberId || `subscriber-${++this.subscriptionCounter}`,
+      handler: handler as Subscription['handler']
+    };
+    this.subscriptions.push(subscription);
+
+    return (): void => {
+      this.subscriptions = this.subscriptions.filter(s => s !== subscription);
+    };
+  }
+
+  unsubscribeAll(subscriberId: string, pattern?: string): void {
+    this.subscriptions = this.subscriptions.filter(s =>
+      s.subscriberId !== subscriberId || (pattern !== undefined && s.pattern !== pattern)
+    );
+  }
+
+  getSubscribers(eventType: string): string[] {
+    const subscribers = this.subscriptions
+      .filter(s => matchesEventPattern(s.pattern, eventType))
+      .map(s => s.subscriberId);
+    return Array.from(new Set(subscribers));
+  }
+
+  getPatterns(subscriberId: string): string[] {
+    return this.subscriptions
+      .filter(s => s.subscriberId === subscriberId)
+      .map(s => s.pattern);
+  }
+
+  /**
+   * Delivers an event to every matching subscriber in subscription order. A
+   * failing handler does not prevent delivery to the remaining subscribers.
+   */
+  async publish<K extends string>(eventType: K, payload: EventPayloadFor<K>): Promise<PublishResult> {
+    const result: PublishResult = { eventType, delivered: [], failed: [] };
+    const notified = new Set<string>();
+
+    for (const subscription of [...this.subscriptions]) {
+      if (!matchesEventPattern(subscription.pattern, eventType)) continue;
+      if (notified.has(subscription.subscriberId)) continue;
+      notified.add(subscription.subscriberId);
+
+      try {
+        await subscription.handler(payload, eventType);
+        result.delivered.push(subscription.subscriberId);
+      } catch (error) {
+        result.failed.push({ subscriberId: subscription.subscriberId, error: error as Error });
+      }
+    }
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'bus.event.published',
+      payload,
+      metadata: {
+        correlationId: payload.correlationId,
+        sourceAgent: payload.sourceAgent
+      }
+    });
+
+    return result;
+  }
+
+  private emitTrace(event: TraceEvent): void {
+    console.log(`[EventBus]`, event);
+  }
+}
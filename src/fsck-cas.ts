@@ -0,0 +1,39 @@
+// fsck-cas.ts - Checks a backup store for corrupt, orphaned and missing blobs
+// Usage: node build/fsck-cas.js [storagePath] [--output report.json]
+// Writes the FsckReport as JSON (to --output, or last on stdout after the
+// trace log) and exits with 1 when the store is unhealthy
+// Encrypted stores need their keys in AIKORYU_ENCRYPTION_KEYS
+
+import fs from 'fs';
+import path from 'path';
+import { AikoCAS, RyuMetadataDAG } from './backup/ContentAddressableStorage';
+import { ENCRYPTION_KEYS_VARIABLE, EnvKeyProvider } from './backup/Encryption';
+
+const args = process.argv.slice(2);
+const outputIndex = args.indexOf('--output');
+const outputPath = outputIndex >= 0 ? args[outputIndex + 1] : undefined;
+const storagePath = args.find((arg, index) => !arg.startsWith('--') && (outputIndex < 0 || index !== outputIndex + 1))
+  ?? './.backups';
+
+const keyProvider = process.env[ENCRYPTION_KEYS_VARIABLE] ? new EnvKeyProvider() : undefined;
+const cas = new AikoCAS(storagePath, { keyProvider });
+const dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'), { keyProvider });
+
+dag.listSnapshots()
+  .then(snapshots => cas.fsck(snapshots))
+  .then(report => {
+    const json = JSON.stringify(report, null, 2);
+    if (outputPath) {
+      fs.writeFileSync(outputPath, `${json}\n`);
+      console.log(`${report.healthy ? '✅' : '❌'} fsck report written to ${outputPath}`);
+    } else {
+      console.log(json);
+    }
+    if (!report.healthy) {
+      process.exitCode = 1;
+    }
+  })
+  .catch(error => {
+    console.error('❌ fsck failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  });
@@ -1 +1,313 @@
- 
\ No newline at end of file
+// src/mesh.ts
+// Agent mesh runtime: registers AgentContract instances, starts them in dependency
+// order, routes events to subscribed agents and shuts them down in reverse order.
+
+import { AgentContract, TraceEvent } from './agents/AgentContract';
+import { EventBus, EventPayloadFor } from './events/EventBus';
+
+export interface MeshOptions {
+  // Reject agents whose declared dependencies are not registered in the mesh
+  strictDependencies?: boolean;
+}
+
+export interface MeshStatus {
+  state: 'idle' | 'starting' | 'running' | 'stopping' | 'stopped';
+  agents: number;
+  startOrder: string[];
+  unresolvedDependencies: Record<string, string[]>;
+}
+
+export interface EventDelivery {
+  eventType: string;
+  delivered: string[];
+  failed: Array<{ agentId: string; error: Error }>;
+}
+
+export class AgentMesh {
+  private agents: Map<string, AgentContract> = new Map();
+  private bus: EventBus;
+  private startOrder: string[] = [];
+  private state: MeshStatus['state'] = 'idle';
+  private options: MeshOptions;
+
+  constructor(options: MeshOptions = {}, bus: EventBus = new EventBus()) {
+    this.options = options;
+    this.bus = bus;
+  }
+
+  /**
+   * Registers an agent and subscribes it to the given event types. Patterns
+   * such as 'dag.snapshot.*' subscribe the agent to a whole event family.
+   */
+  register(agent: AgentContract, eventTypes: string[] = []): void {
+    if (this.agents.has(agent.id)) {
+      throw new Error(`Agent already registered: ${agent.id}`);
+    }
+    if (this.state === 'starting' || this.state === 'running') {
+      throw new Error(`Cannot register agent ${agent.id} while mesh is ${this.state}`);
+    }
+
+    this.agents.set(agent.id, agent);
+    for (const eventType of eventTypes) {
+      this.subscribe(agent.id, eventType);
+    }
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'mesh.agent.registered',
+      metadata: { sourceAgent: agent.id }
+    });
+  }
+
+  unregister(agentId: string): boolean {
+    if (this.state === 'starting' || this.state === 'running') {
+      throw new Error(`Cannot unregister agent ${agentId} while mesh is ${this.state}`);
+    }
+
+    this.bus.unsubscribeAll(agentId);
+    return this.agents.delete(agentId);
+  }
+
+  subscribe(agentId: string, eventType: string): void {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      throw new Error(`Agent not registered: ${agentId}`);
+    }
+    if (this.bus.getPatterns(agentId).includes(eventType)) {
+      return;
+    }
+
+    this.bus.subscribe(
+      eventType,
+      (payload, routedEventType) => agent.handleEvent(routedEventType, payload),
+      { subscriberId: agentId }
+    );
+  }
+
+  unsubscribe(agentId: string, eventType: string): void {
+    this.bus.unsubscribeAll(agentId, eventType);
+  }
+
+  getEventBus(): EventBus {
+    return this.bus;
+  }
+
+  getAgent(agentId: string): AgentContract | undefined {
+    return this.agents.get(agentId);
+  }
+
+  getAgents(): AgentContract[] {
+    return Array.from(this.agents.values());
+  }
+
+  getSubscribers(eventType: string): string[] {
+    return this.bus.getSubscribers(eventType).filter(id => this.agents.has(id));
+  }
+
+  getStatus(): MeshStatus {
+    return {
+      state: this.state,
+      agents: this.agents.size,
+      startOrder: [...this.startOrder],
+      unresolvedDependencies: this.findUnresolvedDependencies()
+    };
+  }
+
+  /**
+   * Resolves the order in which agents must be initialized so that every agent
+   * starts after its dependencies. Throws when the dependency graph has a cycle.
+   */
+  resolveStartOrder(): string[] {
+    const unresolved = this.findUnresolvedDependencies();
+    if (this.options.strictDependencies && Object.keys(unresolved).length > 0) {
+      const missing = Object.entries(unresolved)
+        .map(([agentId, deps]) => `${agentId} -> ${deps.join(', ')}`);
+      throw new Error(`Unresolved dependencies: ${missing.join('; ')}`);
+    }
+
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (agentId: string): void => {
+      if (visited.has(agentId)) return;
+
+      const cycleStart = stack.indexOf(agentId);
+      if (cycleStart >= 0) {
+        const cycle = [...stack.slice(cycleStart), agentId];
+        throw new Error(`Circular dependencies detected: ${cycle.join(' -> ')}`);
+      }
+
+      stack.push(agentId);
+      for (const depId of this.resolveDependencies(this.agents.get(agentId)!)) {
+        visit(depId);
+      }
+      stack.pop();
+
+      visited.add(agentId);
+      order.push(agentId);
+    };
+
+    for (const agentId of this.agents.keys()) {
+      visit(agentId);
+    }
+
+    return order;
+  }
+
+  async start(): Promise<void> {
+    if (this.state === 'starting' || this.state === 'running') {
+      throw new Error(`Mesh is already ${this.state}`);
+    }
+
+    const order = this.resolveStartOrder();
+    this.state = 'starting';
+    this.startOrder = [];
+
+    for (const [agentId, deps] of Object.entries(this.findUnresolvedDependencies())) {
+      this.emitTrace({
+        timestamp: new Date(),
+        eventType: 'mesh.dependency.unresolved',
+        payload: {
+          eventType: 'status-change',
+          timestamp: new Date(),
+          correlationId: agentId,
+          sourceAgent: 'AgentMesh',
+          error: new Error(`Unresolved dependencies: ${deps.join(', ')}`)
+        },
+        metadata: { sourceAgent: 'AgentMesh', correlationId: agentId }
+      });
+    }
+
+    for (const agentId of order) {
+      try {
+        await this.agents.get(agentId)!.initialize();
+        this.startOrder.push(agentId);
+      } catch (error) {
+        this.emitTrace({
+          timestamp: new Date(),
+          eventType: 'mesh.agent.failed',
+          payload: {
+            eventType: 'error',
+            error: error as Error,
+            timestamp: new Date(),
+            correlationId: agentId,
+            sourceAgent: 'AgentMesh'
+          },
+          metadata: { sourceAgent: 'AgentMesh', correlationId: agentId }
+        });
+
+        // Roll back the agents that already started
+        await this.stopStartedAgents();
+        this.state = 'stopped';
+        throw new Error(`Failed to initialize agent ${agentId}: ${(error as Error).message}`);
+      }
+    }
+
+    this.state = 'running';
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'mesh.started',
+      metadata: { sourceAgent: 'AgentMesh' }
+    });
+  }
+
+  /**
+   * Delivers an event to every agent subscribed to its event type. A failing
+   * subscriber does not prevent delivery to the others; failures are reported.
+   */
+  async publish<K extends string>(eventType: K, payload: EventPayloadFor<K>): Promise<EventDelivery> {
+    if (this.state !== 'running') {
+      throw new Error(`Cannot publish ${eventType}: mesh is ${this.state}`);
+    }
+
+    const result = await this.bus.publish(eventType, payload);
+    const delivery: EventDelivery = {
+      eventType,
+      delivered: result.delivered,
+      failed: result.failed.map(({ subscriberId, error }) => ({ agentId: subscriberId, error }))
+    };
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'mesh.event.routed',
+      payload,
+      metadata: {
+        sourceAgent: 'AgentMesh',
+        correlationId: payload.correlationId
+      }
+    });
+
+    return delivery;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.state !== 'running') {
+      return;
+    }
+
+    this.state = 'stopping';
+    await this.stopStartedAgents();
+    this.state = 'stopped';
+
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'mesh.stopped',
+      metadata: { sourceAgent: 'AgentMesh' }
+    });
+  }
+
+  private async stopStartedAgents(): Promise<void> {
+    for (const agentId of [...this.startOrder].reverse()) {
+      try {
+        await this.agents.get(agentId)!.shutdown();
+      } catch (error) {
+        console.error(`[AgentMesh] Failed to shut down ${agentId}:`, error);
+      }
+    }
+    this.startOrder = [];
+  }
+
+  /**
+   * Dependencies are declared as strings and may name an agent by id, by role
+   * or by class name (e.g. CulturalTransformationAgent depends on 'AikoAgent').
+   */
+  private resolveDependencies(agent: AgentContract): string[] {
+    const resolved: string[] = [];
+
+    for (const dependency of agent.dependencies) {
+      const match = this.findAgent(dependency);
+      if (match && match.id !== agent.id && !resolved.includes(match.id)) {
+        resolved.push(match.id);
+      }
+    }
+
+    return resolved;
+  }
+
+  private findAgent(reference: string): AgentContract | undefined {
+    const byId = this.agents.get(reference);
+    if (byId) return byId;
+
+    return this.getAgents().find(agent =>
+      agent.role === reference || agent.constructor.name === reference
+    );
+  }
+
+  private findUnresolvedDependencies(): Record<string, string[]> {
+    const unresolved: Record<string, string[]> = {};
+
+    for (const agent of this.agents.values()) {
+      const missing = agent.dependencies.filter(dep => !this.findAgent(dep));
+      if (missing.length > 0) {
+        unresolved[agent.id] = missing;
+      }
+    }
+
+    return unresolved;
+  }
+
+  private emitTrace(event: TraceEvent): void {
+    console.log(`[AgentMesh]`, event);
+  }
+}
@@ -0,0 +1,23 @@
+// migrate-cas.ts - Rehashes a backup store with canonical JSON hashing and rewrites snapshot references
+// Usage: node build/migrate-cas.js [storagePath] [--dry-run]
+
+import { migrateToCanonicalHashes } from './backup/HashMigration';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const storagePath = args.find(arg => !arg.startsWith('--')) ?? './.backups';
+
+migrateToCanonicalHashes(storagePath, { dryRun })
+  .then(report => {
+    const rehashed = Object.entries(report.rehashed);
+    console.log(`${dryRun ? '🔍 Dry run for' : '✅ Migrated'} ${report.storagePath}`);
+    console.log(`- Objects scanned: ${report.scanned}`);
+    console.log(`- Already canonical: ${report.unchanged}`);
+    console.log(`- Rehashed: ${rehashed.length} (${report.merged} merged with equal content)`);
+    console.log(`- Snapshots updated: ${report.snapshotsUpdated.length}`);
+    rehashed.forEach(([oldHash, newHash]) => console.log(`  ${oldHash} -> ${newHash}`));
+  })
+  .catch(error => {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,41 @@
+// snapshot-bundle.ts - Moves snapshots between backup stores as tar bundles
+// Usage: node build/snapshot-bundle.js export <snapshotId> <bundle.tar> [storagePath]
+//        node build/snapshot-bundle.js import <bundle.tar> [storagePath]
+// Import verifies every hash in the bundle first and writes nothing on a
+// mismatch; the problems are listed and the exit code is 1
+// Bundles are plaintext; encrypted stores need their keys in AIKORYU_ENCRYPTION_KEYS
+
+import fs from 'fs';
+import { AikoRyuBackupManager, SnapshotBundleError } from './backup/ContentAddressableStorage';
+import { ENCRYPTION_KEYS_VARIABLE, EnvKeyProvider } from './backup/Encryption';
+
+const [command, ...args] = process.argv.slice(2);
+const keyProvider = process.env[ENCRYPTION_KEYS_VARIABLE] ? new EnvKeyProvider() : undefined;
+
+async function run(): Promise<void> {
+  if (command === 'export' && args.length >= 2) {
+    const [snapshotId, bundlePath, storagePath = './.backups'] = args;
+    const bundle = await new AikoRyuBackupManager(storagePath, { keyProvider }).exportSnapshot(snapshotId);
+    fs.writeFileSync(bundlePath, bundle);
+    console.log(`✅ Exported ${snapshotId} to ${bundlePath} (${bundle.length} bytes)`);
+  } else if (command === 'import' && args.length >= 1) {
+    const [bundlePath, storagePath = './.backups'] = args;
+    const snapshot = await new AikoRyuBackupManager(storagePath, { keyProvider }).importSnapshot(fs.readFileSync(bundlePath));
+    console.log(`✅ Imported ${snapshot.id} (${snapshot.description}) into ${storagePath}`);
+  } else {
+    console.error('Usage: snapshot-bundle export <snapshotId> <bundle.tar> [storagePath]');
+    console.error('       snapshot-bundle import <bundle.tar> [storagePath]');
+    process.exitCode = 2;
+  }
+}
+
+run().catch(error => {
+  if (error instanceof SnapshotBundleError) {
+    console.error('❌ Bundle rejected:');
+    error.problems.forEach(problem => console.error(`  - ${problem}`));
+    process.exitCode = 1;
+  } else {
+    console.error('❌ snapshot-bundle failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  }
+});
@@ -0,0 +1,179 @@
+// src/specifications/CapabilityInvoker.ts
+// Runs capability implementations behind their declared contract: inputs and
+// preconditions are checked before the call, outputs and postconditions after it.
+
+import { AgentSpecification, Capability, ValidationContext, ValidationResult } from '../agents/AgentContract';
+import { ConditionScope, ConditionViolation, checkConditions } from './ConditionExpression';
+import { CapabilityValidationError, ParameterError, validateParameters } from './ParameterValidation';
+
+export type CapabilityImplementation = (
+  inputs: Record<string, unknown>,
+  state: Record<string, unknown>
+) => unknown | Promise<unknown>;
+
+export interface CapabilityInvocation {
+  capabilityId: string;
+  success: boolean;
+  output?: unknown;
+  validation: ValidationResult;
+  violations: ConditionViolation[];
+  errors: ParameterError[];
+  stage: 'input' | 'precondition' | 'execution' | 'output' | 'postcondition' | 'completed';
+}
+
+export interface CapabilityInvokerOptions {
+  // Throw CapabilityValidationError on malformed inputs instead of returning a failed invocation
+  throwOnInvalidInput?: boolean;
+  environment?: ValidationContext['environment'];
+}
+
+interface InvocationFailure {
+  reason: string;
+  violations?: ConditionViolation[];
+  errors?: ParameterError[];
+  details?: ValidationResult['details'];
+  output?: unknown;
+}
+
+export class CapabilityInvoker {
+  private capabilities: Map<string, Capability> = new Map();
+  private implementations: Map<string, CapabilityImplementation> = new Map();
+
+  constructor(
+    spec: AgentSpecification,
+    private readonly stateProvider: () => Record<string, unknown> = () => ({}),
+    private readonly options: CapabilityInvokerOptions = {}
+  ) {
+    spec.capabilities.forEach(capability => this.capabilities.set(capability.id, capability));
+  }
+
+  register(capabilityId: string, implementation: CapabilityImplementation): void {
+    if (!this.capabilities.has(capabilityId)) {
+      throw new Error(`Unknown capability: ${capabilityId}`);
+    }
+    this.implementations.set(capabilityId, implementation);
+  }
+
+  getCapability(capabilityId: string): Capability | undefined {
+    return this.capabilities.get(capabilityId);
+  }
+
+  validateInputs(capabilityId: string, inputs: unknown): ParameterError[] {
+    const capability = this.capabilities.get(capabilityId);
+    return capability
+      ? validateParameters(capabilityId, 'input', capability.inputs, inputs, this.options)
+      : [];
+  }
+
+  /**
+   * Invokes a capability. Inputs are checked against the declared parameters,
+   * then preconditions over `inputs` and `state`; either failure stops the
+   * call before the implementation runs. Outputs are checked afterwards, and
+   * postconditions additionally see `outputs`.
+   */
+  async invoke(capabilityId: string, inputs: Record<string, unknown> = {}): Promise<CapabilityInvocation> {
+    const capability = this.capabilities.get(capabilityId);
+    const implementation = this.implementations.get(capabilityId);
+    if (!capability || !implementation) {
+      return this.fail(capabilityId, 'execution', {
+        reason: `No implementation registered for capability: ${capabilityId}`
+      });
+    }
+
+    const inputErrors = this.validateInputs(capabilityId, inputs);
+    if (inputErrors.length > 0) {
+      if (this.options.throwOnInvalidInput) {
+        throw new CapabilityValidationError(capabilityId, inputErrors);
+      }
+      return this.fail(capabilityId, 'input', {
+        reason: inputErrors.map(error => error.message).join('; '),
+        errors: inputErrors
+      });
+    }
+
+    const state = this.stateProvider();
+    const before: ConditionScope = { inputs, state };
+    const preconditions = checkConditions(capability.preconditions, before, 'precondition');
+    if (!preconditions.result) {
+      return this.fail(capabilityId, 'precondition', {
+        reason: preconditions.reason!,
+        violations: preconditions.violations,
+        details: preconditions.details
+      });
+    }
+
+    let output: unknown;
+    try {
+      output = await implementation(inputs, state);
+    } catch (error) {
+      return this.fail(capabilityId, 'execution', { reason: (error as Error).message });
+    }
+
+    const outputErrors = validateParameters(capabilityId, 'output', capability.outputs, output, this.options);
+    if (outputErrors.length > 0) {
+      return this.fail(capabilityId, 'output', {
+        reason: outputErrors.map(error => error.message).join('; '),
+        errors: outputErrors,
+        output
+      });
+    }
+
+    const after: ConditionScope = { inputs, outputs: output, state: this.stateProvider() };
+    const postconditions = checkConditions(capability.postconditions, after, 'postcondition');
+    if (!postconditions.result) {
+      return this.fail(capabilityId, 'postcondition', {
+        reason: postconditions.reason!,
+        violations: postconditions.violations,
+        details: postconditions.details,
+        output
+      });
+    }
+
+    return {
+      capabilityId,
+      success: true,
+      output,
+      validation: {
+        result: true,
+        consensus: true,
+        details: {
+          capabilityId,
+          inputsChecked: capability.inputs.length,
+          outputsChecked: capability.outputs.length,
+          preconditionsChecked: capability.preconditions.length,
+          postconditionsChecked: capability.postconditions.length
+        }
+      },
+      violations: [],
+      errors: [],
+      stage: 'completed'
+    };
+  }
+
+  private fail(
+    capabilityId: string,
+    stage: CapabilityInvocation['stage'],
+    failure: InvocationFailure
+  ): CapabilityInvocation {
+    const errors = failure.errors ?? [];
+    const details: Record<string, string | number | boolean> = { ...failure.details, capabilityId, stage };
+    if (errors.length > 0) {
+      details.invalidParameters = errors.map(error => error.parameter).join(',');
+    }
+
+    return {
+      capabilityId,
+      success: false,
+      output: failure.output,
+      validation: {
+        result: false,
+        consensus: false,
+        reason: failure.reason,
+        details
+      },
+      violations: failure.violations ?? [],
+      errors,
+      stage
+    };
+  }
+}
@@ -0,0 +1,518 @@
+// src/specifications/ConditionExpression.ts
+// Safe expression language for Condition.expression. Expressions are parsed
+// into an AST and interpreted; nothing is ever passed to eval or Function.
+//
+//   expression  := or
+//   or          := and (('||' | 'or') and)*
+//   and         := not (('&&' | 'and') not)*
+//   not         := ('!' | 'not') not | comparison
+//   comparison  := additive (('==' | '!=' | '<' | '<=' | '>' | '>=' | 'in') additive)?
+//   additive    := term (('+' | '-') term)*
+//   term        := unary (('*' | '/' | '%') unary)*
+//   unary       := '-' unary | primary
+//   primary     := number | string | 'true' | 'false' | 'null' | list
+//                | call | path | '(' expression ')'
+//   call        := identifier '(' (expression (',' expression)*)? ')'
+//   path        := identifier ('.' identifier | '[' expression ']')*
+
+import { Condition, ValidationResult } from '../agents/AgentContract';
+
+export type ConditionScope = Record<string, unknown>;
+
+export type ConditionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'list'; items: ConditionNode[] }
+  | { type: 'path'; root: string; segments: Array<string | ConditionNode> }
+  | { type: 'call'; name: string; args: ConditionNode[] }
+  | { type: 'unary'; operator: '!' | '-'; operand: ConditionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ConditionNode; right: ConditionNode };
+
+type BinaryOperator =
+  | '||' | '&&'
+  | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in'
+  | '+' | '-' | '*' | '/' | '%';
+
+interface Token {
+  kind: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+export class ConditionSyntaxError extends Error {
+  constructor(message: string, readonly expression: string, readonly position: number) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+export class ConditionEvaluationError extends Error {
+  constructor(message: string, readonly expression: string) {
+    super(`${message} in "${expression}"`);
+    this.name = 'ConditionEvaluationError';
+  }
+}
+
+export interface ConditionViolation {
+  conditionId: string;
+  expression: string;
+  operator: Condition['operator'];
+  reason: string;
+}
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', ',', '.'];
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!', in: 'in' };
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+// Functions callable from expressions; kept side-effect free
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  len: value => typeof value === 'string' || Array.isArray(value)
+    ? value.length
+    : value && typeof value === 'object' ? Object.keys(value).length : 0,
+  exists: value => value !== undefined && value !== null,
+  lower: value => String(value).toLowerCase(),
+  upper: value => String(value).toUpperCase(),
+  startsWith: (value, prefix) => String(value).startsWith(String(prefix)),
+  endsWith: (value, suffix) => String(value).endsWith(String(suffix)),
+  contains: (value, item) => typeof value === 'string'
+    ? value.includes(String(item))
+    : Array.isArray(value) && value.some(entry => isEqual(entry, item))
+};
+
+// Most-recently-used expressions last; the oldest are evicted once the cache
+// holds PARSE_CACHE_SIZE entries, so ad hoc expressions cannot grow it forever
+export const PARSE_CACHE_SIZE = 500;
+const parseCache: Map<string, ConditionNode> = new Map();
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const char = expression[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(expression.slice(position))!;
+      tokens.push({ kind: 'number', value: match[0], position });
+      position += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = position + 1;
+      while (end < expression.length && expression[end] !== char) {
+        if (expression[end] === '\\' && end + 1 < expression.length) {
+          end++;
+        }
+        value += expression[end];
+        end++;
+      }
+      if (end >= expression.length) {
+        throw new ConditionSyntaxError('Unterminated string', expression, position);
+      }
+      tokens.push({ kind: 'string', value, position });
+      position = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(expression.slice(position))!;
+      const word = match[0];
+      tokens.push(hasOwn(WORD_OPERATORS, word)
+        ? { kind: 'operator', value: WORD_OPERATORS[word], position }
+        : { kind: 'identifier', value: word, position });
+      position += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => expression.startsWith(candidate, position));
+    if (!operator) {
+      throw new ConditionSyntaxError(`Unexpected character '${char}'`, expression, position);
+    }
+    tokens.push({ kind: 'operator', value: operator, position });
+    position += operator.length;
+  }
+
+  tokens.push({ kind: 'end', value: '', position });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly expression: string) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    if (this.peek().kind !== 'end') {
+      this.fail(`Unexpected '${this.peek().value}'`);
+    }
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let node = this.parseAnd();
+    while (this.matchOperator('||')) {
+      node = { type: 'binary', operator: '||', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ConditionNode {
+    let node = this.parseNot();
+    while (this.matchOperator('&&')) {
+      node = { type: 'binary', operator: '&&', left: node, right: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.matchOperator('!')) {
+      return { type: 'unary', operator: '!', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseAdditive();
+    for (const operator of ['==', '!=', '<=', '>=', '<', '>', 'in'] as const) {
+      if (this.matchOperator(operator)) {
+        return { type: 'binary', operator, left, right: this.parseAdditive() };
+      }
+    }
+    return left;
+  }
+
+  private parseAdditive(): ConditionNode {
+    let node = this.parseTerm();
+    for (;;) {
+      const operator = this.matchOperator('+') ? '+' : this.matchOperator('-') ? '-' : undefined;
+      if (!operator) return node;
+      node = { type: 'binary', operator, left: node, right: this.parseTerm() };
+    }
+  }
+
+  private parseTerm(): ConditionNode {
+    let node = this.parseUnary();
+    for (;;) {
+      const operator = (['*', '/', '%'] as const).find(candidate => this.matchOperator(candidate));
+      if (!operator) return node;
+      node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): ConditionNode {
+    if (this.matchOperator('-')) {
+      return { type: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (hasOwn(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+        if (this.matchOperator('(')) {
+          return this.parseCall(token);
+        }
+        return this.parsePath(token.value);
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: ConditionNode[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              items.push(this.parseOr());
+            } while (this.matchOperator(','));
+            this.expectOperator(']');
+          }
+          return { type: 'list', items };
+        }
+        break;
+      default:
+        break;
+    }
+
+    return this.fail(token.kind === 'end' ? 'Unexpected end of expression' : `Unexpected '${token.value}'`, token);
+  }
+
+  private parseCall(name: Token): ConditionNode {
+    if (!hasOwn(FUNCTIONS, name.value)) {
+      this.fail(`Unknown function '${name.value}'`, name);
+    }
+    const args: ConditionNode[] = [];
+    if (!this.matchOperator(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchOperator(','));
+      this.expectOperator(')');
+    }
+    return { type: 'call', name: name.value, args };
+  }
+
+  private parsePath(root: string): ConditionNode {
+    const segments: Array<string | ConditionNode> = [];
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const property = this.next();
+        if (property.kind !== 'identifier') {
+          this.fail('Expected property name after "."', property);
+        }
+        segments.push(property.value);
+      } else if (this.matchOperator('[')) {
+        segments.push(this.parseOr());
+        this.expectOperator(']');
+      } else {
+        return { type: 'path', root, segments };
+      }
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      this.fail(`Expected '${value}'`);
+    }
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new ConditionSyntaxError(message, this.expression, token.position);
+  }
+}
+
+/**
+ * Parses an expression into its AST. Results are kept in a small LRU cache
+ * per expression string, so repeated checks of the same condition only parse once.
+ */
+export function parseCondition(expression: string): ConditionNode {
+  const cached = parseCache.get(expression);
+  if (cached) {
+    parseCache.delete(expression);
+    parseCache.set(expression, cached);
+    return cached;
+  }
+
+  const node = new Parser(tokenize(expression), expression).parse();
+  parseCache.set(expression, node);
+  while (parseCache.size > PARSE_CACHE_SIZE) {
+    parseCache.delete(parseCache.keys().next().value as string);
+  }
+  return node;
+}
+
+export function evaluateCondition(expression: string, scope: ConditionScope): unknown {
+  return evaluateNode(parseCondition(expression), scope, expression);
+}
+
+/**
+ * Checks conditions with the semantics of Condition.operator: 'and'
+ * conditions must hold, 'not' conditions must not hold, and at least one
+ * 'or' condition must hold when any are declared. Malformed expressions
+ * count as violations rather than throwing.
+ */
+export function checkConditions(
+  conditions: Condition[],
+  scope: ConditionScope,
+  kind: string = 'condition'
+): ValidationResult & { violations: ConditionViolation[] } {
+  const violations: ConditionViolation[] = [];
+  const alternatives: ConditionViolation[] = [];
+  let alternativeHeld = false;
+
+  for (const condition of conditions) {
+    let holds: boolean;
+    try {
+      holds = !!evaluateCondition(condition.expression, scope);
+    } catch (error) {
+      violations.push({
+        conditionId: condition.id,
+        expression: condition.expression,
+        operator: condition.operator,
+        reason: (error as Error).message
+      });
+      continue;
+    }
+
+    if (condition.operator === 'or') {
+      alternativeHeld = alternativeHeld || holds;
+      if (!holds) {
+        alternatives.push({
+          conditionId: condition.id,
+          expression: condition.expression,
+          operator: condition.operator,
+          reason: `None of the alternative ${kind}s held`
+        });
+      }
+    } else if (condition.operator === 'not' ? holds : !holds) {
+      violations.push({
+        conditionId: condition.id,
+        expression: condition.expression,
+        operator: condition.operator,
+        reason: condition.operator === 'not'
+          ? `Expected ${kind} to be false`
+          : `Expected ${kind} to be true`
+      });
+    }
+  }
+
+  if (!alternativeHeld) {
+    violations.push(...alternatives);
+  }
+
+  return {
+    result: violations.length === 0,
+    consensus: violations.length === 0,
+    reason: violations.length > 0
+      ? violations.map(violation => `${kind} ${violation.conditionId} violated: ${violation.expression}`).join('; ')
+      : undefined,
+    details: {
+      conditionsChecked: conditions.length,
+      conditionsViolated: violations.length,
+      violatedExpressions: violations.map(violation => violation.expression).join(' | ')
+    },
+    violations
+  };
+}
+
+function evaluateNode(node: ConditionNode, scope: ConditionScope, expression: string): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'list':
+      return node.items.map(item => evaluateNode(item, scope, expression));
+    case 'path': {
+      let current: unknown = readProperty(scope, node.root);
+      for (const segment of node.segments) {
+        const key = typeof segment === 'string' ? segment : evaluateNode(segment, scope, expression);
+        current = readProperty(current, String(key));
+      }
+      return current;
+    }
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, scope, expression)));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope, expression);
+      return node.operator === '!' ? !operand : -toNumber(operand, expression);
+    }
+    case 'binary':
+      return evaluateBinary(node, scope, expression);
+  }
+}
+
+function evaluateBinary(
+  node: Extract<ConditionNode, { type: 'binary' }>,
+  scope: ConditionScope,
+  expression: string
+): unknown {
+  // Logical operators short-circuit like their JavaScript counterparts
+  if (node.operator === '&&') {
+    const left = evaluateNode(node.left, scope, expression);
+    return left ? evaluateNode(node.right, scope, expression) : left;
+  }
+  if (node.operator === '||') {
+    const left = evaluateNode(node.left, scope, expression);
+    return left ? left : evaluateNode(node.right, scope, expression);
+  }
+
+  const left = evaluateNode(node.left, scope, expression);
+  const right = evaluateNode(node.right, scope, expression);
+
+  switch (node.operator) {
+    case '==': return isEqual(left, right);
+    case '!=': return !isEqual(left, right);
+    case '<': return compare(left, right, expression) < 0;
+    case '<=': return compare(left, right, expression) <= 0;
+    case '>': return compare(left, right, expression) > 0;
+    case '>=': return compare(left, right, expression) >= 0;
+    case 'in':
+      if (Array.isArray(right)) return right.some(item => isEqual(item, left));
+      if (typeof right === 'string') return right.includes(String(left));
+      if (right && typeof right === 'object') return hasOwn(right, String(left));
+      return false;
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? `${left}${right}`
+        : toNumber(left, expression) + toNumber(right, expression);
+    case '-': return toNumber(left, expression) - toNumber(right, expression);
+    case '*': return toNumber(left, expression) * toNumber(right, expression);
+    case '/': return toNumber(left, expression) / toNumber(right, expression);
+    case '%': return toNumber(left, expression) % toNumber(right, expression);
+  }
+}
+
+// Only own properties are visible, so expressions cannot reach prototypes
+function readProperty(target: unknown, key: string): unknown {
+  if (target === null || target === undefined) return undefined;
+  if (typeof target === 'string' && key === 'length') return target.length;
+  if (typeof target !== 'object') return undefined;
+  return hasOwn(target, key) ? (target as Record<string, unknown>)[key] : undefined;
+}
+
+function hasOwn(target: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function toNumber(value: unknown, expression: string): number {
+  if (typeof value === 'number') return value;
+  throw new ConditionEvaluationError(`Expected a number but got ${describe(value)}`, expression);
+}
+
+function compare(left: unknown, right: unknown, expression: string): number {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  if (typeof left === 'string' && typeof right === 'string') return left < right ? -1 : left > right ? 1 : 0;
+  throw new ConditionEvaluationError(`Cannot compare ${describe(left)} with ${describe(right)}`, expression);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+  }
+  return false;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,205 @@
+// src/specifications/ParameterValidation.ts
+// Checks capability payloads against their Parameter declarations: required
+// fields, declared types and per-parameter validation rules.
+
+import { Parameter, ValidationContext } from '../agents/AgentContract';
+
+export type ParameterDirection = 'input' | 'output';
+
+export interface ParameterError {
+  capabilityId: string;
+  parameter: string;
+  direction: ParameterDirection;
+  code: 'required' | 'type' | 'validation';
+  message: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface ParameterValidationOptions {
+  environment?: ValidationContext['environment'];
+}
+
+export class CapabilityValidationError extends Error {
+  constructor(readonly capabilityId: string, readonly errors: ParameterError[]) {
+    super(`Invalid payload for capability ${capabilityId}: ${errors.map(error => error.message).join('; ')}`);
+    this.name = 'CapabilityValidationError';
+  }
+}
+
+/**
+ * Checks a value against a declared parameter type. Supports primitives,
+ * 'integer', 'date', 'object'/'record', 'array', 'T[]', 'Array<T>',
+ * 'Record<string, T>' and unions ('string | null'). Named domain types
+ * cannot be checked structurally and always match.
+ */
+export function matchesParameterType(value: unknown, type: string): boolean {
+  const normalized = type.trim();
+
+  const alternatives = splitTopLevel(normalized, '|');
+  if (alternatives.length > 1) {
+    return alternatives.some(alternative => matchesParameterType(value, alternative));
+  }
+
+  if (normalized.endsWith('[]')) {
+    return Array.isArray(value) && value.every(item => matchesParameterType(item, normalized.slice(0, -2)));
+  }
+
+  const generic = /^(\w+)\s*<(.+)>$/.exec(normalized);
+  if (generic) {
+    const [, name, args] = generic;
+    if (name.toLowerCase() === 'array') {
+      return Array.isArray(value) && value.every(item => matchesParameterType(item, args));
+    }
+    if (name.toLowerCase() === 'record') {
+      const valueType = splitTopLevel(args, ',')[1] ?? 'unknown';
+      return isPlainObject(value) && Object.values(value).every(item => matchesParameterType(item, valueType));
+    }
+    return true;
+  }
+
+  switch (normalized.toLowerCase()) {
+    case 'string':
+    case 'boolean':
+      return typeof value === normalized.toLowerCase();
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'date':
+      return value instanceof Date
+        ? !isNaN(value.getTime())
+        : typeof value === 'string' && !isNaN(Date.parse(value));
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+    case 'record':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validates a payload against parameter declarations and returns every
+ * problem found, each naming the capability and the parameter at fault.
+ */
+export function validateParameters(
+  capabilityId: string,
+  direction: ParameterDirection,
+  parameters: Parameter[],
+  payload: unknown,
+  options: ParameterValidationOptions = {}
+): ParameterError[] {
+  if (parameters.length === 0) return [];
+
+  if (!isPlainObject(payload)) {
+    return [{
+      capabilityId,
+      parameter: '*',
+      direction,
+      code: 'type',
+      expected: 'object',
+      actual: describeValue(payload),
+      message: `Capability ${capabilityId} ${direction} must be an object, got ${describeValue(payload)}`
+    }];
+  }
+
+  const errors: ParameterError[] = [];
+  for (const parameter of parameters) {
+    const value = payload[parameter.name];
+    const prefix = `Capability ${capabilityId} ${direction} ${parameter.name}`;
+
+    if (value === undefined) {
+      if (parameter.required) {
+        errors.push({
+          capabilityId,
+          parameter: parameter.name,
+          direction,
+          code: 'required',
+          expected: parameter.type,
+          message: `${prefix} is required`
+        });
+      }
+      continue;
+    }
+
+    if (!matchesParameterType(value, parameter.type)) {
+      errors.push({
+        capabilityId,
+        parameter: parameter.name,
+        direction,
+        code: 'type',
+        expected: parameter.type,
+        actual: describeValue(value),
+        message: `${prefix}: expected ${parameter.type}, got ${describeValue(value)}`
+      });
+      continue;
+    }
+
+    if (parameter.validation) {
+      const rule = parameter.validation;
+      let reason: string | undefined;
+      try {
+        const result = rule.validator({
+          data: value,
+          context: {
+            agentId: capabilityId,
+            domain: `${direction}.${parameter.name}`,
+            timestamp: new Date(),
+            environment: options.environment ?? 'development'
+          },
+          rules: [rule]
+        });
+        reason = result.result ? undefined : result.reason ?? rule.errorMessage;
+      } catch (error) {
+        reason = (error as Error).message;
+      }
+
+      if (reason !== undefined) {
+        errors.push({
+          capabilityId,
+          parameter: parameter.name,
+          direction,
+          code: 'validation',
+          message: `${prefix} failed ${rule.name || rule.id}: ${reason}`
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  return typeof value;
+}
+
+// Splits on a separator that is not nested inside <...>
+function splitTopLevel(type: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of type) {
+    if (char === '<') depth++;
+    if (char === '>') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+  return parts;
+}
@@ -1,10 +1,17 @@
 // src/specifications/SpecificationEngine.ts
 import { 
+  AgentContract,
   AgentSpecification, 
+  AgentSnapshotState,
+  AgentStatus,
+  DesignArtifact,
+  SnapshotParticipant,
   TraceEvent,
+  UserInteraction,
   ValidationResult, 
   ValidationRule
 } from '../agents/AgentContract';
+import { parseCondition } from './ConditionExpression';
 
 export interface SpecificationValidator {
   validateSyntax(spec: AgentSpecification): ValidationResult;
@@ -113,12 +120,28 @@ export interface VersioningPlan {
   migrationGuide?: string;
 }
 
-export class SpecificationEngine implements SpecificationValidator, CodeGenerator, ChangeControl {
+// Shape of the state SpecificationEngine contributes to backup snapshots
+interface SpecificationEngineSnapshotState {
+  specifications: AgentSpecification[];
+  changeHistory: SpecificationChange[];
+}
+
+export class SpecificationEngine implements SpecificationValidator, CodeGenerator, ChangeControl, AgentContract, SnapshotParticipant {
+  readonly id: string;
+  readonly role = 'SpecificationEngine';
+  readonly dependencies: string[] = [];
+  
+  private status: AgentStatus = {
+    status: 'initializing',
+    uptime: 0
+  };
+  private startTime: number = Date.now();
   private specifications: Map<string, AgentSpecification> = new Map();
   private validationRules: ValidationRule[] = [];
   private changeHistory: SpecificationChange[] = [];
   
-  constructor() {
+  constructor(id: string = 'specification-engine') {
+    this.id = id;
     this.initializeValidationRules();
   }
   
@@ -176,6 +199,14 @@ export class SpecificationEngine implements SpecificationValidator, CodeGenerato
           errors.push(`Capability ${capability.id} has invalid output definition`);
         }
       }
+
+      // Conditions must be valid expressions so they can be checked at invocation time
+      for (const condition of [...capability.preconditions, ...capability.postconditions]) {
+        const syntaxError = this.findConditionSyntaxError(condition.expression);
+        if (syntaxError) {
+          errors.push(`Capability ${capability.id} condition ${condition.id} is invalid: ${syntaxError}`);
+        }
+      }
     }
     
     // Validate interfaces
@@ -201,6 +232,13 @@ export class SpecificationEngine implements SpecificationValidator, CodeGenerato
       if (behavior.actions.length === 0) {
         errors.push(`Behavior ${behavior.id} has no actions defined`);
       }
+
+      for (const condition of behavior.conditions) {
+        const syntaxError = this.findConditionSyntaxError(condition.expression);
+        if (syntaxError) {
+          errors.push(`Behavior ${behavior.id} condition ${condition.id} is invalid: ${syntaxError}`);
+        }
+      }
     }
     
     return {
@@ -760,6 +798,15 @@ await agent.handleEvent('${behavior.trigger.type}', { /* payload */ });`);
     return Math.ceil(base);
   }
 
+  private findConditionSyntaxError(expression: string): string | undefined {
+    try {
+      parseCondition(expression);
+      return undefined;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
   private determineApprovers(change: SpecificationChange): string[] {
     // Determine required approvers based on impact and type
     const approvers: string[] = ['tech-lead'];
@@ -1066,6 +1113,8 @@ ${changes.filter(c => c.impact === 'critical').map(c => `- ${c.description}`).jo
     // (In production, load from DB or file)
     this.specifications = new Map();
     this.changeHistory = [];
+    this.startTime = Date.now();
+    this.status = { status: 'ready', uptime: 0 };
   }
 
   async handleEvent(eventType: string, payload: unknown): Promise<void> {
@@ -1127,6 +1176,7 @@ ${changes.filter(c => c.impact === 'critical').map(c => `- ${c.description}`).jo
   async shutdown(): Promise<void> {
     // Persist state and cleanup
     console.log('[SpecificationEngine] Shutting down. Persisting state...');
+    this.status = { status: 'shutting-down', uptime: Date.now() - this.startTime };
     // (In production, save to DB or file)
     this.specifications.clear();
     this.changeHistory = [];
@@ -1144,4 +1194,105 @@ ${changes.filter(c => c.impact === 'critical').map(c => `- ${c.description}`).jo
     };
     console.log('[SpecificationEngine] Trace event:', trace);
   }
-} 
\ No newline at end of file
+
+  getStatus(): AgentStatus {
+    return {
+      ...this.status,
+      uptime: this.status.status === 'ready'
+        ? Date.now() - this.startTime
+        : this.status.uptime
+    };
+  }
+
+  validateSpecification(spec: AgentSpecification): ValidationResult {
+    const results = [
+      this.validateSyntax(spec),
+      this.validateSemantics(spec),
+      this.validateCompleteness(spec)
+    ];
+    const failures = results.filter(r => !r.result);
+    
+    return {
+      result: failures.length === 0,
+      consensus: results.every(r => r.consensus),
+      reason: failures.length > 0 ? failures.map(r => r.reason).join('; ') : undefined,
+      details: {
+        specificationId: spec.id,
+        validationResults: results.length
+      }
+    };
+  }
+
+  // Validates the specification and, only if it passes, registers it so it
+  // shows up in generateDesignArtifacts and snapshots
+  registerSpecification(spec: AgentSpecification): ValidationResult {
+    const validation = this.validateSpecification(spec);
+    if (validation.result) {
+      this.specifications.set(spec.id, spec);
+    }
+    return validation;
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    // One specification artifact per registered specification, carrying its generated docs
+    return Array.from(this.specifications.values()).map(spec => ({
+      id: `spec-artifact-${spec.id}`,
+      type: 'specification' as const,
+      content: {
+        type: 'specification' as const,
+        data: { documentation: this.generateDocumentation(spec) },
+        metadata: { agentId: this.id, specificationId: spec.id },
+        schema: 'specification-artifact-v1'
+      },
+      version: '1.0.0',
+      createdAt: new Date(),
+      validatedBy: [this.id]
+    }));
+  }
+
+  trackUserInteraction(interaction: UserInteraction): void {
+    this.emitTrace({
+      timestamp: new Date(),
+      eventType: 'user.interaction.tracked',
+      payload: {
+        interactionId: interaction.id,
+        userId: interaction.userId,
+        sessionId: interaction.sessionId,
+        action: interaction.action,
+        context: interaction.context,
+        timestamp: interaction.timestamp,
+        outcome: interaction.outcome,
+        feedback: interaction.feedback,
+        correlationId: interaction.sessionId,
+        sourceAgent: this.id
+      },
+      metadata: { sourceAgent: this.id }
+    });
+  }
+
+  // Snapshot participation
+
+  captureSnapshotState(): AgentSnapshotState {
+    const state: SpecificationEngineSnapshotState = {
+      specifications: Array.from(this.specifications.values()),
+      changeHistory: this.changeHistory
+    };
+
+    return {
+      state,
+      dependencies: [...this.dependencies],
+      capability: 'specification-management',
+      designIntent: 'Preserve registered specifications and their change history'
+    };
+  }
+
+  restoreSnapshotState(state: unknown): void {
+    const snapshot = state as Partial<SpecificationEngineSnapshotState>;
+
+    this.specifications = new Map((snapshot.specifications ?? []).map(spec => [spec.id, spec]));
+    this.changeHistory = (snapshot.changeHistory ?? []).map(change => ({
+      ...change,
+      timestamp: change.timestamp ? new Date(change.timestamp) : undefined
+    }));
+  }
+}
@@ -0,0 +1,191 @@
+// test/alexOrchestratorAgent.test.ts
+// Tests for the Alex DAG orchestrator agent
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AlexOrchestratorAgent, DAGSpec } from '../src/agents/AlexOrchestratorAgent';
+import { AikoCAS, DAGNode } from '../src/backup/ContentAddressableStorage';
+import { AgentSpecification } from '../src/agents/AgentContract';
+
+const buildNode = (id: string, capability: string, deps: string[] = []): DAGNode => ({
+  id,
+  hash: '',
+  deps,
+  metadata: {
+    agentRole: 'Worker',
+    capability,
+    inputHashes: [],
+    outputHashes: [],
+    computationTime: 0,
+    memoryUsage: 0,
+    validationResult: { result: true, consensus: true },
+    designIntent: 'Process data',
+    userRequirement: 'Data is processed'
+  },
+  status: 'pending',
+  agentId: 'worker-1',
+  traceId: `trace-${id}`
+});
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('AlexOrchestratorAgent', () => {
+  let storagePath: string;
+  let cas: AikoCAS;
+  let alex: AlexOrchestratorAgent;
+
+  beforeEach(async () => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'alex-orchestrator-'));
+    cas = new AikoCAS(storagePath);
+    alex = new AlexOrchestratorAgent('alex-1', cas, { maxConcurrency: 2 });
+    await alex.initialize();
+
+    alex.registerExecutor('load', async ({ node }) => ({ source: node.id, values: [1, 2, 3] }));
+    alex.registerExecutor('sum', async ({ inputs }) => {
+      const values = Object.values(inputs).flatMap(input => (input as { values: number[] }).values);
+      return { total: values.reduce((a, b) => a + b, 0) };
+    });
+    alex.registerExecutor('explode', async () => {
+      throw new Error('executor exploded');
+    });
+  });
+
+  afterEach(async () => {
+    await alex.shutdown();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should execute nodes in dependency order and store outputs in CAS', async () => {
+    const dag: DAGSpec = {
+      id: 'dag-sum',
+      nodes: {
+        left: buildNode('left', 'load'),
+        right: buildNode('right', 'load'),
+        total: buildNode('total', 'sum', ['left'])
+      },
+      edges: [{ from: 'right', to: 'total', type: 'data-flow', metadata: {} }]
+    };
+
+    const result = await alex.orchestrateWorkflow(dag);
+
+    expect(result.status).toBe('completed');
+    expect(result.completed.indexOf('total')).toBe(2);
+    expect(Object.values(dag.nodes).every(node => node.status === 'completed')).toBe(true);
+
+    const total = dag.nodes.total;
+    expect(total.metadata.inputHashes).toEqual([result.outputs.left, result.outputs.right]);
+    expect(total.metadata.outputHashes).toEqual([total.hash]);
+    expect(await cas.retrieve(total.hash)).toEqual({ total: 12 });
+    expect(alex.generateDesignArtifacts()[0].content.metadata.status).toBe('completed');
+  });
+
+  it('should run independent nodes concurrently up to the limit', async () => {
+    let active = 0;
+    let peak = 0;
+    alex.registerExecutor('slow', async ({ node }) => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(20);
+      active--;
+      return { node: node.id };
+    });
+
+    const nodes: Record<string, DAGNode> = {};
+    for (let i = 0; i < 5; i++) {
+      nodes[`slow-${i}`] = buildNode(`slow-${i}`, 'slow');
+    }
+
+    const result = await alex.orchestrateWorkflow({ id: 'dag-parallel', nodes });
+
+    expect(result.status).toBe('completed');
+    expect(result.completed).toHaveLength(5);
+    expect(peak).toBe(2);
+  });
+
+  it('should report node failures and skip their dependents', async () => {
+    const dag: DAGSpec = {
+      id: 'dag-failure',
+      nodes: {
+        ok: buildNode('ok', 'load'),
+        broken: buildNode('broken', 'explode'),
+        downstream: buildNode('downstream', 'sum', ['broken']),
+        unregistered: buildNode('unregistered', 'unknown-capability')
+      }
+    };
+
+    const result = await alex.orchestrateWorkflow(dag);
+
+    expect(result.status).toBe('failed');
+    expect(result.completed).toEqual(['ok']);
+    expect(result.failed).toEqual([
+      { nodeId: 'broken', error: 'executor exploded' },
+      { nodeId: 'unregistered', error: 'No executor registered for capability: unknown-capability' }
+    ]);
+    expect(result.skipped).toEqual(['downstream']);
+    expect(dag.nodes.broken.status).toBe('failed');
+    expect(dag.nodes.broken.metadata.validationResult.reason).toBe('executor exploded');
+    expect(dag.nodes.downstream.status).toBe('pending');
+  });
+
+  it('should skip every node downstream of a failure declared before it', async () => {
+    const dag: DAGSpec = {
+      id: 'dag-reverse',
+      nodes: {
+        c: buildNode('c', 'sum', ['b']),
+        b: buildNode('b', 'sum', ['a']),
+        a: buildNode('a', 'explode')
+      }
+    };
+
+    const result = await alex.orchestrateWorkflow(dag);
+
+    expect(result.status).toBe('failed');
+    expect(result.failed).toEqual([{ nodeId: 'a', error: 'executor exploded' }]);
+    expect(result.skipped.sort()).toEqual(['b', 'c']);
+    expect(result.deadlocked).toEqual([]);
+  });
+
+  it('should detect deadlocks from cycles and unknown dependencies', async () => {
+    const dag: DAGSpec = {
+      id: 'dag-deadlock',
+      nodes: {
+        free: buildNode('free', 'load'),
+        a: buildNode('a', 'load', ['b']),
+        b: buildNode('b', 'load', ['a']),
+        orphan: buildNode('orphan', 'load', ['missing-node']),
+        afterCycle: buildNode('afterCycle', 'sum', ['a'])
+      }
+    };
+
+    const result = await alex.orchestrateWorkflow(dag);
+
+    expect(result.status).toBe('deadlocked');
+    expect(result.completed).toEqual(['free']);
+    expect(result.deadlocked.sort()).toEqual(['a', 'afterCycle', 'b', 'orphan']);
+    expect(dag.nodes.a.status).toBe('pending');
+  });
+
+  it('should orchestrate registered workflows on dag.orchestrate events', async () => {
+    alex.registerWorkflow({ id: 'dag-event', nodes: { only: buildNode('only', 'load') } });
+
+    await alex.handleEvent('dag.orchestrate', {
+      dagId: 'dag-event',
+      operation: 'orchestrate',
+      timestamp: new Date()
+    });
+
+    expect(alex.getResult('dag-event')?.status).toBe('completed');
+  });
+
+  it('should validate that every capability has an executor', () => {
+    const spec = {
+      id: 'worker-spec',
+      capabilities: [{ id: 'load' }, { id: 'transform' }]
+    } as unknown as AgentSpecification;
+
+    const result = alex.validateSpecification(spec);
+    expect(result.result).toBe(false);
+    expect(result.reason).toContain('transform');
+  });
+});
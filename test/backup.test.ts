@@ -10,8 +10,13 @@ import {
   DAGEdge,
   RegenerationPolicy
 } from '../src/backup/ContentAddressableStorage';
+import { AikoAgent } from '../src/agents/AikoAgent';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { Readable } from 'stream';
+import { readAll } from './fixtures';
 
 describe('AikoRyu Backup System', () => {
   let cas: ContentAddressableStorage;
@@ -23,6 +28,7 @@ describe('AikoRyu Backup System', () => {
     cas = new AikoCAS(testStoragePath);
     dag = new RyuMetadataDAG(path.join(testStoragePath, 'metadata'));
     backupManager = new AikoRyuBackupManager(testStoragePath);
+    backupManager.registerAgent(new AikoAgent('aiko-1'));
   });
 
   afterEach(async (): Promise<void> => {
@@ -68,12 +74,12 @@ describe('AikoRyu Backup System', () => {
       const content1 = { id: 'agent-1', status: 'ready' };
       const content2 = { id: 'agent-2', status: 'computing' };
       
-      await cas.store(content1);
-      await cas.store(content2);
+      const hash1 = await cas.store(content1);
+      const hash2 = await cas.store(content2);
       
       const hashes = await cas.list();
       expect(hashes.length).toBe(2);
-      expect(hashes.every(hash => hash.endsWith('.json'))).toBe(true);
+      expect(hashes.sort()).toEqual([hash1, hash2].sort());
     });
 
     it('should delete content by hash', async (): Promise<void> => {
@@ -87,6 +93,16 @@ describe('AikoRyu Backup System', () => {
       expect(cas.exists(hash)).toBe(false);
     });
 
+    it('should record the size of non-ASCII content in bytes', async (): Promise<void> => {
+      const testContent = { greeting: 'olá, 世界 🌏' };
+
+      const hash = await cas.store(testContent);
+
+      const blob = JSON.parse(fs.readFileSync(path.join(testStoragePath, 'blobs', `${hash}.json`), 'utf-8'));
+      expect(blob.metadata.size).toBe(Buffer.byteLength(JSON.stringify(testContent)));
+      expect(blob.metadata.size).toBeGreaterThan(JSON.stringify(testContent).length);
+    });
+
     it('should handle duplicate content with same hash', async (): Promise<void> => {
       const testContent = { id: 'duplicate-test', data: 'same-content' };
       
@@ -98,6 +114,130 @@ describe('AikoRyu Backup System', () => {
     });
   });
 
+  describe('Streaming content (AikoCAS)', () => {
+    let streamingCas: AikoCAS;
+
+    beforeEach((): void => {
+      streamingCas = new AikoCAS(testStoragePath);
+    });
+
+    it('should store binary buffers addressed by the sha256 of their bytes', async (): Promise<void> => {
+      const bytes = Buffer.from([0x00, 0xff, 0x10, 0x80, 0x7f]);
+
+      const hash = await streamingCas.storeStream(bytes, { artifact: 'weights.bin' });
+
+      expect(hash).toBe(crypto.createHash('sha256').update(bytes).digest('hex'));
+      expect(streamingCas.exists(hash)).toBe(true);
+      expect(await readAll(await streamingCas.retrieveStream(hash))).toEqual(bytes);
+
+      const info = await streamingCas.statStream(hash);
+      expect(info.size).toBe(5);
+      expect(info.metadata).toEqual({ artifact: 'weights.bin' });
+    });
+
+    it('should hash large readable streams incrementally', async (): Promise<void> => {
+      const chunk = Buffer.alloc(64 * 1024, 'log line\n');
+      const expected = crypto.createHash('sha256');
+      for (let i = 0; i < 32; i++) expected.update(chunk);
+
+      const hash = await streamingCas.storeStream(Readable.from(Array.from({ length: 32 }, () => chunk)));
+
+      expect(hash).toBe(expected.digest('hex'));
+      expect((await streamingCas.statStream(hash)).size).toBe(32 * chunk.length);
+      expect((await readAll(await streamingCas.retrieveStream(hash))).length).toBe(32 * chunk.length);
+    });
+
+    it('should leave no partial blob behind when the source stream fails', async (): Promise<void> => {
+      const failing = new Readable({
+        read(): void {
+          this.push(Buffer.from('partial'));
+          this.destroy(new Error('source disconnected'));
+        }
+      });
+
+      await expect(streamingCas.storeStream(failing)).rejects.toThrow('source disconnected');
+      expect(fs.readdirSync(path.join(testStoragePath, 'streams'))).toEqual([]);
+      expect(await streamingCas.list()).toEqual([]);
+    });
+
+    it('should list and delete streamed blobs alongside JSON content', async (): Promise<void> => {
+      const jsonHash = await streamingCas.store({ kind: 'json' });
+      const binaryHash = await streamingCas.storeStream(Buffer.from('binary'));
+
+      expect((await streamingCas.list()).sort()).toEqual([jsonHash, binaryHash].sort());
+
+      expect(await streamingCas.delete(binaryHash)).toBe(true);
+      expect(streamingCas.exists(binaryHash)).toBe(false);
+      await expect(streamingCas.retrieveStream(binaryHash)).rejects.toThrow(`Content not found for hash: ${binaryHash}`);
+      expect(await streamingCas.list()).toEqual([jsonHash]);
+    });
+  });
+
+  describe('Chunking and deduplication (AikoCAS)', () => {
+    let chunkedCas: AikoCAS;
+
+    // Roughly 200 KB of JSON whose records differ from each other
+    const buildPayload = (marker: string): Record<string, unknown> => ({
+      marker,
+      records: Array.from({ length: 2000 }, (_, i) => ({
+        id: i,
+        digest: crypto.createHash('sha256').update(`record-${i}`).digest('hex')
+      }))
+    });
+
+    beforeEach((): void => {
+      chunkedCas = new AikoCAS(testStoragePath, { chunkThreshold: 16 * 1024 });
+    });
+
+    it('should store large payloads as shared chunks and reassemble them', async (): Promise<void> => {
+      const payload = buildPayload('v1');
+      const hash = await chunkedCas.store(payload);
+
+      expect(await chunkedCas.retrieve(hash)).toEqual(payload);
+      const [entry] = await chunkedCas.listEntries();
+      expect(entry.chunks?.length).toBeGreaterThan(1);
+    });
+
+    it('should deduplicate payloads that differ by a few bytes', async (): Promise<void> => {
+      await chunkedCas.store(buildPayload('v1'));
+      const single = await chunkedCas.getStats();
+      await chunkedCas.store(buildPayload('v2'));
+
+      const stats = await chunkedCas.getStats();
+      expect(stats.objects).toBe(2);
+      expect(stats.logicalSize).toBe(2 * single.logicalSize);
+      expect(stats.physicalSize).toBeLessThan(single.physicalSize * 1.2);
+      expect(stats.dedupRatio).toBeGreaterThan(1.6);
+    });
+
+    it('should keep chunks still referenced by other objects on delete', async (): Promise<void> => {
+      const first = await chunkedCas.store(buildPayload('v1'));
+      const second = await chunkedCas.store(buildPayload('v2'));
+
+      await chunkedCas.delete(first);
+      expect(await chunkedCas.retrieve(second)).toEqual(buildPayload('v2'));
+
+      await chunkedCas.delete(second);
+      expect(await chunkedCas.getStats()).toEqual({ objects: 0, chunks: 0, logicalSize: 0, physicalSize: 0, dedupRatio: 1 });
+    });
+
+    it('should chunk streamed content and stream it back', async (): Promise<void> => {
+      const bytes = Buffer.from(JSON.stringify(buildPayload('stream')));
+      const hash = await chunkedCas.storeStream(Readable.from([bytes.subarray(0, 5000), bytes.subarray(5000)]));
+
+      expect((await chunkedCas.statStream(hash)).chunks?.length).toBeGreaterThan(1);
+      expect(await readAll(await chunkedCas.retrieveStream(hash))).toEqual(bytes);
+    });
+
+    it('should store everything whole when chunking is disabled', async (): Promise<void> => {
+      const wholeCas = new AikoCAS(testStoragePath, { chunking: false });
+      const hash = await wholeCas.store(buildPayload('v1'));
+
+      expect((await wholeCas.getStats()).chunks).toBe(0);
+      expect(await wholeCas.retrieve(hash)).toEqual(buildPayload('v1'));
+    });
+  });
+
   describe('Metadata DAG (RyuMetadataDAG)', () => {
     it('should create snapshots with DAG metadata', async (): Promise<void> => {
       const nodes: Record<string, DAGNode> = {
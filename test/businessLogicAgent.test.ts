@@ -0,0 +1,199 @@
+// test/businessLogicAgent.test.ts
+// Tests for the behavior-executing business logic agent
+
+import { BusinessLogicAgent } from '../src/agents/BusinessLogicAgent';
+import { EventBus } from '../src/events/EventBus';
+import { AgentSpecification, Behavior } from '../src/agents/AgentContract';
+
+const buildSpec = (behaviors: Behavior[]): AgentSpecification => ({
+  id: 'orders-agent',
+  role: 'Orders',
+  dependencies: [],
+  capabilities: [],
+  interfaces: [],
+  behaviors,
+  constraints: [],
+  validationRules: [],
+  designIntent: {
+    purpose: 'Process orders',
+    userGoals: [],
+    successMetrics: [],
+    designPrinciples: [],
+    accessibilityRequirements: []
+  },
+  userRequirements: []
+});
+
+const approveOrder: Behavior = {
+  id: 'approve-order',
+  name: 'Approve order',
+  description: 'Approves orders placed by verified users',
+  trigger: { type: 'event', value: 'user.interaction.*', description: 'Any user interaction' },
+  actions: [
+    { id: 'mark', type: 'state-change', target: 'order', parameters: { approved: true } },
+    { id: 'notify', type: 'event', target: 'order.approved', parameters: { channel: 'email' } },
+    { id: 'bill', type: 'function', target: 'charge', parameters: { amount: 100 } }
+  ],
+  conditions: [
+    { id: 'verified', expression: 'payload.context.verified', description: 'User is verified', operator: 'and' },
+    { id: 'not-failed', expression: 'payload.feedback', description: 'No complaint', operator: 'not' }
+  ],
+  outcomes: [
+    { id: 'done', type: 'success', description: 'Order approved', nextActions: ['ship-order'] },
+    { id: 'partly', type: 'partial', description: 'Order approved without billing', nextActions: ['retry-billing'] }
+  ]
+};
+
+const interaction = (context: Record<string, string | number | boolean>, feedback?: string) => ({
+  interactionId: 'i-1',
+  userId: 'u-1',
+  sessionId: 's-1',
+  action: 'checkout',
+  context,
+  outcome: 'success' as const,
+  feedback,
+  timestamp: new Date(),
+  correlationId: 'corr-1'
+});
+
+describe('BusinessLogicAgent', () => {
+  let bus: EventBus;
+  let agent: BusinessLogicAgent;
+
+  beforeEach(async () => {
+    bus = new EventBus();
+    agent = new BusinessLogicAgent('logic-1', buildSpec([approveOrder]), { bus });
+    await agent.initialize();
+  });
+
+  afterEach(async () => {
+    await agent.shutdown();
+  });
+
+  it('should run event-triggered behaviors and record their outcome', async () => {
+    const published: string[] = [];
+    bus.subscribe('order.*', (_payload, eventType) => { published.push(eventType); });
+    agent.registerFunction('charge', parameters => ({ charged: parameters.amount }));
+
+    await agent.handleEvent('user.interaction.track', interaction({ verified: true }));
+
+    const [execution] = agent.getExecutions('approve-order');
+    expect(execution.conditionsMet).toBe(true);
+    expect(execution.actions.map(action => action.success)).toEqual([true, true, true]);
+    expect(execution.actions[2].output).toEqual({ charged: 100 });
+    expect(execution.outcomeType).toBe('success');
+    expect(execution.nextActions).toEqual(['ship-order']);
+    expect(agent.getState().order).toEqual({ approved: true });
+    expect(published).toEqual(['order.approved']);
+  });
+
+  it('should record partial outcomes when some actions fail', async () => {
+    await agent.handleEvent('user.interaction.track', interaction({ verified: true }));
+
+    const [execution] = agent.getExecutions();
+    expect(execution.actions[2]).toEqual(expect.objectContaining({
+      success: false,
+      error: 'No function registered: charge'
+    }));
+    expect(execution.outcomeType).toBe('partial');
+    expect(execution.nextActions).toEqual(['retry-billing']);
+  });
+
+  it('should not report events as delivered without a bus', async () => {
+    const standalone = new BusinessLogicAgent('logic-2', buildSpec([approveOrder]));
+    await standalone.initialize();
+    standalone.registerFunction('charge', () => true);
+
+    await standalone.handleEvent('user.interaction.track', interaction({ verified: true }));
+
+    const [execution] = standalone.getExecutions();
+
+    expect(execution.actions[1]).toEqual(expect.objectContaining({
+      success: false,
+      error: 'No event bus attached; order.approved was not delivered'
+    }));
+    expect(execution.outcomeType).toBe('partial');
+    await standalone.shutdown();
+  });
+
+  it('should skip behaviors whose conditions do not hold', async () => {
+    await agent.handleEvent('user.interaction.track', interaction({ verified: false }));
+    await agent.handleEvent('user.interaction.track', interaction({ verified: true }, 'too slow'));
+    await agent.handleEvent('design.artifact.generate', {
+      designId: 'd-1',
+      action: 'generate',
+      timestamp: new Date()
+    });
+
+    const executions = agent.getExecutions();
+    expect(executions).toHaveLength(2);
+    expect(executions.every(execution => !execution.conditionsMet && execution.actions.length === 0)).toBe(true);
+    expect(agent.getState().order).toBeUndefined();
+  });
+
+  it('should fire condition triggers when their condition becomes true', async () => {
+    const shipped: number[] = [];
+    agent.registerFunction('ship', () => shipped.push(shipped.length + 1));
+    agent.loadSpecification(buildSpec([
+      {
+        id: 'open-order',
+        name: 'Open order',
+        description: 'Opens an order manually',
+        trigger: { type: 'manual', value: '', description: 'Operator action' },
+        actions: [{ id: 'open', type: 'state-change', target: 'ready', parameters: { value: true } }],
+        conditions: [],
+        outcomes: []
+      },
+      {
+        id: 'ship-order',
+        name: 'Ship order',
+        description: 'Ships ready orders',
+        trigger: { type: 'condition', value: 'state.ready', description: 'Order is ready' },
+        actions: [{ id: 'ship', type: 'function', target: 'ship', parameters: {} }],
+        conditions: [],
+        outcomes: []
+      }
+    ]));
+
+    await agent.executeBehavior('open-order');
+    await agent.executeBehavior('open-order');
+
+    expect(shipped).toEqual([1]);
+    expect(agent.getExecutions().map(execution => execution.behaviorId))
+      .toEqual(['open-order', 'ship-order', 'open-order']);
+  });
+
+  it('should run scheduled behaviors until shutdown', async () => {
+    let ticks = 0;
+    agent.registerFunction('tick', () => ++ticks);
+    agent.loadSpecification(buildSpec([{
+      id: 'heartbeat',
+      name: 'Heartbeat',
+      description: 'Ticks periodically',
+      trigger: { type: 'schedule', value: '10ms', description: 'Every 10ms' },
+      actions: [{ id: 'tick', type: 'function', target: 'tick', parameters: {} }],
+      conditions: [],
+      outcomes: []
+    }]));
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    await agent.shutdown();
+    const afterShutdown = ticks;
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(afterShutdown).toBeGreaterThan(0);
+    expect(ticks).toBe(afterShutdown);
+  });
+
+  it('should reject invalid behavior specifications', async () => {
+    expect(() => agent.loadSpecification(buildSpec([
+      { ...approveOrder, trigger: { type: 'schedule', value: 'often', description: '' } },
+      { ...approveOrder, actions: [] }
+    ]))).toThrow(/invalid schedule: often; Duplicate behavior id: approve-order; .*has no actions/);
+    expect(() => agent.loadSpecification(buildSpec([
+      { ...approveOrder, trigger: { type: 'schedule', value: '600h', description: '' } }
+    ]))).toThrow('schedule 600h exceeds the maximum of 2147483647ms');
+
+    await expect(agent.executeBehavior('missing')).rejects.toThrow('Unknown behavior: missing');
+  });
+});
@@ -0,0 +1,45 @@
+// test/canonicalJson.test.ts
+// Tests for the canonical serialisation behind CAS content hashes
+
+import { canonicalJson } from '../src/backup/CanonicalJson';
+import { computeContentHash } from '../src/backup/ContentAddressableStorage';
+
+describe('canonicalJson', () => {
+  it('should sort object keys at every depth and keep array order', () => {
+    expect(canonicalJson({ b: 2, a: { d: [3, 1], c: null } })).toBe('{"a":{"c":null,"d":[3,1]},"b":2}');
+  });
+
+  it('should normalise numbers the way a JSON round-trip does', () => {
+    expect(canonicalJson([-0, 1.5e21, 0.1 + 0.2, NaN, -Infinity])).toBe('[0,1.5e+21,0.30000000000000004,null,null]');
+  });
+
+  it('should serialise dates and other toJSON values', () => {
+    const date = new Date('2026-01-02T03:04:05.678Z');
+    const value = { toJSON: (): unknown => ({ z: 1, y: 2 }) };
+
+    expect(canonicalJson({ at: date, value })).toBe('{"at":"2026-01-02T03:04:05.678Z","value":{"y":2,"z":1}}');
+  });
+
+  it('should drop unserialisable members like JSON.stringify', () => {
+    expect(canonicalJson({ keep: 1, skip: undefined, fn: (): void => undefined })).toBe('{"keep":1}');
+    expect(canonicalJson([undefined, 'x'])).toBe('[null,"x"]');
+  });
+
+  it('should reject values JSON cannot represent', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => canonicalJson(circular)).toThrow('circular');
+    expect(() => canonicalJson({ big: BigInt(1) })).toThrow('bigint');
+    expect(() => canonicalJson(undefined)).toThrow('Cannot canonicalise');
+  });
+
+  it('should give logically equal content the same hash', () => {
+    const original = { a: 1, b: 2, when: new Date('2026-01-01T00:00:00.000Z') };
+    const reordered = { when: '2026-01-01T00:00:00.000Z', b: 2, a: 1 };
+
+    expect(computeContentHash(original)).toBe(computeContentHash(reordered));
+    expect(computeContentHash(JSON.parse(JSON.stringify(original)))).toBe(computeContentHash(original));
+    expect(computeContentHash({ a: 1 })).not.toBe(computeContentHash({ a: '1' }));
+  });
+});
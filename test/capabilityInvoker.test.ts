@@ -0,0 +1,115 @@
+// test/capabilityInvoker.test.ts
+// Tests for capability invocation behind declared parameters and conditions
+
+import { CapabilityInvoker } from '../src/specifications/CapabilityInvoker';
+import { CapabilityValidationError } from '../src/specifications/ParameterValidation';
+import { AgentSpecification } from '../src/agents/AgentContract';
+
+const spec = {
+  id: 'payments-agent',
+  capabilities: [{
+    id: 'charge',
+    name: 'Charge',
+    description: 'Charges a customer',
+    inputs: [
+      { name: 'amount', type: 'number', required: true, description: 'Amount to charge' },
+      { name: 'reference', type: 'string', required: false, description: 'Payment reference' }
+    ],
+    outputs: [{ name: 'status', type: 'string', required: true, description: 'Charge status' }],
+    preconditions: [
+      { id: 'positive', expression: 'inputs.amount > 0', description: 'Amount is positive', operator: 'and' },
+      { id: 'within-limit', expression: 'inputs.amount <= state.limit', description: 'Within limit', operator: 'and' }
+    ],
+    postconditions: [
+      { id: 'charged', expression: 'outputs.status == "charged"', description: 'Charge succeeded', operator: 'and' },
+      { id: 'balance', expression: 'state.balance >= 0', description: 'Balance stays positive', operator: 'and' }
+    ]
+  }]
+} as unknown as AgentSpecification;
+
+describe('CapabilityInvoker', () => {
+  let state: { limit: number; balance: number };
+  let invoker: CapabilityInvoker;
+  let calls: number;
+
+  beforeEach(() => {
+    state = { limit: 500, balance: 300 };
+    calls = 0;
+    invoker = new CapabilityInvoker(spec, () => state);
+    invoker.register('charge', inputs => {
+      calls++;
+      state.balance -= inputs.amount as number;
+      return { status: 'charged' };
+    });
+  });
+
+  it('should run capabilities whose conditions hold', async () => {
+    const result = await invoker.invoke('charge', { amount: 100 });
+
+    expect(result.success).toBe(true);
+    expect(result.stage).toBe('completed');
+    expect(result.output).toEqual({ status: 'charged' });
+    expect(state.balance).toBe(200);
+  });
+
+  it('should not run the implementation when a precondition fails', async () => {
+    const result = await invoker.invoke('charge', { amount: 900 });
+
+    expect(result.success).toBe(false);
+    expect(result.stage).toBe('precondition');
+    expect(result.validation.reason).toBe('precondition within-limit violated: inputs.amount <= state.limit');
+    expect(result.violations[0].expression).toBe('inputs.amount <= state.limit');
+    expect(calls).toBe(0);
+  });
+
+  it('should check postconditions against outputs and the updated state', async () => {
+    const result = await invoker.invoke('charge', { amount: 400 });
+
+    expect(result.success).toBe(false);
+    expect(result.stage).toBe('postcondition');
+    expect(result.output).toEqual({ status: 'charged' });
+    expect(result.validation.reason).toContain('state.balance >= 0');
+    expect(result.validation.details?.stage).toBe('postcondition');
+  });
+
+  it('should report implementation errors and unknown capabilities', async () => {
+    invoker.register('charge', () => {
+      throw new Error('gateway timeout');
+    });
+
+    expect((await invoker.invoke('charge', { amount: 10 })).validation.reason).toBe('gateway timeout');
+    expect((await invoker.invoke('refund', {})).stage).toBe('execution');
+    expect(() => invoker.register('refund', () => undefined)).toThrow('Unknown capability: refund');
+  });
+
+  it('should reject malformed inputs before preconditions run', async () => {
+    const result = await invoker.invoke('charge', { amount: '100', reference: 7 });
+
+    expect(result.success).toBe(false);
+    expect(result.stage).toBe('input');
+    expect(result.errors.map(error => [error.parameter, error.code])).toEqual([['amount', 'type'], ['reference', 'type']]);
+    expect(result.validation.reason).toContain('Capability charge input amount: expected number, got string');
+    expect(result.validation.details?.invalidParameters).toBe('amount,reference');
+    expect(calls).toBe(0);
+  });
+
+  it('should throw structured errors when configured to fail fast', async () => {
+    const strict = new CapabilityInvoker(spec, () => state, { throwOnInvalidInput: true });
+    strict.register('charge', () => ({ status: 'charged' }));
+
+    const error = await strict.invoke('charge', {}).catch(e => e);
+    expect(error).toBeInstanceOf(CapabilityValidationError);
+    expect(error.capabilityId).toBe('charge');
+    expect(error.errors[0]).toEqual(expect.objectContaining({ parameter: 'amount', code: 'required' }));
+  });
+
+  it('should validate outputs against declared parameters', async () => {
+    invoker.register('charge', () => ({ status: 200 }));
+
+    const result = await invoker.invoke('charge', { amount: 10 });
+
+    expect(result.stage).toBe('output');
+    expect(result.output).toEqual({ status: 200 });
+    expect(result.errors[0]).toEqual(expect.objectContaining({ direction: 'output', parameter: 'status' }));
+  });
+});
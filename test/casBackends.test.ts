@@ -0,0 +1,145 @@
+// test/casBackends.test.ts
+// Runs the CAS conformance suite against every backend, plus backend specifics
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { AikoCAS } from '../src/backup/ContentAddressableStorage';
+import { MemoryCAS } from '../src/backup/MemoryCAS';
+import * as MetadataJournal from '../src/backup/MetadataJournal';
+import { SQLiteCAS } from '../src/backup/SQLiteCAS';
+import { TieredCAS } from '../src/backup/TieredCAS';
+import { describeCASConformance } from './casConformance';
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'cas-backend-'));
+}
+
+describeCASConformance('AikoCAS', async () => {
+  const dir = tempDir();
+  return { cas: new AikoCAS(dir), cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+});
+
+describeCASConformance('MemoryCAS', async () => ({ cas: new MemoryCAS() }));
+
+describeCASConformance('SQLiteCAS (in memory)', async () => {
+  const cas = await SQLiteCAS.open();
+  return { cas, cleanup: () => cas.close() };
+});
+
+describeCASConformance('SQLiteCAS (file)', async () => {
+  const dir = tempDir();
+  const cas = await SQLiteCAS.open(path.join(dir, 'cas.db'));
+  return {
+    cas,
+    cleanup: async (): Promise<void> => {
+      await cas.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+});
+
+describeCASConformance('TieredCAS', async () => ({ cas: new TieredCAS(new MemoryCAS(), { maxCacheEntries: 2 }) }));
+
+describeCASConformance('TieredCAS (over AikoCAS)', async () => {
+  const dir = tempDir();
+  return {
+    cas: new TieredCAS(new AikoCAS(dir), { maxCacheEntries: 2 }),
+    cleanup: () => fs.rmSync(dir, { recursive: true, force: true })
+  };
+});
+
+describe('CAS backend specifics', () => {
+  let dir: string;
+
+  beforeEach((): void => {
+    dir = tempDir();
+  });
+
+  afterEach((): void => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should evict least recently used entries from a bounded MemoryCAS', async (): Promise<void> => {
+    const cas = new MemoryCAS({ maxEntries: 2 });
+    const first = await cas.store({ id: 1 });
+    const second = await cas.store({ id: 2 });
+
+    await cas.retrieve(first);
+    await cas.store({ id: 3 });
+
+    expect(cas.size).toBe(2);
+    expect(cas.exists(first)).toBe(true);
+    expect(cas.exists(second)).toBe(false);
+  });
+
+  it('should persist a SQLiteCAS database across reopen', async (): Promise<void> => {
+    const dbPath = path.join(dir, 'nested', 'cas.db');
+    const cas = await SQLiteCAS.open(dbPath);
+    const hash = await cas.store({ durable: true });
+    await cas.close();
+
+    const reopened = await SQLiteCAS.open(dbPath);
+    expect(await reopened.retrieve(hash)).toEqual({ durable: true });
+    expect(fs.readdirSync(path.dirname(dbPath))).toEqual(['cas.db']);
+    await reopened.close();
+
+    await expect(reopened.list()).rejects.toThrow('SQLiteCAS is closed');
+  });
+
+  it('should save SQLiteCAS writes before they resolve, sharing saves that overlap', async (): Promise<void> => {
+    const dbPath = path.join(dir, 'cas.db');
+    const cas = await SQLiteCAS.open(dbPath);
+    const save = jest.spyOn(MetadataJournal, 'writeFileAtomic');
+
+    const hashes = await Promise.all([1, 2, 3].map(id => cas.store({ id })));
+    expect(save).toHaveBeenCalledTimes(1);
+    const reopened = await SQLiteCAS.open(dbPath);
+    expect((await reopened.list()).sort()).toEqual([...hashes].sort());
+    await reopened.close();
+
+    save.mockRejectedValueOnce(new Error('disk full'));
+    await expect(cas.store({ id: 4 })).rejects.toThrow('disk full');
+    // The next save retries the change
+    await cas.delete(hashes[0]);
+    await cas.close();
+    const retried = await SQLiteCAS.open(dbPath);
+    expect(await retried.list()).toHaveLength(3);
+    await retried.close();
+
+    // Instances saving the same file at once do not share a temp file
+    const writers = await Promise.all([SQLiteCAS.open(dbPath), SQLiteCAS.open(dbPath)]);
+    await Promise.all(writers.map((writer, i) => writer.store({ writer: i })));
+    await Promise.all(writers.map(writer => writer.close()));
+    expect(fs.readdirSync(dir)).toEqual(['cas.db']);
+  });
+
+  it('should record SQLiteCAS sizes in bytes', async (): Promise<void> => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const cas = await SQLiteCAS.open();
+    const content = { greeting: 'olá, 世界' };
+
+    await cas.store(content);
+
+    expect(log.mock.calls[0][1]).toMatchObject({ payload: { size: Buffer.byteLength(JSON.stringify(content)) } });
+    await cas.close();
+  });
+
+  it('should serve repeated reads from the TieredCAS cache', async (): Promise<void> => {
+    const backing = await SQLiteCAS.open(path.join(dir, 'backing.db'));
+    const hash = await backing.store({ warm: 'up' });
+    const cas = new TieredCAS(backing, { maxCacheEntries: 1 });
+
+    expect(await cas.retrieve(hash)).toEqual({ warm: 'up' });
+    expect(await cas.retrieve(hash)).toEqual({ warm: 'up' });
+    expect(cas.getStats()).toEqual({ hits: 1, misses: 1 });
+
+    // Evicted from the single-entry cache but still served by the backing store
+    await cas.store({ other: true });
+    expect(await cas.retrieve(hash)).toEqual({ warm: 'up' });
+    expect(cas.getStats()).toEqual({ hits: 1, misses: 2 });
+    await backing.close();
+  });
+});
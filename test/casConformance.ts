@@ -0,0 +1,99 @@
+// test/casConformance.ts
+// Shared behaviour every ContentAddressableStorage backend must satisfy
+
+import { ContentAddressableStorage, computeContentHash } from '../src/backup/ContentAddressableStorage';
+
+export interface CASFixture {
+  cas: ContentAddressableStorage;
+  cleanup?: () => Promise<void> | void;
+}
+
+export function describeCASConformance(name: string, createFixture: () => Promise<CASFixture>): void {
+  describe(`${name} conformance`, () => {
+    let fixture: CASFixture;
+    let cas: ContentAddressableStorage;
+
+    beforeEach(async (): Promise<void> => {
+      fixture = await createFixture();
+      cas = fixture.cas;
+    });
+
+    afterEach(async (): Promise<void> => {
+      await fixture.cleanup?.();
+    });
+
+    it('should address content by its sha256 hash', async (): Promise<void> => {
+      const content = { agentId: 'aiko-1', status: 'ready' };
+
+      const hash = await cas.store(content);
+
+      expect(hash).toBe(computeContentHash(content));
+      expect(cas.exists(hash)).toBe(true);
+    });
+
+    it('should round-trip every JSON value shape', async (): Promise<void> => {
+      const values: unknown[] = [
+        { nested: { list: [1, 2, { deep: true }] } },
+        ['a', 1, null],
+        'plain string',
+        42,
+        null,
+        { text: 'ação — 日本語 🚀' }
+      ];
+
+      for (const value of values) {
+        const hash = await cas.store(value);
+        expect(await cas.retrieve(hash)).toEqual(value);
+      }
+    });
+
+    it('should deduplicate identical content', async (): Promise<void> => {
+      const first = await cas.store({ same: 'content' });
+      const second = await cas.store({ same: 'content' }, { note: 'stored twice' });
+
+      expect(second).toBe(first);
+      expect(await cas.list()).toEqual([first]);
+    });
+
+    it('should address content independently of key order', async (): Promise<void> => {
+      const first = await cas.store({ a: 1, nested: { y: true, x: [1, 2] } });
+      const second = await cas.store({ nested: { x: [1, 2], y: true }, a: 1 });
+
+      expect(second).toBe(first);
+      expect(await cas.list()).toEqual([first]);
+    });
+
+    it('should reject retrieval of unknown hashes', async (): Promise<void> => {
+      const missing = computeContentHash('never stored');
+
+      expect(cas.exists(missing)).toBe(false);
+      await expect(cas.retrieve(missing)).rejects.toThrow(`Content not found for hash: ${missing}`);
+    });
+
+    it('should delete content exactly once', async (): Promise<void> => {
+      const hash = await cas.store({ temporary: true });
+
+      expect(await cas.delete(hash)).toBe(true);
+      expect(await cas.delete(hash)).toBe(false);
+      expect(cas.exists(hash)).toBe(false);
+      expect(await cas.list()).toEqual([]);
+    });
+
+    it('should list the hashes of all stored content', async (): Promise<void> => {
+      const hashes = [await cas.store({ id: 1 }), await cas.store({ id: 2 }), await cas.store({ id: 3 })];
+
+      expect((await cas.list()).sort()).toEqual(hashes.sort());
+    });
+
+    it('should isolate stored content from caller mutation', async (): Promise<void> => {
+      const content = { items: ['a'] };
+      const hash = await cas.store(content);
+      content.items.push('b');
+
+      const retrieved = await cas.retrieve(hash) as { items: string[] };
+      retrieved.items.push('c');
+
+      expect(await cas.retrieve(hash)).toEqual({ items: ['a'] });
+    });
+  });
+}
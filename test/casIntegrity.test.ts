@@ -0,0 +1,156 @@
+// test/casIntegrity.test.ts
+// Tests for verify-on-read and fsck over the AikoCAS backup store
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Buffer } from 'buffer';
+import {
+  AikoCAS,
+  AikoRyuBackupManager,
+  CASIntegrityError,
+  RyuMetadataDAG
+} from '../src/backup/ContentAddressableStorage';
+import { BackupEventPayload, TraceEvent } from '../src/agents/AgentContract';
+import { buildNode, readAll } from './fixtures';
+
+describe('CAS integrity', () => {
+  let storagePath: string;
+
+  const tamper = (hash: string): void => {
+    const blobPath = path.join(storagePath, 'blobs', `${hash}.json`);
+    const blob = JSON.parse(fs.readFileSync(blobPath, 'utf-8'));
+    blob.content.status = 'tampered';
+    fs.writeFileSync(blobPath, JSON.stringify(blob));
+  };
+
+  beforeEach((): void => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'cas-integrity-'));
+  });
+
+  afterEach((): void => {
+    jest.restoreAllMocks();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  describe('verify on read', () => {
+    it('should refuse tampered content by default', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath);
+      const hash = await cas.store({ status: 'ok' });
+      tamper(hash);
+
+      const error = await cas.retrieve(hash).catch((e: CASIntegrityError) => e) as CASIntegrityError;
+      expect(error).toBeInstanceOf(CASIntegrityError);
+      expect(error.hash).toBe(hash);
+      expect(error.message).toContain(`Content integrity check failed for hash: ${hash}`);
+    });
+
+    it('should return content unchecked when verification is off', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath, { verifyOnRead: 'off' });
+      const hash = await cas.store({ status: 'ok' });
+      tamper(hash);
+
+      expect(await cas.retrieve(hash)).toEqual({ status: 'tampered' });
+    });
+
+    it('should verify only the sampled share of reads', async (): Promise<void> => {
+      const hash = await new AikoCAS(storagePath).store({ status: 'ok' });
+      tamper(hash);
+
+      const never = new AikoCAS(storagePath, { verifyOnRead: 'sample', verifySampleRate: 0 });
+      const always = new AikoCAS(storagePath, { verifyOnRead: 'sample', verifySampleRate: 1 });
+
+      expect(await never.retrieve(hash)).toEqual({ status: 'tampered' });
+      await expect(always.retrieve(hash)).rejects.toThrow(CASIntegrityError);
+    });
+
+    it('should fail a stream whose bytes no longer match its hash', async (): Promise<void> => {
+      const whole = new AikoCAS(storagePath, { chunking: false });
+      const hash = await whole.storeStream(Buffer.from('model weights'));
+      fs.writeFileSync(path.join(storagePath, 'streams', `${hash}.bin`), 'model weightz');
+
+      await expect(readAll(await whole.retrieveStream(hash))).rejects.toThrow(CASIntegrityError);
+    });
+
+    it('should fail a chunked stream with a corrupted chunk', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath);
+      const hash = await cas.storeStream(Buffer.from('log line\n'.repeat(100)));
+      const [chunk] = (await cas.statStream(hash)).chunks ?? [];
+      fs.writeFileSync(path.join(storagePath, 'chunks', `${chunk}.chunk`), 'garbage');
+
+      await expect(readAll(await cas.retrieveStream(hash))).rejects.toThrow(CASIntegrityError);
+      expect(await cas.verify(hash)).toEqual(expect.objectContaining({ kind: 'binary', valid: false }));
+    });
+  });
+
+  describe('verify', () => {
+    it('should describe valid, tampered and unreadable blobs', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath);
+      const good = await cas.store({ status: 'ok' });
+      const tampered = await cas.store({ status: 'fine' });
+      const unreadable = await cas.store({ status: 'gone' });
+      tamper(tampered);
+      fs.writeFileSync(path.join(storagePath, 'blobs', `${unreadable}.json`), '{ not json');
+
+      expect(await cas.verify(good)).toEqual({ hash: good, kind: 'json', valid: true });
+      expect((await cas.verify(tampered)).reason).toMatch(/^content hashes to [0-9a-f]{64}$/);
+      expect((await cas.verify(unreadable)).reason).toContain('unreadable');
+      await expect(cas.verify('0'.repeat(64))).rejects.toThrow('Content not found for hash');
+    });
+  });
+
+  describe('fsck', () => {
+    it('should report corrupt, orphaned and missing blobs', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath);
+      const dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+      const referenced = await cas.store({ status: 'ok' });
+      const orphan = await cas.store({ status: 'unused' });
+      const missing = 'e'.repeat(64);
+      const snapshot = await dag.createSnapshot(
+        { a: buildNode('a', referenced), b: buildNode('b', missing) },
+        [],
+        'fsck fixture'
+      );
+      tamper(referenced);
+
+      const report = await cas.fsck(await dag.listSnapshots());
+
+      expect(report.healthy).toBe(false);
+      expect(report.blobsChecked).toBe(2);
+      expect(report.snapshotsChecked).toBe(1);
+      expect(report.corruptBlobs).toEqual([{ hash: referenced, reason: expect.stringContaining('content hashes to') }]);
+      expect(report.orphanedBlobs).toEqual([orphan]);
+      expect(report.missingBlobs).toEqual([{ hash: missing, snapshotId: snapshot.id, nodeIds: ['b'] }]);
+      expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+    });
+
+    it('should emit a validate trace for every finding', async (): Promise<void> => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      const cas = new AikoCAS(storagePath);
+      const orphan = await cas.store({ status: 'unused' });
+
+      await cas.fsck([]);
+
+      const validations = log.mock.calls
+        .map(([, event]) => event as TraceEvent)
+        .filter(event => event?.eventType === 'cas.content.validated')
+        .map(event => event.payload as BackupEventPayload);
+      expect(validations).toEqual([expect.objectContaining({
+        hash: orphan,
+        operation: 'validate',
+        result: true,
+        reason: 'orphaned: not referenced by any snapshot'
+      })]);
+    });
+
+    it('should find a freshly snapshotted store healthy', async (): Promise<void> => {
+      const manager = new AikoRyuBackupManager(storagePath);
+      await manager.createSnapshot('healthy');
+
+      const report = await manager.fsck();
+
+      expect(report.healthy).toBe(true);
+      expect(report.orphanedBlobs).toEqual([]);
+    });
+  });
+});
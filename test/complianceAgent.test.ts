@@ -0,0 +1,174 @@
+// test/complianceAgent.test.ts
+// Tests for the compliance agent and its policy packs
+
+import {
+  COMPLIANCE_OFFICER,
+  ComplianceAgent,
+  PolicyPack,
+  businessPolicyPack
+} from '../src/agents/ComplianceAgent';
+import { AgentSpecification, Constraint } from '../src/agents/AgentContract';
+
+const buildSpec = (constraints: Constraint[], overrides: Partial<AgentSpecification> = {}): AgentSpecification => ({
+  id: 'payments-agent',
+  role: 'Payments',
+  dependencies: [],
+  capabilities: [{
+    id: 'charge',
+    name: 'Charge',
+    description: 'Charges a customer card',
+    inputs: [{ name: 'amount', type: 'number', required: true, description: 'Amount in cents' }],
+    outputs: [],
+    preconditions: [],
+    postconditions: []
+  }],
+  interfaces: [],
+  behaviors: [],
+  constraints,
+  validationRules: [],
+  designIntent: {
+    purpose: 'Take payments',
+    userGoals: [],
+    successMetrics: [],
+    designPrinciples: [],
+    accessibilityRequirements: []
+  },
+  userRequirements: [],
+  ...overrides
+});
+
+const constraint = (overrides: Partial<Constraint>): Constraint => ({
+  id: 'c-1',
+  type: 'security',
+  description: 'Card data is encrypted',
+  validationRule: 'payload.encrypted == true',
+  severity: 'medium',
+  ...overrides
+});
+
+describe('ComplianceAgent', () => {
+  let agent: ComplianceAgent;
+
+  beforeEach(async () => {
+    agent = new ComplianceAgent('compliance-1');
+    await agent.initialize();
+  });
+
+  afterEach(async () => {
+    await agent.shutdown();
+  });
+
+  it('should pass specifications whose constraints satisfy every pack', () => {
+    const result = agent.validateSpecification(buildSpec([
+      constraint({}),
+      constraint({ id: 'c-2', type: 'business', description: 'Refunds within 30 days' }),
+      constraint({ id: 'c-3', type: 'performance', validationRule: '' })
+    ]));
+
+    expect(result.result).toBe(true);
+    expect(result.escalatedTo).toBeUndefined();
+    expect(result.details?.packsEvaluated).toBe(2);
+  });
+
+  it('should report non-critical violations without escalating', () => {
+    const result = agent.validateSpecification(buildSpec([
+      constraint({ type: 'business', description: '', severity: 'low' })
+    ]));
+
+    expect(result.result).toBe(false);
+    expect(result.reason).toContain('c-1 has no description');
+    expect(result.escalatedTo).toBeUndefined();
+    expect(result.details?.highestSeverity).toBe('low');
+  });
+
+  it('should escalate critical violations to the compliance officer', () => {
+    const result = agent.validateSpecification(buildSpec([
+      constraint({ severity: 'critical' }),
+      constraint({ id: 'c-2', type: 'business', severity: 'critical' })
+    ]));
+
+    expect(result.result).toBe(false);
+    expect(result.escalatedTo).toBe(COMPLIANCE_OFFICER);
+    expect(result.details?.criticalViolations).toBe(2);
+    expect(String(result.details?.violatedRules).split(','))
+      .toEqual(['security-inputs-validated', 'business-critical-traceable']);
+  });
+
+  it('should evaluate events against event rules', async () => {
+    const leaked = agent.evaluateEvent('user.interaction.track', {
+      interactionId: 'i-1',
+      userId: 'u-1',
+      sessionId: 's-1',
+      action: 'login',
+      context: { password: 'hunter2', page: 'home' },
+      outcome: 'success',
+      timestamp: new Date()
+    });
+
+    expect(leaked.result).toBe(false);
+    expect(leaked.escalatedTo).toBe(COMPLIANCE_OFFICER);
+    expect(leaked.reason).toContain('password');
+
+    await agent.handleEvent('specification.validate', {
+      specificationId: 'payments-agent',
+      action: 'validate',
+      specification: buildSpec([constraint({})]),
+      timestamp: new Date()
+    });
+    expect(agent.getEvaluations().map(evaluation => evaluation.kind)).toEqual(['event', 'specification']);
+  });
+
+  it('should pass events whose context is null', () => {
+    // Events from the bus are not type-checked, so context may be null
+    const result = agent.evaluateEvent('user.interaction.track', {
+      interactionId: 'i-2',
+      userId: 'u-1',
+      sessionId: 's-1',
+      action: 'logout',
+      context: null as unknown as Record<string, string>,
+      outcome: 'success',
+      timestamp: new Date()
+    });
+
+    expect(result.result).toBe(true);
+  });
+
+  it('should load custom packs and reject duplicate rule ids', () => {
+    const custom: PolicyPack = {
+      id: 'gdpr',
+      name: 'GDPR',
+      version: '1.0.0',
+      rules: [{
+        id: 'gdpr-retention',
+        description: 'Personal data constraints must mention retention',
+        constraintTypes: ['business'],
+        checkConstraint: c => c.description.includes('retention') ? undefined : `${c.id} lacks retention`
+      }]
+    };
+    const scoped = new ComplianceAgent('compliance-2', [custom]);
+
+    expect(scoped.validateSpecification(buildSpec([constraint({ type: 'business' })])).reason)
+      .toBe('c-1 lacks retention');
+
+    expect(() => scoped.loadPolicyPack({
+      ...businessPolicyPack,
+      rules: [...businessPolicyPack.rules, businessPolicyPack.rules[0]]
+    })).toThrow('duplicate rules: business-constraint-described');
+
+    scoped.unloadPolicyPack('gdpr');
+    expect(scoped.validateSpecification(buildSpec([constraint({ type: 'business' })])).result).toBe(true);
+  });
+
+  it('should produce a compliance report artifact', () => {
+    agent.validateSpecification(buildSpec([constraint({ validationRule: '' })]));
+
+    const [report] = agent.generateDesignArtifacts();
+    expect(report.type).toBe('specification');
+    expect(report.content.metadata).toEqual(expect.objectContaining({
+      evaluationCount: 1,
+      violationCount: 1,
+      compliant: false
+    }));
+    expect(report.content.data.violationsBySeverity).toEqual({ low: 0, medium: 1, high: 0, critical: 0 });
+  });
+});
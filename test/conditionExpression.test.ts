@@ -0,0 +1,108 @@
+// test/conditionExpression.test.ts
+// Tests for the condition expression parser and evaluator
+
+import {
+  ConditionEvaluationError,
+  ConditionSyntaxError,
+  PARSE_CACHE_SIZE,
+  checkConditions,
+  evaluateCondition,
+  parseCondition
+} from '../src/specifications/ConditionExpression';
+import { Condition } from '../src/agents/AgentContract';
+
+const scope = {
+  inputs: { amount: 250, currency: 'EUR', tags: ['priority', 'b2b'], customer: { tier: 'gold' } },
+  outputs: { status: 'approved', errors: [] },
+  state: { limit: 1000, open: true }
+};
+
+const condition = (id: string, expression: string, operator: Condition['operator'] = 'and'): Condition => ({
+  id,
+  expression,
+  description: id,
+  operator
+});
+
+describe('ConditionExpression', () => {
+  it('should evaluate paths, literals and arithmetic', () => {
+    expect(evaluateCondition('inputs.customer.tier', scope)).toBe('gold');
+    expect(evaluateCondition('inputs.tags[1]', scope)).toBe('b2b');
+    expect(evaluateCondition('inputs.amount * 2 + 10 - state.limit % 300', scope)).toBe(410);
+    expect(evaluateCondition('-inputs.amount', scope)).toBe(-250);
+    expect(evaluateCondition('"a" + 1', scope)).toBe('a1');
+    expect(evaluateCondition('inputs.missing.deeper', scope)).toBeUndefined();
+  });
+
+  it('should evaluate comparisons and logical operators with precedence', () => {
+    expect(evaluateCondition('inputs.amount > 100 && inputs.amount <= state.limit', scope)).toBe(true);
+    expect(evaluateCondition('inputs.currency == "USD" || state.open and not outputs.errors[0]', scope)).toBe(true);
+    expect(evaluateCondition('!(inputs.amount >= 250)', scope)).toBe(false);
+    expect(evaluateCondition("inputs.currency in ['EUR', 'GBP']", scope)).toBe(true);
+    expect(evaluateCondition('"tier" in inputs.customer', scope)).toBe(true);
+    expect(evaluateCondition('outputs.errors == []', scope)).toBe(true);
+    expect(evaluateCondition('null == inputs.nothing', scope)).toBe(false);
+  });
+
+  it('should provide side-effect free helper functions', () => {
+    expect(evaluateCondition('len(inputs.tags) == 2', scope)).toBe(true);
+    expect(evaluateCondition('exists(outputs.status) && !exists(outputs.reason)', scope)).toBe(true);
+    expect(evaluateCondition('contains(inputs.tags, "b2b") && startsWith(lower(inputs.currency), "eu")', scope))
+      .toBe(true);
+  });
+
+  it('should not expose prototypes or globals', () => {
+    expect(evaluateCondition('inputs.constructor', scope)).toBeUndefined();
+    expect(evaluateCondition('inputs.__proto__', scope)).toBeUndefined();
+    expect(evaluateCondition('process', scope)).toBeUndefined();
+    expect(() => parseCondition('require("fs")')).toThrow(ConditionSyntaxError);
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseCondition('inputs.amount >')).toThrow('Unexpected end of expression at position 15');
+    expect(() => parseCondition('inputs.amount ; 1')).toThrow("Unexpected character ';' at position 14");
+    expect(() => parseCondition('"unterminated')).toThrow('Unterminated string');
+    expect(() => parseCondition('(inputs.amount')).toThrow("Expected ')'");
+  });
+
+  it('should cache parsed expressions and evict the least recently used', () => {
+    const kept = parseCondition('state.limit > 0');
+    const evicted = parseCondition('state.limit > 1');
+    expect(parseCondition('state.limit > 0')).toBe(kept);
+
+    for (let index = 0; index < PARSE_CACHE_SIZE - 1; index++) {
+      parseCondition(`inputs.amount == ${index}`);
+      parseCondition('state.limit > 0');
+    }
+
+    expect(parseCondition('state.limit > 0')).toBe(kept);
+    expect(parseCondition('state.limit > 1')).not.toBe(evicted);
+    expect(parseCondition('state.limit > 1')).toEqual(evicted);
+  });
+
+  it('should reject comparisons between incompatible types', () => {
+    expect(() => evaluateCondition('inputs.currency > 3', scope)).toThrow(ConditionEvaluationError);
+    expect(() => evaluateCondition('inputs.tags * 2', scope)).toThrow('Expected a number but got array');
+  });
+
+  it('should check conditions with their declared operators', () => {
+    const passing = checkConditions([
+      condition('positive', 'inputs.amount > 0'),
+      condition('no-errors', 'len(outputs.errors) > 0', 'not'),
+      condition('eur', 'inputs.currency == "EUR"', 'or'),
+      condition('usd', 'inputs.currency == "USD"', 'or')
+    ], scope);
+    expect(passing.result).toBe(true);
+
+    const failing = checkConditions([
+      condition('within-limit', 'inputs.amount > state.limit'),
+      condition('usd', 'inputs.currency == "USD"', 'or'),
+      condition('broken', 'inputs.amount >')
+    ], scope, 'precondition');
+
+    expect(failing.result).toBe(false);
+    expect(failing.violations.map(violation => violation.conditionId)).toEqual(['within-limit', 'broken', 'usd']);
+    expect(failing.reason).toContain('precondition within-limit violated: inputs.amount > state.limit');
+    expect(failing.details?.violatedExpressions).toContain('inputs.amount >');
+  });
+});
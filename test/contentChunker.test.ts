@@ -0,0 +1,69 @@
+// test/contentChunker.test.ts
+// Tests for content-defined chunking used by AikoCAS deduplication
+
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { ContentChunker, chunkContent, DEFAULT_CHUNKING } from '../src/backup/ContentChunker';
+
+// Deterministic pseudo-random bytes so chunk boundaries are reproducible
+function pseudoRandomBytes(length: number, seed: string): Buffer {
+  const blocks: Buffer[] = [];
+  for (let i = 0; blocks.length * 32 < length; i++) {
+    blocks.push(crypto.createHash('sha256').update(`${seed}-${i}`).digest());
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+function hashes(chunks: Buffer[]): string[] {
+  return chunks.map(chunk => crypto.createHash('sha256').update(chunk).digest('hex'));
+}
+
+describe('ContentChunker', () => {
+  const data = pseudoRandomBytes(512 * 1024, 'payload');
+
+  it('should split content into bounded chunks that reassemble exactly', () => {
+    const chunks = chunkContent(data);
+
+    expect(Buffer.concat(chunks)).toEqual(data);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.slice(0, -1).forEach(chunk => {
+      expect(chunk.length).toBeGreaterThanOrEqual(DEFAULT_CHUNKING.minSize);
+      expect(chunk.length).toBeLessThanOrEqual(DEFAULT_CHUNKING.maxSize);
+    });
+  });
+
+  it('should find the same boundaries however the input is fed', () => {
+    const chunker = new ContentChunker();
+    const streamed: Buffer[] = [];
+    for (let offset = 0; offset < data.length; offset += 1000) {
+      streamed.push(...chunker.push(data.subarray(offset, offset + 1000)));
+    }
+    streamed.push(...chunker.flush());
+
+    expect(hashes(streamed)).toEqual(hashes(chunkContent(data)));
+  });
+
+  it('should keep most chunks when a few bytes change in the middle', () => {
+    const edited = Buffer.from(data);
+    edited.write('EDITED', 200 * 1024);
+
+    const original = new Set(hashes(chunkContent(data)));
+    const changed = hashes(chunkContent(edited)).filter(hash => !original.has(hash));
+
+    expect(changed.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should keep unchanged chunks after an insertion shifts the content', () => {
+    const inserted = Buffer.concat([data.subarray(0, 1000), Buffer.from('inserted bytes'), data.subarray(1000)]);
+
+    const original = new Set(hashes(chunkContent(data)));
+    const shared = hashes(chunkContent(inserted)).filter(hash => original.has(hash));
+
+    expect(shared.length).toBeGreaterThanOrEqual(original.size - 2);
+  });
+
+  it('should reject inconsistent size options', () => {
+    expect(() => new ContentChunker({ avgSize: 5000 })).toThrow('power of two');
+    expect(() => new ContentChunker({ minSize: 16 * 1024 })).toThrow('0 < minSize < avgSize < maxSize');
+  });
+});
@@ -0,0 +1,285 @@
+// test/encryption.test.ts
+// Tests for AES-256-GCM encryption at rest of CAS blobs and snapshot metadata
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { Readable } from 'stream';
+import { AikoCAS, AikoRyuBackupManager, RyuMetadataDAG } from '../src/backup/ContentAddressableStorage';
+import {
+  DecryptionError,
+  EnvKeyProvider,
+  FileKeyProvider,
+  MemoryKeyProvider,
+  createEncryptionKey,
+  decrypt,
+  encrypt,
+  getKeyId,
+  isEncrypted
+} from '../src/backup/Encryption';
+import { AikoAgent } from '../src/agents/AikoAgent';
+import { readAll } from './fixtures';
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => entry.isDirectory()
+    ? listFiles(path.join(dir, entry.name))
+    : [path.join(dir, entry.name)]);
+}
+
+describe('Encryption at rest', () => {
+  const keyA = crypto.randomBytes(32);
+  const keyB = crypto.randomBytes(32);
+
+  describe('key providers', () => {
+    let keyFile: string;
+
+    afterEach((): void => {
+      if (keyFile) fs.rmSync(keyFile, { force: true });
+    });
+
+    it('should use the first key to encrypt and any key to decrypt', (): void => {
+      const provider = new EnvKeyProvider('BACKUP_KEYS', { BACKUP_KEYS: `${keyB.toString('hex')}, ${keyA.toString('base64')}` });
+
+      expect(provider.getActiveKey()).toEqual(createEncryptionKey(keyB));
+      expect(provider.getKey(createEncryptionKey(keyA).id)?.key).toEqual(keyA);
+      expect(provider.getKey('unknown')).toBeUndefined();
+      expect(() => new EnvKeyProvider('BACKUP_KEYS', {})).toThrow('No encryption keys in $BACKUP_KEYS');
+    });
+
+    it('should read keys from a file and pick up new ones on reload', (): void => {
+      keyFile = path.join(os.tmpdir(), `aikoryu-keys-${process.pid}`);
+      fs.writeFileSync(keyFile, `# backup keys\n${keyA.toString('hex')}\n\n`);
+      const provider = new FileKeyProvider(keyFile);
+      expect(provider.getActiveKey().key).toEqual(keyA);
+
+      fs.writeFileSync(keyFile, `${keyB.toString('hex')}\n${keyA.toString('hex')}\n`);
+      provider.reload();
+      expect(provider.getActiveKey().key).toEqual(keyB);
+      expect(provider.getKey(createEncryptionKey(keyA).id)).toBeDefined();
+    });
+
+    it('should keep retired keys when rotating in memory', (): void => {
+      const provider = new MemoryKeyProvider(keyA);
+      const active = provider.rotate(keyB);
+
+      expect(active.key).toEqual(keyB);
+      expect(provider.getActiveKey()).toEqual(active);
+      expect(provider.getKey(createEncryptionKey(keyA).id)).toBeDefined();
+      expect(() => new MemoryKeyProvider(crypto.randomBytes(16))).toThrow('Encryption keys must be 32 bytes, got 16');
+    });
+  });
+
+  describe('envelope', () => {
+    const provider = new MemoryKeyProvider(keyA);
+
+    it('should round-trip and record the key id', (): void => {
+      const sealed = encrypt(Buffer.from('secret'), provider.getActiveKey(), 'blobs/a.json');
+
+      expect(isEncrypted(sealed)).toBe(true);
+      expect(sealed.includes(Buffer.from('secret'))).toBe(false);
+      expect(getKeyId(sealed)).toBe(provider.getActiveKey().id);
+      expect(decrypt(sealed, provider, 'blobs/a.json').toString()).toBe('secret');
+    });
+
+    it('should pass plaintext through only without a key provider or when allowed', (): void => {
+      const plain = Buffer.from('{"plain":true}');
+      expect(decrypt(plain, undefined, 'blobs/a.json').toString()).toBe('{"plain":true}');
+      expect(decrypt(plain, provider, 'blobs/a.json', { allowPlaintext: true }).toString()).toBe('{"plain":true}');
+      expect(() => decrypt(plain, provider, 'blobs/a.json')).toThrow('Cannot decrypt blobs/a.json: file is not encrypted');
+      expect(getKeyId(Buffer.from('{}'))).toBeUndefined();
+    });
+
+    it('should reject tampering, another file\'s context and missing keys', (): void => {
+      const sealed = encrypt(Buffer.from('secret'), provider.getActiveKey(), 'blobs/a.json');
+      const tampered = Buffer.from(sealed);
+      tampered[tampered.length - 20] ^= 1;
+
+      expect(() => decrypt(tampered, provider, 'blobs/a.json')).toThrow('Cannot decrypt blobs/a.json: authentication failed');
+      expect(() => decrypt(sealed, provider, 'blobs/b.json')).toThrow(DecryptionError);
+      expect(() => decrypt(sealed, new MemoryKeyProvider(keyB), 'blobs/a.json')).toThrow(`key ${provider.getActiveKey().id} is not available`);
+      expect(() => decrypt(sealed, undefined, 'blobs/a.json')).toThrow('no key provider is configured');
+    });
+  });
+
+  describe('AikoCAS', () => {
+    let storagePath: string;
+    let provider: MemoryKeyProvider;
+
+    beforeEach((): void => {
+      storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-encryption-'));
+      provider = new MemoryKeyProvider(keyA);
+    });
+
+    afterEach((): void => {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should encrypt every file while keeping plaintext addresses', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath, { keyProvider: provider, chunkThreshold: 4096 });
+      const content = { secret: 'launch codes', padding: 'x'.repeat(20000) };
+      const bytes = crypto.randomBytes(50000);
+
+      const hash = await cas.store(content);
+      const small = await cas.store({ secret: 'small' });
+      const streamHash = await cas.storeStream(bytes);
+
+      expect(hash).toBe(await new AikoCAS(fs.mkdtempSync(path.join(storagePath, 'plain-'))).store(content));
+      expect(streamHash).toBe(crypto.createHash('sha256').update(bytes).digest('hex'));
+      for (const file of listFiles(storagePath).filter(file => !file.includes('plain-'))) {
+        const data = fs.readFileSync(file);
+        expect(isEncrypted(data)).toBe(true);
+        expect(data.includes(Buffer.from('secret'))).toBe(false);
+      }
+
+      expect(await cas.retrieve(hash)).toEqual(content);
+      expect(await cas.retrieve(small)).toEqual({ secret: 'small' });
+      expect((await readAll(await cas.retrieveStream(streamHash))).equals(bytes)).toBe(true);
+      expect((await cas.getStats()).chunks).toBeGreaterThan(0);
+    });
+
+    it('should stream whole encrypted files when chunking is off', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath, { keyProvider: provider, chunking: false });
+      const bytes = crypto.randomBytes(100000);
+      const hash = await cas.storeStream(Readable.from([bytes.subarray(0, 1000), bytes.subarray(1000)]));
+
+      expect(isEncrypted(fs.readFileSync(path.join(storagePath, 'streams', `${hash}.bin`)))).toBe(true);
+      expect((await readAll(await cas.retrieveStream(hash))).equals(bytes)).toBe(true);
+      expect((await cas.verify(hash)).valid).toBe(true);
+
+      const empty = await cas.storeStream(Buffer.alloc(0));
+      expect((await readAll(await cas.retrieveStream(empty))).length).toBe(0);
+    });
+
+    it('should report tampered ciphertext as corrupt', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath, { keyProvider: provider, chunking: false });
+      const hash = await cas.storeStream(Buffer.from('model weights'));
+      const binPath = path.join(storagePath, 'streams', `${hash}.bin`);
+      const data = fs.readFileSync(binPath);
+      data[data.length - 20] ^= 1;
+      fs.writeFileSync(binPath, data);
+
+      const verification = await cas.verify(hash);
+      expect(verification.valid).toBe(false);
+      expect(verification.reason).toContain('authentication failed');
+    });
+
+    it('should refuse to read an encrypted store without its key', async (): Promise<void> => {
+      const hash = await new AikoCAS(storagePath, { keyProvider: provider }).store({ secret: true });
+
+      await expect(new AikoCAS(storagePath).retrieve(hash)).rejects.toThrow(DecryptionError);
+      await expect(new AikoCAS(storagePath, { keyProvider: new MemoryKeyProvider(keyB) }).retrieve(hash))
+        .rejects.toThrow('is not available');
+    });
+
+    it('should re-encrypt existing blobs under a new key', async (): Promise<void> => {
+      const cas = new AikoCAS(storagePath, { keyProvider: provider, chunkThreshold: 4096 });
+      const hash = await cas.store({ padding: 'y'.repeat(20000) });
+      const streamHash = await new AikoCAS(storagePath, { keyProvider: provider, chunking: false })
+        .storeStream(Buffer.from('weights'));
+      const oldKeyId = provider.getActiveKey().id;
+
+      provider.rotate(keyB);
+      const report = await cas.rotateKey();
+      const files = listFiles(storagePath);
+
+      expect(report.keyId).toBe(createEncryptionKey(keyB).id);
+      expect(report.reencrypted).toBe(files.length);
+      expect(report.unchanged).toBe(0);
+      expect(files.every(file => getKeyId(fs.readFileSync(file)) === report.keyId)).toBe(true);
+      expect(await cas.rotateKey()).toEqual({ keyId: report.keyId, reencrypted: 0, unchanged: files.length });
+
+      // The old key is no longer needed
+      const newKeyOnly = new AikoCAS(storagePath, { keyProvider: new MemoryKeyProvider(keyB) });
+      expect(await newKeyOnly.retrieve(hash)).toEqual({ padding: 'y'.repeat(20000) });
+      expect((await newKeyOnly.verify(streamHash)).valid).toBe(true);
+      expect(report.keyId).not.toBe(oldKeyId);
+    });
+
+    it('should encrypt a plaintext store on rotation when plaintext is allowed', async (): Promise<void> => {
+      const hash = await new AikoCAS(storagePath).store({ legacy: true });
+      await expect(new AikoCAS(storagePath, { keyProvider: provider }).retrieve(hash)).rejects.toThrow(DecryptionError);
+
+      const cas = new AikoCAS(storagePath, { keyProvider: provider, allowPlaintext: true });
+      expect(await cas.retrieve(hash)).toEqual({ legacy: true });
+      expect((await cas.rotateKey()).reencrypted).toBe(1);
+      expect(isEncrypted(fs.readFileSync(path.join(storagePath, 'blobs', `${hash}.json`)))).toBe(true);
+      expect(await new AikoCAS(storagePath, { keyProvider: provider }).retrieve(hash)).toEqual({ legacy: true });
+      await expect(new AikoCAS(storagePath).rotateKey()).rejects.toThrow('Key rotation requires a key provider');
+    });
+  });
+
+  describe('snapshot metadata', () => {
+    let storagePath: string;
+    let provider: MemoryKeyProvider;
+
+    beforeEach((): void => {
+      storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-encryption-'));
+      provider = new MemoryKeyProvider(keyA);
+    });
+
+    afterEach((): void => {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should encrypt snapshots.json and refuse to load it without the key', async (): Promise<void> => {
+      const manager = new AikoRyuBackupManager(storagePath, { keyProvider: provider });
+      manager.registerAgent(new AikoAgent('aiko-1'));
+      const snapshot = await manager.createSnapshot('confidential release', ['secret-tag']);
+      const snapshotsPath = path.join(storagePath, 'metadata', 'snapshots.json');
+
+      expect(isEncrypted(fs.readFileSync(snapshotsPath))).toBe(true);
+      expect(fs.readFileSync(snapshotsPath).includes(Buffer.from('secret-tag'))).toBe(false);
+
+      const reopened = new AikoRyuBackupManager(storagePath, { keyProvider: provider });
+      expect((await reopened.listSnapshots()).map(s => s.id)).toEqual([snapshot.id]);
+      expect((await reopened.restoreSnapshot(snapshot.id)).result).toBe(true);
+      expect((await reopened.fsck()).healthy).toBe(true);
+
+      expect(() => new RyuMetadataDAG(path.join(storagePath, 'metadata'))).toThrow(DecryptionError);
+    });
+
+    it('should refuse plaintext metadata swapped in for encrypted files', async (): Promise<void> => {
+      const manager = new AikoRyuBackupManager(storagePath, { keyProvider: provider });
+      manager.registerAgent(new AikoAgent('aiko-1'));
+      await manager.createSnapshot('sealed');
+      const snapshotsPath = path.join(storagePath, 'metadata', 'snapshots.json');
+      fs.writeFileSync(snapshotsPath, JSON.stringify([]));
+
+      expect(() => new RyuMetadataDAG(path.join(storagePath, 'metadata'), { keyProvider: provider }))
+        .toThrow('Cannot decrypt metadata/snapshots.json: file is not encrypted');
+      expect(new RyuMetadataDAG(path.join(storagePath, 'metadata'), { keyProvider: provider, allowPlaintext: true })
+        .hasSnapshot('missing')).toBe(false);
+    });
+
+    it('should rotate blobs and metadata together', async (): Promise<void> => {
+      const manager = new AikoRyuBackupManager(storagePath, { keyProvider: provider });
+      manager.registerAgent(new AikoAgent('aiko-1'));
+      const snapshot = await manager.createSnapshot('before rotation');
+
+      provider.rotate(keyB);
+      const report = await manager.rotateEncryptionKey();
+
+      expect(report.reencrypted).toBe(listFiles(storagePath).length);
+      const newKeyOnly = new AikoRyuBackupManager(storagePath, { keyProvider: new MemoryKeyProvider(keyB) });
+      expect((await newKeyOnly.listSnapshots())[0].id).toBe(snapshot.id);
+      expect((await newKeyOnly.fsck()).healthy).toBe(true);
+    });
+
+    it('should export plaintext bundles from an encrypted store', async (): Promise<void> => {
+      const manager = new AikoRyuBackupManager(storagePath, { keyProvider: provider });
+      manager.registerAgent(new AikoAgent('aiko-1'));
+      const snapshot = await manager.createSnapshot('shared');
+      const targetPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-encryption-target-'));
+
+      try {
+        const target = new AikoRyuBackupManager(targetPath);
+        await target.importSnapshot(await manager.exportSnapshot(snapshot.id));
+        expect((await target.fsck()).healthy).toBe(true);
+      } finally {
+        fs.rmSync(targetPath, { recursive: true, force: true });
+      }
+    });
+  });
+});
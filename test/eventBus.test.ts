@@ -0,0 +1,148 @@
+// test/eventBus.test.ts
+// Tests for the typed publish/subscribe event bus
+
+import { EventBus, matchesEventPattern } from '../src/events/EventBus';
+import { AgentMesh } from '../src/mesh';
+import { AikoAgent } from '../src/agents/AikoAgent';
+import { SnapshotEventPayload, SpecificationEventPayload } from '../src/agents/AgentContract';
+
+const snapshotEvent = (snapshotId: string): SnapshotEventPayload => ({
+  snapshotId,
+  operation: 'create',
+  nodeCount: 1,
+  timestamp: new Date(),
+  correlationId: snapshotId,
+  sourceAgent: 'event-bus-test'
+});
+
+describe('EventBus', () => {
+  let bus: EventBus;
+
+  beforeEach(() => {
+    bus = new EventBus();
+  });
+
+  describe('Pattern matching', () => {
+    it('should match exact names, prefix wildcards and the global wildcard', () => {
+      expect(matchesEventPattern('dag.snapshot.created', 'dag.snapshot.created')).toBe(true);
+      expect(matchesEventPattern('dag.snapshot.*', 'dag.snapshot.created')).toBe(true);
+      expect(matchesEventPattern('dag.*', 'dag.snapshot.restored')).toBe(true);
+      expect(matchesEventPattern('*', 'cas.content.stored')).toBe(true);
+      expect(matchesEventPattern('dag.snapshot.*', 'dag.snapshots')).toBe(false);
+      expect(matchesEventPattern('dag.snapshot.*', 'cas.content.stored')).toBe(false);
+    });
+  });
+
+  describe('Typed publish/subscribe', () => {
+    it('should deliver narrowed payloads to exact subscribers', async () => {
+      const received: string[] = [];
+      bus.subscribe('specification.validate', payload => {
+        // payload is narrowed to SpecificationEventPayload
+        received.push(`${payload.specificationId}:${payload.action}`);
+      });
+
+      const payload: SpecificationEventPayload = {
+        specificationId: 'spec-1',
+        action: 'validate',
+        timestamp: new Date()
+      };
+      const result = await bus.publish('specification.validate', payload);
+
+      expect(received).toEqual(['spec-1:validate']);
+      expect(result.delivered).toHaveLength(1);
+      expect(result.failed).toHaveLength(0);
+    });
+
+    it('should deliver a family of events to wildcard subscribers', async () => {
+      const received: Array<{ eventType: string; snapshotId: string }> = [];
+      bus.subscribe('dag.snapshot.*', (payload, eventType) => {
+        received.push({ eventType, snapshotId: payload.snapshotId });
+      });
+
+      await bus.publish('dag.snapshot.created', snapshotEvent('snap-1'));
+      await bus.publish('dag.snapshot.restored', { ...snapshotEvent('snap-1'), operation: 'restore' });
+      await bus.publish('cas.content.stored', {
+        hash: 'a'.repeat(64),
+        operation: 'store',
+        timestamp: new Date()
+      });
+
+      expect(received).toEqual([
+        { eventType: 'dag.snapshot.created', snapshotId: 'snap-1' },
+        { eventType: 'dag.snapshot.restored', snapshotId: 'snap-1' }
+      ]);
+    });
+
+    it('should reject payloads that do not match the event name at compile time', async () => {
+      await bus.publish('dag.snapshot.created', snapshotEvent('snap-typed'));
+
+      // @ts-expect-error a snapshot event requires a SnapshotEventPayload
+      await bus.publish('dag.snapshot.created', { hash: 'abc', operation: 'store', timestamp: new Date() });
+    });
+
+    it('should accept unmapped event names with any EventPayload', async () => {
+      const received: string[] = [];
+      bus.subscribe('custom.event', (_payload, eventType) => {
+        received.push(eventType);
+      });
+
+      await bus.publish('custom.event', snapshotEvent('snap-custom'));
+      expect(received).toEqual(['custom.event']);
+    });
+
+    it('should deliver an event once per subscriber id across overlapping patterns', async () => {
+      let calls = 0;
+      bus.subscribe('dag.*', () => { calls++; }, { subscriberId: 'observer' });
+      bus.subscribe('dag.snapshot.*', () => { calls++; }, { subscriberId: 'observer' });
+
+      const result = await bus.publish('dag.snapshot.created', snapshotEvent('snap-2'));
+
+      expect(calls).toBe(1);
+      expect(result.delivered).toEqual(['observer']);
+    });
+
+    it('should isolate failing handlers and support unsubscribing', async () => {
+      const received: string[] = [];
+      bus.subscribe('dag.snapshot.created', () => {
+        throw new Error('handler failure');
+      }, { subscriberId: 'failing' });
+      const unsubscribe = bus.subscribe('dag.snapshot.created', payload => {
+        received.push(payload.snapshotId);
+      }, { subscriberId: 'healthy' });
+
+      const result = await bus.publish('dag.snapshot.created', snapshotEvent('snap-3'));
+      expect(result.delivered).toEqual(['healthy']);
+      expect(result.failed[0].subscriberId).toBe('failing');
+      expect(result.failed[0].error.message).toBe('handler failure');
+
+      unsubscribe();
+      await bus.publish('dag.snapshot.created', snapshotEvent('snap-4'));
+      expect(received).toEqual(['snap-3']);
+    });
+  });
+
+  describe('Mesh integration', () => {
+    it('should route wildcard subscriptions to mesh agents', async () => {
+      const mesh = new AgentMesh({}, bus);
+      const aiko = new AikoAgent('aiko-bus');
+      const handled: string[] = [];
+      const handleEvent = aiko.handleEvent.bind(aiko);
+      aiko.handleEvent = async (eventType, payload): Promise<void> => {
+        handled.push(eventType);
+        await handleEvent(eventType, payload);
+      };
+
+      mesh.register(aiko, ['dag.snapshot.*']);
+      await mesh.start();
+
+      const delivery = await mesh.publish('dag.snapshot.created', snapshotEvent('snap-mesh'));
+      await mesh.publish('cas.content.stored', { hash: 'b'.repeat(64), operation: 'store', timestamp: new Date() });
+
+      expect(delivery.delivered).toEqual(['aiko-bus']);
+      expect(handled).toEqual(['dag.snapshot.created']);
+      expect(mesh.getSubscribers('dag.snapshot.deleted')).toEqual(['aiko-bus']);
+
+      await mesh.shutdown();
+    });
+  });
+});
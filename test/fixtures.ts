@@ -0,0 +1,45 @@
+// test/fixtures.ts
+// DAG node and stream helpers shared by the backup and integrity tests
+
+import { Buffer } from 'buffer';
+import { Readable } from 'stream';
+import { DAGNode } from '../src/backup/ContentAddressableStorage';
+
+export interface NodeOverrides extends Partial<Omit<DAGNode, 'metadata'>> {
+  metadata?: Partial<DAGNode['metadata']>;
+}
+
+// A completed node whose output is stored under `hash`
+export function buildNode(id: string, hash: string, overrides: NodeOverrides = {}): DAGNode {
+  const { metadata, ...node } = overrides;
+  return {
+    id,
+    hash,
+    deps: [],
+    metadata: {
+      agentRole: 'Worker',
+      capability: 'compute',
+      inputHashes: [],
+      outputHashes: [hash],
+      computationTime: 1,
+      memoryUsage: 1,
+      validationResult: { result: true, consensus: true },
+      designIntent: 'test',
+      userRequirement: 'test',
+      ...metadata
+    },
+    status: 'completed',
+    agentId: id,
+    traceId: `trace-${id}`,
+    ...node
+  };
+}
+
+export function readAll(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
@@ -0,0 +1,144 @@
+// test/garbageCollection.test.ts
+// Tests for mark-and-sweep garbage collection of CAS blobs
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Buffer } from 'buffer';
+import {
+  AikoCAS,
+  AikoRyuBackupManager,
+  RegenerationPolicy,
+  RyuMetadataDAG
+} from '../src/backup/ContentAddressableStorage';
+import { buildNode } from './fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function buildPolicy(overrides: Partial<RegenerationPolicy> = {}): RegenerationPolicy {
+  return {
+    strategy: 'incremental',
+    validateBeforeRestore: true,
+    preserveHistory: true,
+    maxSnapshots: 1,
+    ttlDays: 30,
+    ...overrides
+  };
+}
+
+describe('Garbage collection', () => {
+  let storagePath: string;
+  let cas: AikoCAS;
+  let dag: RyuMetadataDAG;
+
+  const blobSize = (hash: string): number => fs.statSync(path.join(storagePath, 'blobs', `${hash}.json`)).size;
+
+  // Shifts a snapshot's timestamp into the past, as if it had been taken then
+  const age = (snapshotId: string, days: number): void => {
+    const snapshotsPath = path.join(storagePath, 'metadata', 'snapshots.json');
+    const snapshots = JSON.parse(fs.readFileSync(snapshotsPath, 'utf-8'));
+    const snapshot = snapshots.find((s: { id: string }) => s.id === snapshotId);
+    snapshot.timestamp = new Date(Date.now() - days * DAY_MS).toISOString();
+    fs.writeFileSync(snapshotsPath, JSON.stringify(snapshots));
+  };
+
+  beforeEach((): void => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'cas-gc-'));
+    cas = new AikoCAS(storagePath);
+    dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+  });
+
+  afterEach((): void => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should delete blobs reachable only from dropped snapshots', async (): Promise<void> => {
+    const old = await cas.store({ generation: 1 });
+    const shared = await cas.store({ shared: true });
+    const input = await cas.store({ input: true });
+    const output = await cas.store({ output: true });
+    const latest = await cas.store({ generation: 2 });
+    await dag.createSnapshot({ a: buildNode('a', old), s: buildNode('s', shared) }, [], 'old', [], false);
+    await dag.createSnapshot({ b: buildNode('b', latest, { metadata: { inputHashes: [input], outputHashes: [output] } }), s: buildNode('s', shared) }, [], 'new', [], false);
+    const expectedBytes = blobSize(old);
+
+    const report = await new AikoRyuBackupManager(storagePath).collectGarbage({ policy: buildPolicy() });
+
+    expect(report.snapshotsDeleted).toHaveLength(1);
+    expect(report.snapshotsKept).toBe(1);
+    expect(report.blobsDeleted).toEqual([old]);
+    expect(report.bytesReclaimed).toBe(expectedBytes);
+    expect((await cas.list()).sort()).toEqual([shared, input, output, latest].sort());
+  });
+
+  it('should keep everything an immutable snapshot references', async (): Promise<void> => {
+    const pinned = await cas.store({ pinned: true });
+    const latest = await cas.store({ latest: true });
+    await dag.createSnapshot({ p: buildNode('p', pinned) }, [], 'pinned', [], true);
+    await dag.createSnapshot({ l: buildNode('l', latest) }, [], 'latest', [], false);
+
+    const report = await new AikoRyuBackupManager(storagePath).collectGarbage({ policy: buildPolicy() });
+
+    expect(report.snapshotsDeleted).toEqual([]);
+    expect(report.blobsDeleted).toEqual([]);
+    expect(cas.exists(pinned)).toBe(true);
+  });
+
+  it('should expire mutable snapshots older than ttlDays', async (): Promise<void> => {
+    const stale = await cas.store({ stale: true });
+    const ancient = await cas.store({ ancient: true });
+    const staleSnapshot = await dag.createSnapshot({ s: buildNode('s', stale) }, [], 'stale', [], false);
+    const ancientSnapshot = await dag.createSnapshot({ a: buildNode('a', ancient) }, [], 'ancient', [], true);
+    age(staleSnapshot.id, 40);
+    age(ancientSnapshot.id, 400);
+
+    const manager = new AikoRyuBackupManager(storagePath);
+    const report = await manager.collectGarbage({ policy: buildPolicy({ maxSnapshots: 10, ttlDays: 30 }) });
+
+    expect(report.snapshotsDeleted).toEqual([staleSnapshot.id]);
+    expect(report.blobsDeleted).toEqual([stale]);
+    expect((await manager.listSnapshots()).map(s => s.id)).toEqual([ancientSnapshot.id]);
+  });
+
+  it('should report without deleting on a dry run', async (): Promise<void> => {
+    const old = await cas.store({ generation: 1 });
+    const latest = await cas.store({ generation: 2 });
+    await dag.createSnapshot({ a: buildNode('a', old) }, [], 'old', [], false);
+    await dag.createSnapshot({ b: buildNode('b', latest) }, [], 'new', [], false);
+    const manager = new AikoRyuBackupManager(storagePath);
+
+    const preview = await manager.collectGarbage({ policy: buildPolicy(), dryRun: true });
+
+    expect(preview.dryRun).toBe(true);
+    expect(preview.blobsDeleted).toEqual([old]);
+    expect(preview.bytesReclaimed).toBeGreaterThan(0);
+    expect(cas.exists(old)).toBe(true);
+    expect(await manager.listSnapshots()).toHaveLength(2);
+
+    const actual = await manager.collectGarbage({ policy: buildPolicy() });
+    expect({ ...actual, dryRun: true }).toEqual(preview);
+  });
+
+  it('should spare recent unreferenced blobs within minBlobAgeMs', async (): Promise<void> => {
+    const pending = await cas.store({ pending: true });
+    const manager = new AikoRyuBackupManager(storagePath);
+
+    expect((await manager.collectGarbage({ minBlobAgeMs: 60 * 1000 })).blobsDeleted).toEqual([]);
+    expect((await manager.collectGarbage()).blobsDeleted).toEqual([pending]);
+  });
+
+  it('should sweep chunks no surviving object uses', async (): Promise<void> => {
+    const chunked = new AikoCAS(storagePath, { chunking: { minSize: 256, avgSize: 1024, maxSize: 4096 } });
+    const kept = await chunked.storeStream(Buffer.from('kept '.repeat(2000)));
+    await chunked.storeStream(Buffer.from('dropped '.repeat(2000)));
+    await dag.createSnapshot({ k: buildNode('k', kept) }, [], 'keep stream', [], false);
+    const keptChunks = (await chunked.statStream(kept)).chunks ?? [];
+
+    const report = await new AikoRyuBackupManager(storagePath).collectGarbage();
+
+    expect(report.chunksDeleted).toBeGreaterThan(0);
+    expect(fs.readdirSync(path.join(storagePath, 'chunks')).sort())
+      .toEqual(Array.from(new Set(keptChunks)).map(chunk => `${chunk}.chunk`).sort());
+    expect((await chunked.getStats()).objects).toBe(1);
+  });
+});
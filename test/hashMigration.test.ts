@@ -0,0 +1,124 @@
+// test/hashMigration.test.ts
+// Tests for migrating a CAS store from JSON.stringify hashes to canonical hashes
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AikoCAS, CASIntegrityError, RyuMetadataDAG, computeContentHash } from '../src/backup/ContentAddressableStorage';
+import { migrateToCanonicalHashes } from '../src/backup/HashMigration';
+import { buildNode } from './fixtures';
+
+// Writes a blob the way AikoCAS did before canonical hashing
+function writeLegacyBlob(storagePath: string, content: unknown, metadata: Record<string, unknown> = {}): string {
+  const contentStr = JSON.stringify(content);
+  const hash = crypto.createHash('sha256').update(contentStr).digest('hex');
+  const blob = { content, metadata: { ...metadata, storedAt: '2025-01-01T00:00:00.000Z', hash, size: contentStr.length } };
+  fs.writeFileSync(path.join(storagePath, 'blobs', `${hash}.json`), JSON.stringify(blob, null, 2));
+  return hash;
+}
+
+describe('migrateToCanonicalHashes', () => {
+  let storagePath: string;
+  let legacyA: string;
+  let legacyB: string;
+  let snapshotId: string;
+
+  beforeEach(async (): Promise<void> => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'hash-migration-'));
+    new AikoCAS(storagePath);
+    legacyA = writeLegacyBlob(storagePath, { z: 1, a: 2 }, { agentRole: 'Worker' });
+    legacyB = writeLegacyBlob(storagePath, { result: 'done', input: legacyA });
+
+    const dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+    const snapshot = await dag.createSnapshot(
+      { a: buildNode('a', legacyA), b: buildNode('b', legacyB, { deps: ['a'], metadata: { inputHashes: [legacyA] } }) },
+      [{ from: 'a', to: 'b', type: 'dependency', metadata: {} }],
+      'legacy snapshot',
+      [],
+      true
+    );
+    snapshotId = snapshot.id;
+  });
+
+  afterEach((): void => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should keep legacy blobs readable under verify-on-read until migrated', async (): Promise<void> => {
+    const cas = new AikoCAS(storagePath);
+
+    expect(await cas.retrieve(legacyA)).toEqual({ z: 1, a: 2 });
+    expect(await cas.verify(legacyA)).toEqual({
+      hash: legacyA,
+      kind: 'json',
+      valid: true,
+      reason: 'stored under its pre-canonical JSON.stringify hash; run migrate:cas'
+    });
+
+    fs.writeFileSync(path.join(storagePath, 'blobs', `${legacyA}.json`), JSON.stringify({ content: { z: 1, a: 3 }, metadata: {} }));
+    await expect(cas.retrieve(legacyA)).rejects.toThrow(CASIntegrityError);
+  });
+
+  it('should report pending changes without writing on a dry run', async (): Promise<void> => {
+    const report = await migrateToCanonicalHashes(storagePath, { dryRun: true });
+
+    expect(report.scanned).toBe(2);
+    expect(report.rehashed[legacyA]).toBe(computeContentHash({ a: 2, z: 1 }));
+    expect(report.snapshotsUpdated).toEqual([snapshotId]);
+    expect(new AikoCAS(storagePath).exists(legacyA)).toBe(true);
+  });
+
+  it('should rehash blobs and rewrite snapshot references', async (): Promise<void> => {
+    const report = await migrateToCanonicalHashes(storagePath);
+    const newA = report.rehashed[legacyA];
+    const newB = report.rehashed[legacyB];
+
+    const cas = new AikoCAS(storagePath);
+    expect((await cas.list()).sort()).toEqual([newA, newB].sort());
+    expect(await cas.retrieve(newA)).toEqual({ z: 1, a: 2 });
+
+    const dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+    const [snapshot] = await dag.listSnapshots();
+    expect(snapshot.casHashes.sort()).toEqual([newA, newB].sort());
+    expect(snapshot.metadataDAG.nodes.b.hash).toBe(newB);
+    expect(snapshot.metadataDAG.nodes.b.metadata.inputHashes).toEqual([newA]);
+    expect(snapshot.metadataDAG.nodes.a.metadata.outputHashes).toEqual([newA]);
+
+    const restore = await dag.restoreSnapshot(snapshotId, cas);
+    expect(restore.consensus).toBe(true);
+  });
+
+  it('should keep caller metadata and record the previous address', async (): Promise<void> => {
+    const report = await migrateToCanonicalHashes(storagePath);
+    const blobPath = path.join(storagePath, 'blobs', `${report.rehashed[legacyA]}.json`);
+
+    const { metadata } = JSON.parse(fs.readFileSync(blobPath, 'utf-8'));
+    expect(metadata).toEqual(expect.objectContaining({
+      agentRole: 'Worker',
+      rehashedFrom: legacyA,
+      originallyStoredAt: '2025-01-01T00:00:00.000Z'
+    }));
+  });
+
+  it('should merge objects that only differed by key order', async (): Promise<void> => {
+    const reordered = writeLegacyBlob(storagePath, { a: 2, z: 1 });
+
+    const report = await migrateToCanonicalHashes(storagePath);
+
+    expect(reordered).not.toBe(legacyA);
+    expect(report.rehashed[legacyA]).toBe(reordered);
+    expect(report.merged).toBe(1);
+    expect(await new AikoCAS(storagePath).list()).toHaveLength(2);
+  });
+
+  it('should be a no-op once the store is canonical', async (): Promise<void> => {
+    await migrateToCanonicalHashes(storagePath);
+
+    const report = await migrateToCanonicalHashes(storagePath);
+
+    expect(report.rehashed).toEqual({});
+    expect(report.unchanged).toBe(2);
+    expect(report.snapshotsUpdated).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+// test/incrementalSnapshots.test.ts
+// Tests for parent-linked incremental snapshots, snapshot diffs and squashing
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AikoCAS,
+  AikoRyuBackupManager,
+  DAGEdge,
+  RyuMetadataDAG
+} from '../src/backup/ContentAddressableStorage';
+import { AikoAgent } from '../src/agents/AikoAgent';
+import { buildNode } from './fixtures';
+
+const edge = (from: string, to: string): DAGEdge => ({ from, to, type: 'dependency', metadata: {} });
+
+describe('Incremental snapshots', () => {
+  let storagePath: string;
+  let cas: AikoCAS;
+  let dag: RyuMetadataDAG;
+  let hashes: Record<string, string>;
+
+  beforeEach(async (): Promise<void> => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-incremental-'));
+    cas = new AikoCAS(storagePath);
+    dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+    hashes = {
+      a: await cas.store({ node: 'a' }),
+      b: await cas.store({ node: 'b' }),
+      b2: await cas.store({ node: 'b', version: 2 }),
+      c: await cas.store({ node: 'c' })
+    };
+  });
+
+  afterEach((): void => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should store only the nodes that changed since the parent', async (): Promise<void> => {
+    const base = await dag.createSnapshot({ a: buildNode('a', hashes.a), b: buildNode('b', hashes.b) }, [edge('a', 'b')], 'base');
+    const next = await dag.createSnapshot(
+      { a: buildNode('a', hashes.a, { traceId: 'trace-later' }), c: buildNode('c', hashes.c) },
+      [edge('a', 'c')],
+      'next',
+      [],
+      true,
+      base.id
+    );
+
+    expect(next.parentId).toBe(base.id);
+    expect(Object.keys(next.metadataDAG.nodes)).toEqual(['c']);
+    expect(next.metadataDAG.removedNodes).toEqual(['b']);
+    expect(next.casHashes).toEqual([hashes.c]);
+    expect(next.metadataDAG.consensus).toBe(true);
+
+    const resolved = dag.resolveSnapshot(next.id)!;
+    expect(Object.keys(resolved.metadataDAG.nodes).sort()).toEqual(['a', 'c']);
+    expect(resolved.metadataDAG.removedNodes).toBeUndefined();
+    expect(resolved.casHashes.sort()).toEqual([hashes.a, hashes.c].sort());
+  });
+
+  it('should reject an unknown parent', async (): Promise<void> => {
+    await expect(dag.createSnapshot({}, [], 'orphan', [], true, 'missing-snapshot'))
+      .rejects.toThrow('Snapshot not found: missing-snapshot');
+  });
+
+  it('should survive a reload', async (): Promise<void> => {
+    const base = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'base');
+    const next = await dag.createSnapshot({ a: buildNode('a', hashes.a), b: buildNode('b', hashes.b) }, [], 'next', [], true, base.id);
+
+    const reloaded = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+    expect(Object.keys(reloaded.resolveSnapshot(next.id)!.metadataDAG.nodes).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should diff nodes, edges and blob hashes between two snapshots', async (): Promise<void> => {
+    const base = await dag.createSnapshot({ a: buildNode('a', hashes.a), b: buildNode('b', hashes.b) }, [edge('a', 'b')], 'base');
+    const next = await dag.createSnapshot(
+      { a: buildNode('a', hashes.a, { traceId: 'trace-later' }), b: buildNode('b', hashes.b2), c: buildNode('c', hashes.c) },
+      [edge('a', 'b'), edge('b', 'c')],
+      'next',
+      [],
+      true,
+      base.id
+    );
+
+    const diff = await dag.diffSnapshots(base.id, next.id);
+
+    expect(diff).toEqual({
+      from: base.id,
+      to: next.id,
+      addedNodes: ['c'],
+      removedNodes: [],
+      changedNodes: ['b'],
+      addedEdges: [edge('b', 'c')],
+      removedEdges: [],
+      addedHashes: expect.arrayContaining([hashes.b2, hashes.c]),
+      removedHashes: [hashes.b]
+    });
+    expect(diff.addedHashes).toHaveLength(2);
+
+    const reverse = await dag.diffSnapshots(next.id, base.id);
+    expect(reverse.removedNodes).toEqual(['c']);
+    expect(reverse.removedEdges).toEqual([edge('b', 'c')]);
+    await expect(dag.diffSnapshots(base.id, 'missing')).rejects.toThrow('Snapshot not found: missing');
+  });
+
+  it('should restore nodes inherited from the parent', async (): Promise<void> => {
+    const base = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'base');
+    const next = await dag.createSnapshot({ a: buildNode('a', hashes.a), c: buildNode('c', hashes.c) }, [edge('a', 'c')], 'next', [], true, base.id);
+
+    const result = await dag.restoreSnapshot(next.id, cas);
+
+    expect(result.result).toBe(true);
+    expect(result.details?.restoredNodes).toBe('a,c');
+  });
+
+  it('should hand a deleted parent\'s nodes to its children', async (): Promise<void> => {
+    const base = await dag.createSnapshot({ a: buildNode('a', hashes.a), b: buildNode('b', hashes.b) }, [], 'base', [], false);
+    const next = await dag.createSnapshot({ a: buildNode('a', hashes.a), c: buildNode('c', hashes.c) }, [], 'next', [], true, base.id);
+    const before = dag.resolveSnapshot(next.id)!.metadataDAG.nodes;
+
+    expect(await dag.deleteSnapshot(base.id)).toBe(true);
+
+    const child = dag.resolveSnapshot(next.id)!;
+    expect(child.parentId).toBeUndefined();
+    expect(child.metadataDAG.removedNodes).toBeUndefined();
+    expect(child.metadataDAG.nodes).toEqual(before);
+  });
+
+  it('should squash a chain into its head', async (): Promise<void> => {
+    const root = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'root', [], false);
+    const middle = await dag.createSnapshot({ a: buildNode('a', hashes.a), b: buildNode('b', hashes.b) }, [], 'middle', [], false, root.id);
+    const head = await dag.createSnapshot({ b: buildNode('b', hashes.b2), c: buildNode('c', hashes.c) }, [], 'head', [], true, middle.id);
+    const before = dag.resolveSnapshot(head.id)!.metadataDAG.nodes;
+
+    const result = await dag.squashSnapshots(head.id);
+
+    expect(result).toEqual({ snapshotId: head.id, squashed: [middle.id, root.id], kept: [] });
+    expect((await dag.listSnapshots()).map(snapshot => snapshot.id)).toEqual([head.id]);
+    const squashed = dag.resolveSnapshot(head.id)!;
+    expect(squashed.parentId).toBeUndefined();
+    expect(squashed.metadataDAG.nodes).toEqual(before);
+    expect(squashed.metadataDAG.removedNodes).toBeUndefined();
+  });
+
+  it('should squash up to a base and keep immutable snapshots', async (): Promise<void> => {
+    const root = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'root', [], true);
+    const middle = await dag.createSnapshot({ a: buildNode('a', hashes.a), b: buildNode('b', hashes.b) }, [], 'middle', [], true, root.id);
+    const latest = await dag.createSnapshot({ a: buildNode('a', hashes.a), c: buildNode('c', hashes.c) }, [], 'latest', [], false, middle.id);
+    const head = await dag.createSnapshot({ c: buildNode('c', hashes.c) }, [], 'head', [], false, latest.id);
+
+    const result = await dag.squashSnapshots(head.id, middle.id);
+
+    expect(result).toEqual({ snapshotId: head.id, parentId: root.id, squashed: [latest.id], kept: [middle.id] });
+    expect(dag.resolveSnapshot(head.id)!.metadataDAG.removedNodes).toBeUndefined();
+    expect(Object.keys(dag.resolveSnapshot(head.id)!.metadataDAG.nodes)).toEqual(['c']);
+    expect(Object.keys(dag.resolveSnapshot(middle.id)!.metadataDAG.nodes).sort()).toEqual(['a', 'b']);
+    await expect(dag.squashSnapshots(head.id, middle.id)).rejects.toThrow(`Snapshot ${middle.id} is not an ancestor of ${head.id}`);
+  });
+
+  it('should keep blobs that surviving snapshots inherit', async (): Promise<void> => {
+    const base = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'base', [], false);
+    await dag.createSnapshot({ a: buildNode('a', hashes.a), c: buildNode('c', hashes.c) }, [], 'next', [], false, base.id);
+
+    const manager = new AikoRyuBackupManager(storagePath);
+    const policy = { strategy: 'incremental' as const, validateBeforeRestore: true, preserveHistory: true, maxSnapshots: 1, ttlDays: 30 };
+    const preview = await manager.collectGarbage({ policy, dryRun: true });
+    const report = await manager.collectGarbage({ policy });
+
+    expect(report.snapshotsDeleted).toEqual([base.id]);
+    expect(report.blobsDeleted.sort()).toEqual([hashes.b, hashes.b2].sort());
+    expect({ ...report, dryRun: true }).toEqual(preview);
+    expect(cas.exists(hashes.a)).toBe(true);
+    expect((await manager.fsck()).healthy).toBe(true);
+  });
+
+  it('should chain manager snapshots and record only changed agents', async (): Promise<void> => {
+    const manager = new AikoRyuBackupManager(storagePath);
+    const aiko = new AikoAgent('aiko-1');
+    manager.registerAgents([aiko, new AikoAgent('aiko-2')]);
+
+    const first = await manager.createIncrementalSnapshot('first');
+    const unchanged = await manager.createIncrementalSnapshot('unchanged');
+    aiko.trackUserInteraction({
+      id: 'interaction-1',
+      userId: 'user-1',
+      sessionId: 'session-1',
+      action: 'review',
+      context: {},
+      timestamp: new Date(),
+      outcome: 'success'
+    });
+    const changed = await manager.createIncrementalSnapshot('changed');
+
+    expect(first.parentId).toBeUndefined();
+    expect(unchanged.parentId).toBe(first.id);
+    expect(unchanged.metadataDAG.nodes).toEqual({});
+    expect(changed.parentId).toBe(unchanged.id);
+    expect(Object.keys(changed.metadataDAG.nodes)).toEqual(['aiko-1']);
+
+    const diff = await manager.diffSnapshots(first.id, changed.id);
+    expect(diff.changedNodes).toEqual(['aiko-1']);
+    expect(diff.addedHashes).toEqual([changed.metadataDAG.nodes['aiko-1'].hash]);
+
+    const squash = await manager.squashSnapshots(changed.id);
+    expect(squash.kept).toEqual([unchanged.id, first.id]);
+    expect(Object.keys((await manager.listSnapshots()).find(snapshot => snapshot.id === changed.id)!.metadataDAG.nodes).sort())
+      .toEqual(['aiko-1', 'aiko-2']);
+  });
+});
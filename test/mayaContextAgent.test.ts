@@ -0,0 +1,178 @@
+// test/mayaContextAgent.test.ts
+// Tests for the Maya context propagation agent
+
+import { MayaContextAgent } from '../src/agents/MayaContextAgent';
+import { ContextValue } from '../src/agents/AgentContract';
+
+describe('MayaContextAgent', () => {
+  let maya: MayaContextAgent;
+
+  beforeEach(async () => {
+    maya = new MayaContextAgent('maya-1', { rules: { tags: 'merge', owner: 'reject' } });
+    await maya.initialize();
+  });
+
+  afterEach(async () => {
+    await maya.shutdown();
+  });
+
+  it('should version context updates and record transitions', () => {
+    const first = maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-a',
+      data: { stage: 'design', step: 1 }
+    });
+    const second = maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-a',
+      data: { step: 2 }
+    });
+
+    expect(first.context.version).toBe(1);
+    expect(second.validation.result).toBe(true);
+    expect(second.context.version).toBe(2);
+    expect(second.context.data).toEqual({ stage: 'design', step: 2 });
+    expect(second.history).toHaveLength(2);
+    expect(second.history[1].changes).toEqual([{ key: 'step', previous: 1, next: 2 }]);
+  });
+
+  it('should not bump the version when nothing changes', () => {
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { stage: 'design' } });
+    const result = maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-b', data: { stage: 'design' } });
+
+    expect(result.context.version).toBe(1);
+    expect(result.conflicts).toHaveLength(0);
+  });
+
+  it('should resolve conflicting writes from other agents with the default strategy', () => {
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { stage: 'design' } });
+    const result = maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-b', data: { stage: 'build' } });
+
+    expect(result.context.data.stage).toBe('build');
+    expect(result.context.writers.stage).toBe('agent-b');
+    expect(result.validation.consensus).toBe(false);
+    expect(result.conflicts).toEqual([expect.objectContaining({
+      key: 'stage',
+      existing: 'design',
+      incoming: 'build',
+      existingWriter: 'agent-a',
+      strategy: 'last-write-wins',
+      resolution: 'applied-incoming'
+    })]);
+  });
+
+  it('should keep existing values under first-write-wins', () => {
+    maya.setConflictRule('stage', 'first-write-wins');
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { stage: 'design' } });
+    const result = maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-b',
+      data: { stage: 'build', extra: true }
+    });
+
+    expect(result.context.data).toEqual({ stage: 'design', extra: true });
+    expect(result.conflicts[0].resolution).toBe('kept-existing');
+  });
+
+  it('should deep-merge objects and union arrays under the merge strategy', () => {
+    maya.setConflictRule('settings', 'merge');
+    maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-a',
+      data: { tags: ['a', 'b'], settings: { theme: 'dark', layout: { columns: 2 } } }
+    });
+    const result = maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-b',
+      data: { tags: ['b', 'c'], settings: { layout: { rows: 3 } } }
+    });
+
+    expect(result.context.data.tags).toEqual(['a', 'b', 'c']);
+    expect(result.context.data.settings).toEqual({ theme: 'dark', layout: { columns: 2, rows: 3 } });
+    expect(result.conflicts.map(conflict => conflict.resolution)).toEqual(['merged', 'merged']);
+  });
+
+  it('should reject the whole update when a reject rule is hit', () => {
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { owner: 'alice' } });
+    const result = maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-b',
+      data: { owner: 'bob', stage: 'build' }
+    });
+
+    expect(result.validation.result).toBe(false);
+    expect(result.validation.reason).toContain('owner');
+    expect(result.context.version).toBe(1);
+    expect(maya.getContext('req-1')?.data).toEqual({ owner: 'alice' });
+  });
+
+  it('should treat updates based on an outdated version as conflicting', () => {
+    maya.setConflictRule('stage', 'first-write-wins');
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { stage: 'design' } });
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { stage: 'build' } });
+
+    const stale = maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-a',
+      data: { stage: 'review' },
+      baseVersion: 1
+    });
+
+    expect(stale.validation.details?.stale).toBe(true);
+    expect(stale.context.data.stage).toBe('build');
+    expect(stale.conflicts[0].resolution).toBe('kept-existing');
+  });
+
+  it('should reject values that are not JSON-serialisable', () => {
+    const result = maya.propagateContext({
+      correlationId: 'req-1',
+      sourceAgent: 'agent-a',
+      data: { when: new Date() as unknown as ContextValue, ok: 1 }
+    });
+
+    expect(result.validation.result).toBe(false);
+    expect(result.validation.reason).toContain('when');
+    expect(maya.getContext('req-1')).toBeUndefined();
+  });
+
+  it('should rebuild earlier versions by replaying history', () => {
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { step: 1 } });
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { step: 2, done: false } });
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { done: true } });
+
+    expect(maya.getContextAt('req-1', 0)).toEqual({});
+    expect(maya.getContextAt('req-1', 1)).toEqual({ step: 1 });
+    expect(maya.getContextAt('req-1', 2)).toEqual({ step: 2, done: false });
+    expect(maya.getContextAt('req-1', 4)).toBeUndefined();
+  });
+
+  it('should isolate returned state from later mutation', () => {
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data: { list: [1] } });
+    const snapshot = maya.getContext('req-1');
+    (snapshot?.data.list as number[]).push(2);
+
+    expect(maya.getContext('req-1')?.data.list).toEqual([1]);
+  });
+
+  it('should keep history isolated from the caller and from readers', () => {
+    const data = { list: [1] };
+    maya.propagateContext({ correlationId: 'req-1', sourceAgent: 'agent-a', data });
+    data.list.push(2);
+
+    const [transition] = maya.getHistory('req-1');
+    expect(transition.changes).toEqual([{ key: 'list', next: [1] }]);
+    expect(() => (transition.changes[0].next as number[]).push(3)).toThrow('not extensible');
+    expect(maya.getContextAt('req-1', 1)).toEqual({ list: [1] });
+  });
+
+  it('should propagate slices received as context.propagate events', async () => {
+    await maya.handleEvent('context.propagate', {
+      correlationId: 'req-2',
+      operation: 'propagate',
+      slice: { correlationId: 'req-2', sourceAgent: 'agent-a', data: { stage: 'design' } },
+      timestamp: new Date()
+    });
+
+    expect(maya.getContext('req-2')?.data).toEqual({ stage: 'design' });
+  });
+});
@@ -0,0 +1,208 @@
+// test/mesh.test.ts
+// Tests for the agent mesh runtime
+
+import { AgentMesh } from '../src/mesh';
+import { AikoAgent } from '../src/agents/AikoAgent';
+import { AuditTrailAgent } from '../src/agents/AuditTrailAgent';
+import { SpecificationEngine } from '../src/specifications/SpecificationEngine';
+import { CulturalTransformationAgent } from '../src/design/CulturalTransformation';
+import {
+  AgentContract,
+  AgentSpecification,
+  AgentStatus,
+  DesignArtifact,
+  EventPayload,
+  SystemEventPayload,
+  TraceEvent,
+  ValidationResult
+} from '../src/agents/AgentContract';
+
+class RecordingAgent implements AgentContract {
+  readonly role = 'Recording';
+  received: Array<{ eventType: string; payload: EventPayload }> = [];
+  private status: AgentStatus = { status: 'initializing', uptime: 0 };
+
+  constructor(
+    readonly id: string,
+    readonly dependencies: string[],
+    private log: string[],
+    private failOn?: 'initialize' | 'handleEvent'
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.failOn === 'initialize') throw new Error(`${this.id} failed to start`);
+    this.log.push(`init:${this.id}`);
+    this.status = { status: 'ready', uptime: 0 };
+  }
+
+  async handleEvent(eventType: string, payload: EventPayload): Promise<void> {
+    if (this.failOn === 'handleEvent') throw new Error(`${this.id} rejected ${eventType}`);
+    this.received.push({ eventType, payload });
+  }
+
+  async shutdown(): Promise<void> {
+    this.log.push(`shutdown:${this.id}`);
+    this.status = { status: 'terminated', uptime: 0 };
+  }
+
+  emitTrace(_event: TraceEvent): void {}
+
+  getStatus(): AgentStatus {
+    return this.status;
+  }
+
+  validateSpecification(_spec: AgentSpecification): ValidationResult {
+    return { result: true, consensus: true };
+  }
+
+  generateDesignArtifacts(): DesignArtifact[] {
+    return [];
+  }
+
+  trackUserInteraction(): void {}
+}
+
+const systemEvent = (correlationId: string): SystemEventPayload => ({
+  eventType: 'status-change',
+  timestamp: new Date(),
+  correlationId,
+  sourceAgent: 'mesh-test'
+});
+
+describe('AgentMesh', () => {
+  let mesh: AgentMesh;
+  let log: string[];
+
+  beforeEach(() => {
+    mesh = new AgentMesh();
+    log = [];
+  });
+
+  afterEach(async () => {
+    await mesh.shutdown();
+  });
+
+  describe('Lifecycle ordering', () => {
+    it('should start agents in dependency order and stop them in reverse', async () => {
+      mesh.register(new RecordingAgent('c', ['b'], log));
+      mesh.register(new RecordingAgent('b', ['a'], log));
+      mesh.register(new RecordingAgent('a', [], log));
+
+      await mesh.start();
+      expect(mesh.getStatus().startOrder).toEqual(['a', 'b', 'c']);
+
+      await mesh.shutdown();
+      expect(log).toEqual([
+        'init:a', 'init:b', 'init:c',
+        'shutdown:c', 'shutdown:b', 'shutdown:a'
+      ]);
+      expect(mesh.getStatus().state).toBe('stopped');
+    });
+
+    it('should reject dependency cycles', async () => {
+      mesh.register(new RecordingAgent('a', ['b'], log));
+      mesh.register(new RecordingAgent('b', ['c'], log));
+      mesh.register(new RecordingAgent('c', ['a'], log));
+
+      await expect(mesh.start()).rejects.toThrow('Circular dependencies detected: a -> b -> c -> a');
+      expect(log).toEqual([]);
+    });
+
+    it('should roll back started agents when one fails to initialize', async () => {
+      mesh.register(new RecordingAgent('a', [], log));
+      mesh.register(new RecordingAgent('b', ['a'], log, 'initialize'));
+
+      await expect(mesh.start()).rejects.toThrow('Failed to initialize agent b');
+      expect(log).toEqual(['init:a', 'shutdown:a']);
+      expect(mesh.getStatus().state).toBe('stopped');
+    });
+
+    it('should report unresolved dependencies and reject them in strict mode', async () => {
+      mesh.register(new RecordingAgent('a', ['missing-agent'], log));
+      expect(mesh.getStatus().unresolvedDependencies).toEqual({ a: ['missing-agent'] });
+
+      const strictMesh = new AgentMesh({ strictDependencies: true });
+      strictMesh.register(new RecordingAgent('a', ['missing-agent'], log));
+      await expect(strictMesh.start()).rejects.toThrow('Unresolved dependencies: a -> missing-agent');
+    });
+
+    it('should reject duplicate registrations', () => {
+      mesh.register(new RecordingAgent('a', [], log));
+      expect(() => mesh.register(new RecordingAgent('a', [], log))).toThrow('Agent already registered: a');
+    });
+  });
+
+  describe('Event routing', () => {
+    it('should deliver events only to subscribed agents', async () => {
+      const subscriber = new RecordingAgent('subscriber', [], log);
+      const bystander = new RecordingAgent('bystander', [], log);
+      mesh.register(subscriber, ['status.changed']);
+      mesh.register(bystander, ['other.event']);
+      await mesh.start();
+
+      const delivery = await mesh.publish('status.changed', systemEvent('evt-1'));
+
+      expect(delivery.delivered).toEqual(['subscriber']);
+      expect(subscriber.received).toHaveLength(1);
+      expect(subscriber.received[0].payload.correlationId).toBe('evt-1');
+      expect(bystander.received).toHaveLength(0);
+    });
+
+    it('should keep delivering when a subscriber fails', async () => {
+      const failing = new RecordingAgent('failing', [], log, 'handleEvent');
+      const healthy = new RecordingAgent('healthy', [], log);
+      mesh.register(failing, ['status.changed']);
+      mesh.register(healthy, ['status.changed']);
+      await mesh.start();
+
+      const delivery = await mesh.publish('status.changed', systemEvent('evt-2'));
+
+      expect(delivery.delivered).toEqual(['healthy']);
+      expect(delivery.failed).toHaveLength(1);
+      expect(delivery.failed[0].agentId).toBe('failing');
+    });
+
+    it('should refuse to publish before the mesh is running', async () => {
+      await expect(mesh.publish('status.changed', systemEvent('evt-3'))).rejects.toThrow('mesh is idle');
+    });
+  });
+
+  describe('Integration with existing agents', () => {
+    it('should wire Aiko, AuditTrail, SpecificationEngine and CulturalTransformation agents', async () => {
+      const aiko = new AikoAgent('aiko-mesh');
+      const audit = new AuditTrailAgent();
+      const specEngine = new SpecificationEngine('spec-engine-mesh');
+      const cultural = new CulturalTransformationAgent('cultural-mesh');
+
+      mesh.register(cultural, ['workshop.create']);
+      mesh.register(audit, ['user.interaction.track', 'workshop.create']);
+      mesh.register(specEngine);
+      mesh.register(aiko, ['user.interaction.track']);
+
+      await mesh.start();
+
+      const order = mesh.getStatus().startOrder;
+      expect(order.indexOf(aiko.id)).toBeLessThan(order.indexOf(cultural.id));
+      expect(mesh.getStatus().unresolvedDependencies).toEqual({ [cultural.id]: ['RyuAgent'] });
+      expect(aiko.getStatus().status).toBe('ready');
+      expect(specEngine.getStatus().status).toBe('ready');
+
+      const delivery = await mesh.publish('user.interaction.track', {
+        interactionId: 'interaction-1',
+        userId: 'user-1',
+        sessionId: 'session-1',
+        action: 'click',
+        context: { page: 'home' },
+        outcome: 'success',
+        timestamp: new Date()
+      });
+
+      expect(delivery.delivered.sort()).toEqual([aiko.id, audit.id].sort());
+      expect(delivery.failed).toHaveLength(0);
+
+      await mesh.shutdown();
+      expect(aiko.getStatus().status).toBe('shutting-down');
+      expect(specEngine.getStatus().status).toBe('shutting-down');
+    });
+  });
+});
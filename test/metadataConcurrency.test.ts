@@ -0,0 +1,191 @@
+// test/metadataConcurrency.test.ts
+// Tests for the metadata lock, journaled metadata writes and crash recovery
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { spawn, spawnSync } from 'child_process';
+import { RyuMetadataDAG } from '../src/backup/ContentAddressableStorage';
+import { FileLock, LockTimeoutError } from '../src/backup/FileLock';
+import { JOURNAL_FILE, createJournal } from '../src/backup/MetadataJournal';
+import { generateSigningKey } from '../src/backup/SnapshotChain';
+
+// Loads the TypeScript sources in a plain node process and records snapshots
+const WORKER_SCRIPT = `
+const fs = require('fs');
+const ts = require('typescript');
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+    fileName: filename
+  });
+  module._compile(outputText, filename);
+};
+const { RyuMetadataDAG } = require(process.env.DAG_MODULE);
+const { createSigningKey } = require(process.env.CHAIN_MODULE);
+(async () => {
+  const dag = new RyuMetadataDAG(process.env.DAG_PATH, { signingKey: createSigningKey(process.env.SIGNING_KEY) });
+  for (let i = 0; i < Number(process.env.SNAPSHOTS); i++) {
+    await dag.createSnapshot({}, [], process.env.WORKER + '-' + i, [], false);
+  }
+})().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
+`;
+
+function runWorker(env: Record<string, string>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['-e', WORKER_SCRIPT], {
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', reject);
+    child.on('exit', code => code === 0 ? resolve() : reject(new Error(`Worker ${env.WORKER} exited with ${code}: ${stderr}`)));
+  });
+}
+
+describe('Metadata concurrency', () => {
+  let dagPath: string;
+
+  beforeEach((): void => {
+    dagPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-concurrency-'));
+  });
+
+  afterEach((): void => {
+    jest.restoreAllMocks();
+    fs.rmSync(dagPath, { recursive: true, force: true });
+  });
+
+  describe('FileLock', () => {
+    it('should serialise holders and not lock again when nested', async (): Promise<void> => {
+      const lockPath = path.join(dagPath, '.lock');
+      const locks = [new FileLock(lockPath), new FileLock(lockPath)];
+      let holders = 0;
+      let maxHolders = 0;
+
+      await Promise.all([0, 1, 2, 3].map(i => locks[i % 2].withLock(async () => {
+        holders++;
+        maxHolders = Math.max(maxHolders, holders);
+        expect(await locks[i % 2].withLock(async () => locks[i % 2].held)).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        holders--;
+      })));
+
+      expect(maxHolders).toBe(1);
+      expect(locks[0].held).toBe(false);
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it('should time out on a live holder and break the lock of a dead one', async (): Promise<void> => {
+      const lockPath = path.join(dagPath, '.lock');
+      const holder = new FileLock(lockPath);
+      expect(holder.tryAcquire()).toBe(true);
+
+      const waiting = new FileLock(lockPath, { timeoutMs: 50 });
+      const error = await waiting.withLock(async () => undefined).catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(LockTimeoutError);
+      expect((error as LockTimeoutError).holder?.pid).toBe(process.pid);
+
+      // A process that has exited cannot release its lock
+      const { pid } = spawnSync(process.execPath, ['-e', '']);
+      fs.writeFileSync(lockPath, JSON.stringify({ pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() }));
+      expect(await waiting.withLock(async () => 'acquired')).toBe('acquired');
+    });
+  });
+
+  it('should keep the writes of every DAG sharing the directory', async (): Promise<void> => {
+    const signingKey = generateSigningKey();
+    const dags = [new RyuMetadataDAG(dagPath, { signingKey }), new RyuMetadataDAG(dagPath, { signingKey })];
+
+    await Promise.all([0, 1, 2, 3, 4, 5].map(i => dags[i % 2].createSnapshot({}, [], `snapshot-${i}`, [], false)));
+
+    const reopened = new RyuMetadataDAG(dagPath, { signingKey });
+    expect((await reopened.listSnapshots()).map(snapshot => snapshot.description).sort())
+      .toEqual(['snapshot-0', 'snapshot-1', 'snapshot-2', 'snapshot-3', 'snapshot-4', 'snapshot-5']);
+    expect(await reopened.verifyChain()).toMatchObject({ valid: true, entries: 6 });
+  });
+
+  describe('crash recovery', () => {
+    const snapshotsPath = (): string => path.join(dagPath, 'snapshots.json');
+    let before: Buffer;
+    let after: Buffer;
+
+    // Leaves snapshots.json as it was before the second snapshot, with the
+    // journal of the write that added it
+    beforeEach(async (): Promise<void> => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const dag = new RyuMetadataDAG(dagPath);
+      await dag.createSnapshot({}, [], 'first', [], false);
+      before = fs.readFileSync(snapshotsPath());
+      await dag.createSnapshot({}, [], 'second', [], false);
+      after = fs.readFileSync(snapshotsPath());
+      fs.writeFileSync(snapshotsPath(), before);
+      fs.writeFileSync(path.join(dagPath, '.1234-interrupted.tmp'), after.subarray(0, 10));
+    });
+
+    it('should replay a complete journal on startup', async (): Promise<void> => {
+      fs.writeFileSync(path.join(dagPath, JOURNAL_FILE), JSON.stringify(createJournal([{ fileName: 'snapshots.json', data: after }])));
+
+      const dag = new RyuMetadataDAG(dagPath);
+
+      expect((await dag.listSnapshots()).map(snapshot => snapshot.description)).toEqual(['first', 'second']);
+      expect(fs.readFileSync(snapshotsPath())).toEqual(after);
+      expect(fs.readdirSync(dagPath).sort()).toEqual(['snapshots.json']);
+      expect(console.warn).toHaveBeenCalledWith(`Replayed interrupted metadata write of snapshots.json in ${dagPath}`);
+    });
+
+    it('should discard a torn journal and keep the previous files', async (): Promise<void> => {
+      const journal = JSON.stringify(createJournal([{ fileName: 'snapshots.json', data: after }]));
+      fs.writeFileSync(path.join(dagPath, JOURNAL_FILE), journal.slice(0, journal.length / 2));
+
+      const dag = new RyuMetadataDAG(dagPath);
+
+      expect((await dag.listSnapshots()).map(snapshot => snapshot.description)).toEqual(['first']);
+      expect(fs.readFileSync(snapshotsPath())).toEqual(before);
+      expect(fs.readdirSync(dagPath).sort()).toEqual(['snapshots.json']);
+      expect(console.warn).toHaveBeenCalledWith(`Discarded incomplete metadata journal in ${dagPath}`);
+    });
+
+    it('should leave recovery to the holder of the lock', async (): Promise<void> => {
+      const journalPath = path.join(dagPath, JOURNAL_FILE);
+      fs.writeFileSync(journalPath, JSON.stringify(createJournal([{ fileName: 'snapshots.json', data: after }])));
+      const holder = new FileLock(path.join(dagPath, '.lock'));
+      expect(holder.tryAcquire()).toBe(true);
+
+      const dag = new RyuMetadataDAG(dagPath, { lock: { timeoutMs: 5000 } });
+      expect(fs.existsSync(journalPath)).toBe(true);
+      expect(await dag.listSnapshots()).toHaveLength(1);
+
+      holder.release();
+      await dag.createSnapshot({}, [], 'third', [], false);
+      expect((await dag.listSnapshots()).map(snapshot => snapshot.description)).toEqual(['first', 'second', 'third']);
+    });
+  });
+
+  it('should not lose snapshots written by several processes at once', async (): Promise<void> => {
+    const signingKey = generateSigningKey();
+    const workers = ['a', 'b', 'c', 'd'];
+    const snapshotsPerWorker = 10;
+
+    await Promise.all(workers.map(worker => runWorker({
+      WORKER: worker,
+      SNAPSHOTS: String(snapshotsPerWorker),
+      DAG_PATH: dagPath,
+      DAG_MODULE: path.resolve('src/backup/ContentAddressableStorage.ts'),
+      CHAIN_MODULE: path.resolve('src/backup/SnapshotChain.ts'),
+      SIGNING_KEY: signingKey.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+    })));
+
+    const dag = new RyuMetadataDAG(dagPath, { signingKey });
+    const descriptions = (await dag.listSnapshots()).map(snapshot => snapshot.description).sort();
+    expect(descriptions).toEqual(workers.flatMap(worker => Array.from({ length: snapshotsPerWorker }, (_, i) => `${worker}-${i}`)).sort());
+    expect(await dag.verifyChain()).toMatchObject({ valid: true, entries: workers.length * snapshotsPerWorker, problems: [] });
+    expect(fs.readdirSync(dagPath).sort()).toEqual(['chain.json', 'snapshots.json']);
+  }, 120000);
+});
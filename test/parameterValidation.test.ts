@@ -0,0 +1,79 @@
+// test/parameterValidation.test.ts
+// Tests for Parameter-based payload validation
+
+import {
+  matchesParameterType,
+  validateParameters
+} from '../src/specifications/ParameterValidation';
+import { Parameter, ValidationInput, ValidationResult } from '../src/agents/AgentContract';
+
+const param = (name: string, type: string, required = true, extra: Partial<Parameter> = {}): Parameter => ({
+  name,
+  type,
+  required,
+  description: name,
+  ...extra
+});
+
+describe('ParameterValidation', () => {
+  it('should match primitive, array, record and union types', () => {
+    expect(matchesParameterType('a', 'string')).toBe(true);
+    expect(matchesParameterType(NaN, 'number')).toBe(false);
+    expect(matchesParameterType(2.5, 'integer')).toBe(false);
+    expect(matchesParameterType('2024-01-01', 'date')).toBe(true);
+    expect(matchesParameterType([1, 2], 'number[]')).toBe(true);
+    expect(matchesParameterType([1, 'x'], 'Array<number>')).toBe(false);
+    expect(matchesParameterType([[1], [2]], 'number[][]')).toBe(true);
+    expect(matchesParameterType({ a: 1, b: 2 }, 'Record<string, number>')).toBe(true);
+    expect(matchesParameterType({ a: 'x' }, 'Record<string, number>')).toBe(false);
+    expect(matchesParameterType([], 'object')).toBe(false);
+    expect(matchesParameterType(null, 'string | null')).toBe(true);
+    expect(matchesParameterType({ anything: true }, 'CustomerProfile')).toBe(true);
+  });
+
+  it('should report missing required and mistyped parameters by name', () => {
+    const errors = validateParameters('charge', 'input', [
+      param('amount', 'number'),
+      param('currency', 'string'),
+      param('note', 'string', false),
+      param('items', 'string[]')
+    ], { currency: 42, items: ['a', 1] });
+
+    expect(errors).toEqual([
+      expect.objectContaining({ parameter: 'amount', code: 'required', message: 'Capability charge input amount is required' }),
+      expect.objectContaining({ parameter: 'currency', code: 'type', expected: 'string', actual: 'number' }),
+      expect.objectContaining({ parameter: 'items', code: 'type', expected: 'string[]', actual: 'array' })
+    ]);
+    expect(errors.every(error => error.capabilityId === 'charge' && error.direction === 'input')).toBe(true);
+  });
+
+  it('should reject payloads that are not objects', () => {
+    const [error] = validateParameters('charge', 'output', [param('status', 'string')], 'ok');
+
+    expect(error).toEqual(expect.objectContaining({ parameter: '*', code: 'type', expected: 'object', actual: 'string' }));
+    expect(validateParameters('noop', 'output', [], 'ok')).toEqual([]);
+  });
+
+  it('should run per-parameter validators', () => {
+    const positive = {
+      id: 'positive',
+      name: 'positive amount',
+      rule: 'amount > 0',
+      errorMessage: 'Amount must be positive',
+      validator: <T>(input: ValidationInput<T>): ValidationResult => ({
+        result: (input.data as unknown as number) > 0,
+        consensus: true
+      })
+    };
+
+    const errors = validateParameters('charge', 'input', [param('amount', 'number', true, { validation: positive })], {
+      amount: -5
+    }, { environment: 'production' });
+
+    expect(errors).toEqual([expect.objectContaining({
+      parameter: 'amount',
+      code: 'validation',
+      message: 'Capability charge input amount failed positive amount: Amount must be positive'
+    })]);
+  });
+});
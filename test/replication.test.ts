@@ -0,0 +1,181 @@
+// test/replication.test.ts
+// Tests for replicating a backup store to secondary CAS targets
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { AikoCAS, AikoRyuBackupManager, ContentAddressableStorage, computeContentHash } from '../src/backup/ContentAddressableStorage';
+import { MemoryCAS } from '../src/backup/MemoryCAS';
+import { isReplicaRecord, toReplicaRecord } from '../src/backup/Replication';
+import { AikoAgent } from '../src/agents/AikoAgent';
+
+// Refuses every write, like a disk that has gone away, until brought back
+class UnavailableCAS extends MemoryCAS {
+  online = false;
+
+  async store(content: unknown, metadata?: Record<string, unknown>): Promise<string> {
+    if (!this.online) {
+      throw new Error('disk unavailable');
+    }
+    return await super.store(content, metadata);
+  }
+}
+
+async function listRecords(cas: ContentAddressableStorage): Promise<string[]> {
+  const ids: string[] = [];
+  for (const hash of await cas.list()) {
+    const content = await cas.retrieve(hash).catch(() => undefined);
+    if (isReplicaRecord(content)) {
+      ids.push(content.snapshot.id);
+    }
+  }
+  return ids.sort();
+}
+
+describe('Replication', () => {
+  let root: string;
+  let storagePath: string;
+  let replicaPath: string;
+
+  beforeEach((): void => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-replication-'));
+    storagePath = path.join(root, 'primary');
+    replicaPath = path.join(root, 'replica');
+  });
+
+  afterEach((): void => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should mirror snapshots to every target before returning in sync mode', async (): Promise<void> => {
+    const disk = new AikoCAS(replicaPath);
+    const memory = new MemoryCAS();
+    const manager = new AikoRyuBackupManager(storagePath, {
+      replication: { targets: [{ name: 'disk', cas: disk }, { name: 'memory', cas: memory }] }
+    });
+    manager.registerAgent(new AikoAgent('aiko-1'));
+
+    const snapshot = await manager.createSnapshot('mirrored');
+
+    const node = snapshot.metadataDAG.nodes['aiko-1'];
+    expect(disk.exists(node.hash)).toBe(true);
+    expect(memory.exists(node.hash)).toBe(true);
+    expect(await listRecords(disk)).toEqual([snapshot.id]);
+    expect(memory.exists(computeContentHash(toReplicaRecord(snapshot)))).toBe(true);
+
+    const report = await manager.verifyReplication();
+    expect(report).toMatchObject({ mode: 'sync', pending: 0, failures: [], inSync: true });
+    expect(report.targets.map(target => target.target)).toEqual(['disk', 'memory']);
+  });
+
+  it('should queue changes in async mode and mirror deletes', async (): Promise<void> => {
+    const replica = new MemoryCAS();
+    const manager = new AikoRyuBackupManager(storagePath, {
+      replication: { mode: 'async', targets: [{ name: 'memory', cas: replica }] }
+    });
+    manager.registerAgent(new AikoAgent('aiko-1'));
+
+    const kept = await manager.createSnapshot('kept', [], false);
+    const dropped = await manager.createSnapshot('dropped', [], false, kept.id);
+    await manager.flushReplication();
+    expect(await listRecords(replica)).toEqual([kept.id, dropped.id].sort());
+
+    await manager.deleteSnapshot(dropped.id);
+    await manager.flushReplication();
+
+    expect(await listRecords(replica)).toEqual([kept.id]);
+    expect((await manager.verifyReplication()).inSync).toBe(true);
+  });
+
+  it('should report targets that fail', async (): Promise<void> => {
+    const offline = new UnavailableCAS();
+    const targets = [{ name: 'memory', cas: new MemoryCAS() }, { name: 'offline', cas: offline }];
+    const syncManager = new AikoRyuBackupManager(storagePath, { replication: { targets } });
+    syncManager.registerAgent(new AikoAgent('aiko-1'));
+
+    // The snapshot is committed on the primary, so a failed target does not throw
+    const synced = await syncManager.createSnapshot('sync');
+    expect(await syncManager.listSnapshots()).toEqual([expect.objectContaining({ id: synced.id })]);
+    const syncReport = await syncManager.verifyReplication();
+    expect(syncReport.failures).toEqual([
+      { target: 'offline', change: { kind: 'snapshot', snapshotId: synced.id }, attempts: 1, error: 'disk unavailable' }
+    ]);
+    expect(syncReport.targets.find(target => target.target === 'memory')?.inSync).toBe(true);
+    expect(syncReport.inSync).toBe(false);
+
+    // Once the target is back, sync() repairs it and clears the failures
+    offline.online = true;
+    await syncManager.sync('push');
+    expect(await syncManager.verifyReplication()).toMatchObject({ failures: [], inSync: true });
+
+    const asyncManager = new AikoRyuBackupManager(path.join(root, 'async'), {
+      replication: { targets: [{ name: 'offline', cas: new UnavailableCAS() }], mode: 'async', maxAttempts: 2, retryDelayMs: 1 }
+    });
+    asyncManager.registerAgent(new AikoAgent('aiko-1'));
+    const snapshot = await asyncManager.createSnapshot('async');
+    await asyncManager.flushReplication();
+
+    const report = await asyncManager.verifyReplication();
+    expect(report.failures).toEqual([
+      { target: 'offline', change: { kind: 'snapshot', snapshotId: snapshot.id }, attempts: 2, error: 'disk unavailable' }
+    ]);
+    expect(report.targets.find(target => target.target === 'offline')?.missingSnapshots).toEqual([snapshot.id]);
+    expect(report.inSync).toBe(false);
+  });
+
+  it('should copy only missing hashes in either direction', async (): Promise<void> => {
+    // Snapshots taken before replication was set up, plus a binary blob
+    const original = new AikoRyuBackupManager(storagePath);
+    original.registerAgent(new AikoAgent('aiko-1'));
+    const before = await original.createSnapshot('before replication');
+    const binary = await new AikoCAS(storagePath).storeStream(Buffer.from('model weights'));
+
+    const replica = new AikoCAS(replicaPath);
+    const manager = new AikoRyuBackupManager(storagePath, { replication: { targets: [{ name: 'disk', cas: replica }] } });
+    expect(await manager.verifyReplication()).toMatchObject({ inSync: false, targets: [{ missingSnapshots: [before.id] }] });
+
+    const pushed = await manager.sync('push');
+    expect(pushed.targets[0].pushed).toContain(binary);
+    expect(pushed.targets[0].snapshotsPushed).toEqual([before.id]);
+    expect(pushed.targets[0].pulled).toEqual([]);
+    expect((await manager.sync()).targets[0]).toEqual({
+      target: 'disk', pushed: [], pulled: [], snapshotsPushed: [], snapshotsPulled: [], snapshotsSkipped: []
+    });
+
+    // A fresh store recovers everything from the replica
+    const restored = new AikoRyuBackupManager(path.join(root, 'restored'), { replication: { targets: [{ name: 'disk', cas: replica }] } });
+    const pulled = await restored.sync('pull');
+    expect(pulled.targets[0].snapshotsPulled).toEqual([before.id]);
+    expect(pulled.targets[0].pulled.sort()).toEqual((await new AikoCAS(storagePath).list()).sort());
+    expect((await restored.listSnapshots())[0]).toMatchObject({ id: before.id, description: 'before replication' });
+    expect((await restored.verifyReplication()).inSync).toBe(true);
+    expect(await restored.fsck()).toMatchObject({ healthy: true });
+  });
+
+  it('should find missing, corrupt and extra content on a target', async (): Promise<void> => {
+    const replica = new AikoCAS(replicaPath);
+    const manager = new AikoRyuBackupManager(storagePath, { replication: { targets: [{ name: 'disk', cas: replica }] } });
+    manager.registerAgent(new AikoAgent('aiko-1'));
+    const first = await manager.createSnapshot('first', [], false);
+    const second = await manager.createSnapshot('second', [], false);
+    const hash = first.metadataDAG.nodes['aiko-1'].hash;
+    const secondRecord = computeContentHash(toReplicaRecord(second));
+
+    fs.writeFileSync(path.join(replicaPath, 'blobs', `${hash}.json`), JSON.stringify({ content: { tampered: true }, metadata: {} }));
+    await replica.delete(secondRecord);
+    await replica.store(toReplicaRecord({ ...second, id: 'snapshot-elsewhere' }));
+
+    const [target] = (await manager.verifyReplication()).targets;
+    expect(target).toEqual({
+      target: 'disk',
+      missingBlobs: [],
+      corruptBlobs: [hash],
+      missingSnapshots: [second.id],
+      extraSnapshots: ['snapshot-elsewhere'],
+      inSync: false
+    });
+
+    await expect(new AikoRyuBackupManager(storagePath).sync()).rejects.toThrow('Replication is not configured');
+  });
+});
@@ -0,0 +1,151 @@
+// test/retentionPolicy.test.ts
+// Tests for declarative snapshot retention and the planRetention preview
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AikoRyuBackupManager, BackupSnapshot, RegenerationPolicy, RyuMetadataDAG } from '../src/backup/ContentAddressableStorage';
+import { applyLegacyRetention, applyRetentionPolicy } from '../src/backup/RetentionPolicy';
+
+function buildSnapshot(id: string, timestamp: string, tags: string[] = [], immutable: boolean = false): BackupSnapshot {
+  return {
+    id,
+    timestamp: new Date(timestamp),
+    metadataDAG: { timestamp: new Date(timestamp), version: '1.0.0', nodes: {}, edges: [], consensus: true, validatedBy: [] },
+    casHashes: [],
+    version: '1.0.0',
+    description: id,
+    tags,
+    immutable
+  };
+}
+
+const policy = (retention: RegenerationPolicy['retention']): RegenerationPolicy => ({
+  strategy: 'incremental',
+  validateBeforeRestore: true,
+  preserveHistory: true,
+  maxSnapshots: 10,
+  ttlDays: 30,
+  retention
+});
+
+describe('Retention policies', () => {
+  // Wednesday
+  const now = new Date('2025-05-14T12:00:00.000Z');
+
+  // Two snapshots a day, every day from 2025-01-01 to 2025-05-14, in creation order
+  const history: BackupSnapshot[] = [];
+  for (let day = new Date('2025-01-01T00:00:00.000Z'); day <= now; day = new Date(day.getTime() + 86400000)) {
+    const date = day.toISOString().slice(0, 10);
+    history.push(buildSnapshot(`${date}-am`, `${date}T06:00:00.000Z`), buildSnapshot(`${date}-pm`, `${date}T11:00:00.000Z`));
+  }
+
+  it('should keep the newest snapshot of each recent day, week and month', (): void => {
+    const plan = applyRetentionPolicy(history, { keepDaily: 3, keepWeekly: 2, keepMonthly: 3 }, now);
+
+    expect(plan.keep).toEqual([
+      '2025-05-14-pm', '2025-05-13-pm', '2025-05-12-pm', '2025-05-11-pm', '2025-04-30-pm', '2025-03-31-pm'
+    ]);
+    expect(plan.decisions[0]).toEqual({
+      snapshotId: '2025-05-14-pm',
+      timestamp: new Date('2025-05-14T11:00:00.000Z'),
+      keep: true,
+      reasons: ['daily 2025-05-14', 'weekly 2025-05-12', 'monthly 2025-05']
+    });
+    expect(plan.decisions.find(decision => decision.snapshotId === '2025-05-11-pm')?.reasons).toEqual(['weekly 2025-05-05']);
+    expect(plan.prune).toHaveLength(history.length - plan.keep.length);
+    expect(plan.evaluatedAt).toBe(now);
+  });
+
+  it('should keep the last N, pinned tags and immutable snapshots', (): void => {
+    const snapshots = [
+      buildSnapshot('release', '2024-01-01T00:00:00.000Z', ['release', 'v1']),
+      buildSnapshot('audit', '2024-02-01T00:00:00.000Z', [], true),
+      buildSnapshot('old', '2024-03-01T00:00:00.000Z'),
+      buildSnapshot('newer', '2025-05-13T00:00:00.000Z'),
+      buildSnapshot('newest', '2025-05-14T00:00:00.000Z')
+    ];
+
+    const plan = applyRetentionPolicy(snapshots, { keepLast: 2, pinnedTags: ['release'] }, now);
+
+    expect(plan.decisions.map(decision => [decision.snapshotId, decision.reasons])).toEqual([
+      ['newest', ['last']],
+      ['newer', ['last']],
+      ['old', []],
+      ['audit', ['immutable']],
+      ['release', ['tag release']]
+    ]);
+    expect(plan.prune).toEqual(['old']);
+    expect(applyRetentionPolicy(snapshots, {}, now).keep).toEqual(['audit']);
+  });
+
+  it('should let the newer of two same-millisecond snapshots win a bucket', (): void => {
+    const plan = applyRetentionPolicy([
+      buildSnapshot('first', '2025-05-14T08:00:00.000Z'),
+      buildSnapshot('second', '2025-05-14T08:00:00.000Z')
+    ], { keepDaily: 1 }, now);
+
+    expect(plan.keep).toEqual(['second']);
+  });
+
+  it('should apply maxSnapshots and ttlDays without a retention policy', (): void => {
+    const snapshots = [
+      buildSnapshot('expired', '2025-03-01T00:00:00.000Z'),
+      buildSnapshot('expired-immutable', '2025-03-02T00:00:00.000Z', [], true),
+      buildSnapshot('a', '2025-05-10T00:00:00.000Z'),
+      buildSnapshot('b', '2025-05-11T00:00:00.000Z'),
+      buildSnapshot('c', '2025-05-12T00:00:00.000Z')
+    ];
+
+    const plan = applyLegacyRetention(snapshots, 2, 30, now);
+
+    expect(plan.keep).toEqual(['c', 'b', 'expired-immutable']);
+    expect(plan.prune).toEqual(['a', 'expired']);
+  });
+
+  describe('garbage collection', () => {
+    let storagePath: string;
+
+    beforeEach((): void => {
+      storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-retention-'));
+    });
+
+    afterEach((): void => {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should prune exactly what planRetention previewed', async (): Promise<void> => {
+      const dag = new RyuMetadataDAG(storagePath);
+      const created: BackupSnapshot[] = [];
+      for (const tags of [['release'], [], [], [], []]) {
+        created.push(await dag.createSnapshot({}, [], 'nightly', tags, false));
+      }
+      await dag.createSnapshot({}, [], 'audit', [], true);
+      const retention = policy({ keepLast: 2, pinnedTags: ['release'] });
+
+      const plan = dag.planRetention(retention);
+      // The immutable snapshot is the newest, so it counts towards keepLast
+      expect(plan.prune).toEqual([created[3].id, created[2].id, created[1].id]);
+      expect(await dag.garbageCollect(retention, true)).toEqual(plan.prune);
+      expect(await dag.listSnapshots()).toHaveLength(6);
+
+      expect(await dag.garbageCollect(retention)).toEqual(plan.prune);
+      expect((await dag.listSnapshots()).map(snapshot => snapshot.id).sort())
+        .toEqual(plan.keep.slice().sort());
+    });
+
+    it('should preview and collect through the backup manager', async (): Promise<void> => {
+      const manager = new AikoRyuBackupManager(storagePath);
+      const pinned = await manager.createSnapshot('pinned', ['keep-forever'], false);
+      await manager.createSnapshot('stale', [], false);
+      const latest = await manager.createSnapshot('latest', [], false);
+      const retention = policy({ keepLast: 1, pinnedTags: ['keep-forever'] });
+
+      const plan = manager.planRetention(retention);
+      const report = await manager.collectGarbage({ policy: retention });
+
+      expect(report.snapshotsDeleted).toEqual(plan.prune);
+      expect((await manager.listSnapshots()).map(snapshot => snapshot.id)).toEqual([pinned.id, latest.id]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+// test/ryuIntegrityAgent.test.ts
+// Tests for the Ryu integrity guardian agent
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Buffer } from 'buffer';
+import { RyuIntegrityAgent } from '../src/agents/RyuIntegrityAgent';
+import { AgentSpecification, ValidationEventPayload } from '../src/agents/AgentContract';
+import { AikoCAS } from '../src/backup/ContentAddressableStorage';
+import { buildNode } from './fixtures';
+
+const buildSpec = (): AgentSpecification => ({
+  id: 'report-agent',
+  role: 'Reporter',
+  dependencies: [],
+  capabilities: [{
+    id: 'cap-report',
+    name: 'Generate Report',
+    description: 'Generates a report',
+    inputs: [{ name: 'query', type: 'string', required: true, description: 'Report query' }],
+    outputs: [
+      { name: 'summary', type: 'string', required: true, description: 'Report summary' },
+      { name: 'rows', type: 'array', required: true, description: 'Report rows' },
+      { name: 'meta', type: 'object', required: false, description: 'Report metadata' }
+    ],
+    preconditions: [],
+    postconditions: [
+      { id: 'post-approved', expression: 'approval.granted', description: 'Report approved', operator: 'and' },
+      { id: 'post-no-errors', expression: 'errors', description: 'No errors reported', operator: 'not' }
+    ]
+  }],
+  interfaces: [],
+  behaviors: [],
+  constraints: [],
+  validationRules: [],
+  designIntent: {
+    purpose: 'Produce reports',
+    userGoals: ['Read reports'],
+    successMetrics: [],
+    designPrinciples: [],
+    accessibilityRequirements: []
+  },
+  userRequirements: []
+});
+
+describe('RyuIntegrityAgent', () => {
+  let storagePath: string;
+  let cas: AikoCAS;
+  let agent: RyuIntegrityAgent;
+
+  beforeEach(async () => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'ryu-integrity-'));
+    cas = new AikoCAS(storagePath);
+    agent = new RyuIntegrityAgent('ryu-1', cas);
+    await agent.initialize();
+  });
+
+  afterEach(async () => {
+    await agent.shutdown();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  describe('Output validation against capability contracts', () => {
+    beforeEach(() => {
+      expect(agent.validateSpecification(buildSpec()).result).toBe(true);
+    });
+
+    it('should pass outputs that satisfy declared outputs and postconditions', () => {
+      const result = agent.validateIntegrity(
+        { summary: 'ok', rows: [1, 2], approval: { granted: true } },
+        { specificationId: 'report-agent', capabilityId: 'cap-report' }
+      );
+
+      expect(result.result).toBe(true);
+      expect(result.consensus).toBe(true);
+      expect(result.escalatedTo).toBeUndefined();
+      expect(result.details?.checksFailed).toBe(0);
+      expect(result.details?.consensusRatio).toBe(1);
+    });
+
+    it('should fail outputs with missing or mistyped fields and violated postconditions', () => {
+      const result = agent.validateIntegrity(
+        { summary: 42, approval: { granted: false }, errors: ['boom'] },
+        { specificationId: 'report-agent', capabilityId: 'cap-report' }
+      );
+
+      expect(result.result).toBe(false);
+      expect(result.consensus).toBe(false);
+      expect(result.escalatedTo).toBe('IntegrityGuardian');
+      expect(result.reason).toContain('Output summary is not of type string');
+      expect(result.reason).toContain('Required output rows is missing');
+      expect(result.reason).toContain('Postcondition post-approved violated: approval.granted');
+      expect(result.details?.failedChecks).toContain('postcondition.post-no-errors');
+    });
+
+    it('should reach consensus below a relaxed threshold', async () => {
+      const lenient = new RyuIntegrityAgent('ryu-lenient', cas, 0.5);
+      lenient.validateSpecification(buildSpec());
+
+      const result = lenient.validateIntegrity(
+        { summary: 'ok', rows: [], approval: { granted: true }, errors: ['minor'] },
+        { specificationId: 'report-agent', capabilityId: 'cap-report' }
+      );
+
+      expect(result.result).toBe(false);
+      expect(result.consensus).toBe(true);
+    });
+
+    it('should fail when the referenced contract is unknown', () => {
+      const result = agent.validateIntegrity({ summary: 'ok' }, { specificationId: 'unknown-spec' });
+      expect(result.result).toBe(false);
+      expect(result.reason).toContain('No capability contract found');
+    });
+
+    it('should validate outputs routed through integrity.validate events', async () => {
+      const payload: ValidationEventPayload = {
+        ruleId: 'cap-report',
+        input: { output: { summary: 'ok', rows: [] }, specificationId: 'report-agent', capabilityId: 'cap-report' },
+        result: { result: true, consensus: true },
+        context: 'report-agent',
+        timestamp: new Date(),
+        correlationId: 'evt-integrity'
+      };
+
+      await agent.handleEvent('integrity.validate', payload);
+
+      const [entry] = agent.getValidationHistory().slice(-1);
+      expect(entry.context.correlationId).toBe('evt-integrity');
+      expect(entry.result.reason).toContain('Postcondition post-approved violated');
+    });
+  });
+
+  describe('CAS hash verification', () => {
+    it('should verify hashes referenced by DAG nodes', async () => {
+      const input = await cas.store({ query: 'monthly' });
+      const output = await cas.store({ summary: 'ok', rows: [] });
+
+      const result = await agent.verifyNodeHashes({ report: buildNode('report', output, { metadata: { inputHashes: [input] } }) });
+
+      expect(result.result).toBe(true);
+      expect(result.details?.checksRun).toBe(2);
+    });
+
+    it('should detect missing and tampered blobs', async () => {
+      const output = await cas.store({ summary: 'ok', rows: [] });
+      const blobPath = path.join(storagePath, 'blobs', `${output}.json`);
+      const blob = JSON.parse(fs.readFileSync(blobPath, 'utf-8'));
+      blob.content.summary = 'tampered';
+      fs.writeFileSync(blobPath, JSON.stringify(blob));
+
+      const missing = 'f'.repeat(64);
+      const result = await agent.verifyNodeHashes([buildNode('report', output, { metadata: { inputHashes: [missing] } })]);
+
+      expect(result.result).toBe(false);
+      expect(result.details?.checksFailed).toBe(2);
+      expect(result.reason).toContain(`Content hash mismatch for ${output}`);
+      expect(result.reason).toContain(`Content not found in CAS: ${missing}`);
+    });
+
+    it('should record a validation for every cas.content.stored event', async () => {
+      const hash = await cas.store({ data: 'event-driven' });
+      await agent.handleEvent('cas.content.stored', {
+        hash,
+        operation: 'store',
+        timestamp: new Date(),
+        correlationId: hash
+      });
+
+      const artifact = agent.generateDesignArtifacts()[0];
+      expect(artifact.content.metadata.validationCount).toBe(1);
+      expect(agent.getValidationHistory()[0].result.result).toBe(true);
+    });
+
+    it('should verify streamed binary blobs', async () => {
+      const hash = await cas.storeStream(Buffer.from('model weights'));
+      await agent.handleEvent('cas.content.stored', {
+        hash,
+        operation: 'store',
+        timestamp: new Date(),
+        correlationId: hash
+      });
+
+      expect(agent.getValidationHistory()[0].result.result).toBe(true);
+      expect((await agent.verifyHash(hash)).result).toBe(true);
+
+      const chunksPath = path.join(storagePath, 'chunks');
+      for (const chunk of fs.readdirSync(chunksPath)) {
+        fs.writeFileSync(path.join(chunksPath, chunk), 'tampered');
+      }
+      const tampered = await agent.verifyHash(hash);
+      expect(tampered.result).toBe(false);
+      expect(tampered.reason).toContain(`Content hash mismatch for ${hash}`);
+    });
+  });
+});
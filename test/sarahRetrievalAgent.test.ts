@@ -0,0 +1,165 @@
+// test/sarahRetrievalAgent.test.ts
+// Tests for the Sarah BM25 retrieval agent
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SarahRetrievalAgent } from '../src/agents/SarahRetrievalAgent';
+import { SpecificationEngine } from '../src/specifications/SpecificationEngine';
+import { AgentSpecification } from '../src/agents/AgentContract';
+
+describe('SarahRetrievalAgent', () => {
+  let sarah: SarahRetrievalAgent;
+
+  beforeEach(async () => {
+    sarah = new SarahRetrievalAgent('sarah-1');
+    await sarah.initialize();
+    sarah.indexDocument('backup.md', [
+      '# Backup',
+      'Snapshots are stored in content addressable storage.',
+      '## Incremental backup',
+      'Incremental backup stores only the nodes that changed since the parent snapshot.',
+      '## Restore',
+      'Restore rehydrates agents from a snapshot.'
+    ].join('\n'));
+    sarah.indexDocument('mesh.md', [
+      '# Mesh',
+      'The mesh starts agents in dependency order and routes events between them.'
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await sarah.shutdown();
+  });
+
+  it('should rank the most relevant passage first', () => {
+    const result = sarah.retrieveKnowledge('how does incremental backup work?');
+
+    expect(result.passages[0]).toEqual(expect.objectContaining({
+      source: 'backup.md',
+      heading: 'Incremental backup'
+    }));
+    expect(result.passages.map(passage => passage.score))
+      .toEqual([...result.passages.map(passage => passage.score)].sort((a, b) => b - a));
+    expect(result.sources).toContain('backup.md');
+    expect(result.content).toContain('only the nodes that changed');
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('should report lower confidence when query terms are missing', () => {
+    const full = sarah.retrieveKnowledge('mesh dependency order');
+    const partial = sarah.retrieveKnowledge('mesh quantum entanglement');
+
+    expect(partial.passages[0].source).toBe('mesh.md');
+    expect(partial.confidence).toBeLessThan(full.confidence);
+  });
+
+  it('should return an empty result when nothing matches', () => {
+    const result = sarah.retrieveKnowledge('kubernetes');
+
+    expect(result.passages).toEqual([]);
+    expect(result.sources).toEqual([]);
+    expect(result.confidence).toBe(0);
+  });
+
+  it('should ignore accents and case when matching', () => {
+    sarah.indexDocument('pt.md', '# Restauração\nA restauração recompõe o estado dos agentes.');
+
+    const result = sarah.retrieveKnowledge('RESTAURACAO');
+    expect(result.passages[0].source).toBe('pt.md');
+  });
+
+  it('should replace passages when a source is re-indexed and remove them on request', () => {
+    sarah.indexDocument('mesh.md', '# Mesh\nThe mesh now supports replication.');
+
+    expect(sarah.retrieveKnowledge('dependency order').sources).not.toContain('mesh.md');
+    expect(sarah.retrieveKnowledge('replication').sources).toEqual(['mesh.md']);
+
+    sarah.removeSource('mesh.md');
+    expect(sarah.retrieveKnowledge('replication').passages).toEqual([]);
+    expect(sarah.getIndexStats().sources).toBe(1);
+  });
+
+  it('should index markdown files below a directory with relative sources', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'sarah-index-'));
+    try {
+      fs.mkdirSync(path.join(root, 'docs', 'modules'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'README.md'), '# Project\nAn autonomous agent mesh.');
+      fs.writeFileSync(path.join(root, 'docs', 'modules', 'ledger.md'), '# Ledger\nSigned manifest chain.');
+      fs.writeFileSync(path.join(root, 'docs', 'notes.txt'), 'ledger ledger ledger');
+
+      const isolated = new SarahRetrievalAgent('sarah-2');
+      expect(await isolated.indexRepository(root)).toBe(2);
+
+      const result = isolated.retrieveKnowledge('signed ledger');
+      expect(result.sources).toEqual([path.join('docs', 'modules', 'ledger.md')]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('should index documentation generated from specifications', () => {
+    const spec = {
+      id: 'billing-agent',
+      role: 'BillingAgent',
+      dependencies: [],
+      capabilities: [{
+        id: 'invoice',
+        name: 'Invoice',
+        description: 'Issues invoices for completed orders',
+        inputs: [],
+        outputs: [],
+        preconditions: [],
+        postconditions: []
+      }],
+      interfaces: [],
+      behaviors: [],
+      constraints: [],
+      validationRules: [],
+      designIntent: {
+        purpose: 'Bill customers',
+        userGoals: [],
+        successMetrics: [],
+        designPrinciples: [],
+        accessibilityRequirements: []
+      },
+      userRequirements: []
+    } as AgentSpecification;
+
+    const documentation = new SpecificationEngine().generateDocumentation(spec);
+    expect(sarah.indexDocumentation(spec.id, documentation)).toBeGreaterThan(0);
+
+    const result = sarah.retrieveKnowledge('BillingAgent');
+    expect(result.sources.every(source => source.startsWith('spec:billing-agent#'))).toBe(true);
+  });
+
+  it('should trace tracked user interactions with their payload', () => {
+    const emitTrace = jest.spyOn(sarah, 'emitTrace').mockImplementation(() => undefined);
+    const interaction = {
+      id: 'interaction-1',
+      userId: 'user-1',
+      sessionId: 'session-1',
+      action: 'search',
+      context: { query: 'restore' },
+      timestamp: new Date(),
+      outcome: 'success' as const
+    };
+
+    sarah.trackUserInteraction(interaction);
+
+    expect(emitTrace).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'user.interaction.tracked',
+      payload: expect.objectContaining({
+        interactionId: 'interaction-1',
+        userId: 'user-1',
+        sessionId: 'session-1',
+        action: 'search',
+        context: { query: 'restore' },
+        outcome: 'success',
+        correlationId: 'session-1',
+        sourceAgent: 'sarah-1'
+      })
+    }));
+  });
+});
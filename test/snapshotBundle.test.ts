@@ -0,0 +1,192 @@
+// test/snapshotBundle.test.ts
+// Tests for exporting snapshots as portable bundles and importing them elsewhere
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import {
+  AikoCAS,
+  AikoRyuBackupManager,
+  RyuMetadataDAG,
+  SnapshotBundleError,
+  SnapshotBundleManifest
+} from '../src/backup/ContentAddressableStorage';
+import { readTar, writeTar } from '../src/backup/TarArchive';
+import { AikoAgent } from '../src/agents/AikoAgent';
+import { buildNode } from './fixtures';
+
+// Rewrites one entry of a bundle, keeping everything else as exported
+function editBundle(bundle: Buffer, edit: (entries: Map<string, Buffer>) => void): Buffer {
+  const entries = new Map(readTar(bundle).map(entry => [entry.path, entry.data]));
+  edit(entries);
+  return writeTar(Array.from(entries, ([entryPath, data]) => ({ path: entryPath, data })));
+}
+
+describe('Snapshot bundles', () => {
+  let sourcePath: string;
+  let targetPath: string;
+  let source: AikoRyuBackupManager;
+  let target: AikoRyuBackupManager;
+
+  beforeEach((): void => {
+    sourcePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-bundle-source-'));
+    targetPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-bundle-target-'));
+    source = new AikoRyuBackupManager(sourcePath);
+    target = new AikoRyuBackupManager(targetPath);
+  });
+
+  afterEach((): void => {
+    fs.rmSync(sourcePath, { recursive: true, force: true });
+    fs.rmSync(targetPath, { recursive: true, force: true });
+  });
+
+  it('should move agent state to another store', async (): Promise<void> => {
+    const aiko = new AikoAgent('aiko-1');
+    aiko.trackUserInteraction({
+      id: 'interaction-1',
+      userId: 'user-1',
+      sessionId: 'session-1',
+      action: 'report-bug',
+      context: { severity: 'high' },
+      timestamp: new Date('2025-05-01T12:00:00.000Z'),
+      outcome: 'failure'
+    });
+    source.registerAgent(aiko);
+    const snapshot = await source.createSnapshot('Bug report state', ['bug-123']);
+
+    const imported = await target.importSnapshot(await source.exportSnapshot(snapshot.id));
+
+    expect(imported.id).toBe(snapshot.id);
+    expect(imported.timestamp).toEqual(snapshot.timestamp);
+    expect(imported.tags).toEqual(['bug-123']);
+    expect(await target.listSnapshots()).toHaveLength(1);
+
+    const restoredAiko = new AikoAgent('aiko-1');
+    target.registerAgent(restoredAiko);
+    const result = await target.restoreSnapshot(snapshot.id);
+    expect(result.details?.rehydratedAgents).toBe('aiko-1');
+    expect(restoredAiko.captureSnapshotState().state).toEqual(aiko.captureSnapshotState().state);
+  });
+
+  it('should lay out a manifest, the snapshot and its blobs', async (): Promise<void> => {
+    const cas = new AikoCAS(sourcePath);
+    const dag = new RyuMetadataDAG(path.join(sourcePath, 'metadata'));
+    const input = await cas.store({ input: true });
+    const weights = await cas.storeStream(Buffer.from('model weights'));
+    const snapshot = await dag.createSnapshot({ model: buildNode('model', weights, { metadata: { inputHashes: [input] } }) }, [], 'model');
+    source = new AikoRyuBackupManager(sourcePath);
+
+    const bundle = await source.exportSnapshot(snapshot.id);
+    const entries = readTar(bundle);
+    const manifest = JSON.parse(entries[0].data.toString()) as SnapshotBundleManifest;
+
+    expect(entries.map(entry => entry.path)).toEqual([
+      'manifest.json',
+      'snapshot.json',
+      ...[`blobs/${input}.json`, `streams/${weights}.bin`].sort((a, b) =>
+        a.split('/')[1].localeCompare(b.split('/')[1]))
+    ]);
+    expect(manifest.format).toBe('aikoryu-snapshot-bundle');
+    expect(manifest.entries.find(entry => entry.hash === weights)).toEqual({
+      path: `streams/${weights}.bin`, hash: weights, kind: 'binary', size: 13
+    });
+    expect((await source.exportSnapshot(snapshot.id)).equals(bundle)).toBe(true);
+
+    await target.importSnapshot(bundle);
+    const targetCas = new AikoCAS(targetPath);
+    expect(await targetCas.retrieve(input)).toEqual({ input: true });
+    expect((await targetCas.verify(weights)).valid).toBe(true);
+  });
+
+  it('should export incremental snapshots with their full DAG', async (): Promise<void> => {
+    const cas = new AikoCAS(sourcePath);
+    const dag = new RyuMetadataDAG(path.join(sourcePath, 'metadata'));
+    const a = await cas.store({ node: 'a' });
+    const b = await cas.store({ node: 'b' });
+    const base = await dag.createSnapshot({ a: buildNode('a', a) }, [], 'base');
+    const next = await dag.createSnapshot({ a: buildNode('a', a), b: buildNode('b', b) }, [], 'next', [], true, base.id);
+    source = new AikoRyuBackupManager(sourcePath);
+
+    const imported = await target.importSnapshot(await source.exportSnapshot(next.id));
+
+    expect(imported.parentId).toBeUndefined();
+    expect(Object.keys(imported.metadataDAG.nodes).sort()).toEqual(['a', 'b']);
+    expect((await target.restoreSnapshot(next.id)).result).toBe(true);
+  });
+
+  it('should refuse to import a snapshot that already exists', async (): Promise<void> => {
+    const snapshot = await source.createSnapshot('empty');
+    const bundle = await source.exportSnapshot(snapshot.id);
+
+    await expect(source.importSnapshot(bundle)).rejects.toThrow(`Snapshot already exists: ${snapshot.id}`);
+    await expect(source.exportSnapshot('missing')).rejects.toThrow('Snapshot not found: missing');
+  });
+
+  describe('verification', () => {
+    let bundle: Buffer;
+    let blobHash: string;
+
+    beforeEach(async (): Promise<void> => {
+      const cas = new AikoCAS(sourcePath);
+      const dag = new RyuMetadataDAG(path.join(sourcePath, 'metadata'));
+      blobHash = await cas.store({ payload: 'original' });
+      const snapshot = await dag.createSnapshot({ n: buildNode('n', blobHash) }, [], 'verify');
+      bundle = await new AikoRyuBackupManager(sourcePath).exportSnapshot(snapshot.id);
+    });
+
+    async function expectRejected(tampered: Buffer, problem: string): Promise<void> {
+      const error = await target.importSnapshot(tampered).catch((caught: unknown) => caught as SnapshotBundleError);
+      expect(error).toBeInstanceOf(SnapshotBundleError);
+      expect((error as SnapshotBundleError).problems.join('\n')).toContain(problem);
+
+      // Nothing was committed
+      expect(await target.listSnapshots()).toEqual([]);
+      expect(await new AikoCAS(targetPath).list()).toEqual([]);
+    }
+
+    it('should reject a blob whose content does not match its hash', async (): Promise<void> => {
+      const tampered = editBundle(bundle, entries => {
+        entries.set(`blobs/${blobHash}.json`, Buffer.from('{"payload":"tampered"}'));
+      });
+      const actual = crypto.createHash('sha256').update('{"payload":"tampered"}').digest('hex');
+
+      await expectRejected(tampered, `blobs/${blobHash}.json hashes to ${actual}`);
+    });
+
+    it('should reject a bundle missing a referenced blob', async (): Promise<void> => {
+      const tampered = editBundle(bundle, entries => {
+        entries.delete(`blobs/${blobHash}.json`);
+      });
+
+      await expectRejected(tampered, `missing blobs/${blobHash}.json`);
+    });
+
+    it('should reject an edited snapshot record', async (): Promise<void> => {
+      const tampered = editBundle(bundle, entries => {
+        const snapshot = JSON.parse(entries.get('snapshot.json')!.toString());
+        snapshot.immutable = false;
+        entries.set('snapshot.json', Buffer.from(JSON.stringify(snapshot)));
+      });
+
+      await expectRejected(tampered, 'snapshot.json does not match the manifest hash');
+    });
+
+    it('should reject files the manifest does not list and unknown formats', async (): Promise<void> => {
+      await expectRejected(editBundle(bundle, entries => {
+        entries.set('extra.txt', Buffer.from('surprise'));
+      }), 'extra.txt is not in the manifest');
+
+      await expectRejected(editBundle(bundle, entries => {
+        const manifest = JSON.parse(entries.get('manifest.json')!.toString());
+        manifest.version = 2;
+        entries.set('manifest.json', Buffer.from(JSON.stringify(manifest)));
+      }), 'unsupported bundle format: aikoryu-snapshot-bundle v2');
+    });
+
+    it('should reject a truncated archive', async (): Promise<void> => {
+      await expectRejected(bundle.subarray(0, 1024), 'missing its end-of-archive marker');
+    });
+  });
+});
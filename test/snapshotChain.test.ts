@@ -0,0 +1,189 @@
+// test/snapshotChain.test.ts
+// Tests for signed, hash-chained snapshot records and chain verification
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { AikoCAS, AikoRyuBackupManager, BackupSnapshot, RyuMetadataDAG } from '../src/backup/ContentAddressableStorage';
+import { ChainEntry, SigningKey, createSigningKey, generateSigningKey, hashChainEntry } from '../src/backup/SnapshotChain';
+import { MemoryKeyProvider } from '../src/backup/Encryption';
+import { AikoAgent } from '../src/agents/AikoAgent';
+import { buildNode } from './fixtures';
+
+describe('Snapshot chain', () => {
+  let storagePath: string;
+  let metadataPath: string;
+  let signingKey: SigningKey;
+  let dag: RyuMetadataDAG;
+  let hashes: Record<string, string>;
+
+  const readJson = <T>(fileName: string): T => JSON.parse(fs.readFileSync(path.join(metadataPath, fileName), 'utf-8'));
+  const writeJson = (fileName: string, data: unknown): void => {
+    fs.writeFileSync(path.join(metadataPath, fileName), JSON.stringify(data, null, 2));
+  };
+
+  beforeEach(async (): Promise<void> => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-chain-'));
+    metadataPath = path.join(storagePath, 'metadata');
+    signingKey = generateSigningKey();
+    const cas = new AikoCAS(storagePath);
+    hashes = { a: await cas.store({ node: 'a' }), b: await cas.store({ node: 'b' }) };
+    dag = new RyuMetadataDAG(metadataPath, { signingKey });
+  });
+
+  afterEach((): void => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should sign each snapshot and link it to the previous entry', async (): Promise<void> => {
+    const first = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'first');
+    const second = await dag.createSnapshot({ b: buildNode('b', hashes.b) }, [], 'second');
+    const chain = readJson<ChainEntry[]>('chain.json');
+
+    expect(chain.map(entry => [entry.sequence, entry.operation, entry.snapshotId])).toEqual([
+      [0, 'create', first.id],
+      [1, 'create', second.id]
+    ]);
+    expect(chain[0].previousHash).toBeNull();
+    expect(chain[1].previousHash).toBe(hashChainEntry(chain[0]));
+    expect(second.signature).toEqual({
+      sequence: 1, previousHash: chain[1].previousHash, keyId: signingKey.id, signature: chain[1].signature
+    });
+
+    const verification = await dag.verifyChain();
+    expect(verification).toEqual({ valid: true, entries: 2, headHash: hashChainEntry(chain[1]), problems: [] });
+  });
+
+  it('should record deletes, rebases and squashes as signed changes', async (): Promise<void> => {
+    const base = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'base', [], false);
+    const middle = await dag.createSnapshot({ a: buildNode('a', hashes.a), b: buildNode('b', hashes.b) }, [], 'middle', [], false, base.id);
+    const head = await dag.createSnapshot({ b: buildNode('b', hashes.b) }, [], 'head', [], false, middle.id);
+
+    await dag.deleteSnapshot(base.id);
+    await dag.squashSnapshots(head.id);
+
+    const operations = readJson<ChainEntry[]>('chain.json').map(entry => `${entry.operation}:${entry.snapshotId}`);
+    expect(operations).toEqual([
+      `create:${base.id}`, `create:${middle.id}`, `create:${head.id}`,
+      `update:${middle.id}`, `delete:${base.id}`,
+      `update:${head.id}`, `delete:${middle.id}`
+    ]);
+    expect((await new RyuMetadataDAG(metadataPath, { signingKey }).verifyChain()).valid).toBe(true);
+  });
+
+  describe('tampering', () => {
+    let first: BackupSnapshot;
+    let second: BackupSnapshot;
+
+    beforeEach(async (): Promise<void> => {
+      first = await dag.createSnapshot({ a: buildNode('a', hashes.a) }, [], 'first');
+      second = await dag.createSnapshot({ b: buildNode('b', hashes.b) }, [], 'second');
+    });
+
+    it('should detect a snapshot edited on disk', async (): Promise<void> => {
+      const snapshots = readJson<BackupSnapshot[]>('snapshots.json');
+      snapshots[0].description = 'rewritten history';
+      writeJson('snapshots.json', snapshots);
+
+      const verification = await dag.verifyChain();
+      expect(verification.valid).toBe(false);
+      expect(verification.problems).toEqual([
+        { kind: 'edited', snapshotId: first.id, sequence: 0, message: `snapshot ${first.id} was changed after entry 0` }
+      ]);
+    });
+
+    it('should not adopt an edit on a later save', async (): Promise<void> => {
+      const snapshots = readJson<BackupSnapshot[]>('snapshots.json');
+      snapshots[0].tags = ['approved'];
+      writeJson('snapshots.json', snapshots);
+
+      const reopened = new RyuMetadataDAG(metadataPath, { signingKey });
+      await reopened.createSnapshot({}, [], 'third');
+
+      expect((await reopened.verifyChain()).problems.map(problem => problem.kind)).toEqual(['edited']);
+    });
+
+    it('should detect reordered and removed chain entries', async (): Promise<void> => {
+      const chain = readJson<ChainEntry[]>('chain.json');
+      writeJson('chain.json', [chain[1], chain[0]]);
+      expect((await dag.verifyChain()).problems.filter(problem => problem.kind === 'chain')).toHaveLength(2);
+
+      writeJson('chain.json', [chain[1]]);
+      expect((await dag.verifyChain()).problems.map(problem => problem.kind).sort()).toEqual(['chain', 'unrecorded']);
+    });
+
+    it('should detect a snapshot deleted without a record', async (): Promise<void> => {
+      writeJson('snapshots.json', readJson<BackupSnapshot[]>('snapshots.json').filter(snapshot => snapshot.id !== first.id));
+
+      expect((await dag.verifyChain()).problems).toEqual([
+        { kind: 'deleted', snapshotId: first.id, sequence: 0, message: `snapshot ${first.id} was removed without a delete entry` }
+      ]);
+    });
+
+    it('should reject entries re-signed with another key', async (): Promise<void> => {
+      const forger = new RyuMetadataDAG(fs.mkdtempSync(path.join(storagePath, 'forged-')), { signingKey: generateSigningKey() });
+      await forger.createSnapshot({}, [], 'forged');
+
+      const verification = await forger.verifyChain({ publicKeys: [signingKey.publicKey] });
+      expect(verification.problems.map(problem => problem.kind)).toEqual(['signature']);
+      expect(verification.problems[0].message).toContain('untrusted key');
+
+      const chain = readJson<ChainEntry[]>('chain.json');
+      chain[1].recordedAt = new Date(0).toISOString();
+      writeJson('chain.json', chain);
+      expect((await dag.verifyChain()).problems[0].message).toBe('entry 1 has an invalid signature');
+    });
+
+    it('should detect a truncated chain against a recorded head', async (): Promise<void> => {
+      const { headHash } = await dag.verifyChain();
+      writeJson('chain.json', readJson<ChainEntry[]>('chain.json').slice(0, 1));
+      writeJson('snapshots.json', readJson<BackupSnapshot[]>('snapshots.json').filter(snapshot => snapshot.id !== second.id));
+
+      expect((await dag.verifyChain()).valid).toBe(true);
+      expect((await dag.verifyChain({ expectedHead: headHash! })).problems.map(problem => problem.kind)).toEqual(['truncated']);
+    });
+
+    it('should refuse to open when the chain cannot be parsed', async (): Promise<void> => {
+      const chainPath = path.join(metadataPath, 'chain.json');
+      fs.writeFileSync(chainPath, '[{"sequence": 0,');
+      const snapshotsBefore = fs.readFileSync(path.join(metadataPath, 'snapshots.json'), 'utf-8');
+
+      expect(() => new RyuMetadataDAG(metadataPath, { signingKey })).toThrow(SyntaxError);
+      expect(fs.readFileSync(chainPath, 'utf-8')).toBe('[{"sequence": 0,');
+      expect(fs.readFileSync(path.join(metadataPath, 'snapshots.json'), 'utf-8')).toBe(snapshotsBefore);
+    });
+  });
+
+  it('should load PEM keys and require a key to verify', async (): Promise<void> => {
+    const pem = signingKey.privateKey.export({ type: 'pkcs8', format: 'pem' });
+    expect(createSigningKey(pem).id).toBe(signingKey.id);
+    expect(() => createSigningKey(crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey))
+      .toThrow('Snapshot signing keys must be Ed25519, got ec');
+
+    await expect(new RyuMetadataDAG(metadataPath).verifyChain()).rejects.toThrow('Chain verification requires a public key');
+  });
+
+  it('should sign encrypted manager snapshots', async (): Promise<void> => {
+    const keyProvider = new MemoryKeyProvider(crypto.randomBytes(32));
+    // The blobs from beforeEach are plaintext
+    const manager = new AikoRyuBackupManager(storagePath, { signingKey, keyProvider, allowPlaintext: true });
+    manager.registerAgent(new AikoAgent('aiko-1'));
+    const snapshot = await manager.createSnapshot('signed and sealed');
+
+    expect(snapshot.signature?.keyId).toBe(signingKey.id);
+    expect((await manager.verifyChain()).valid).toBe(true);
+    expect((await manager.rotateEncryptionKey()).unchanged).toBeGreaterThan(0);
+
+    // Bundles leave the signature behind; the target signs its own copy
+    const targetPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-chain-target-'));
+    try {
+      const target = new AikoRyuBackupManager(targetPath, { signingKey: generateSigningKey() });
+      const imported = await target.importSnapshot(await manager.exportSnapshot(snapshot.id));
+      expect(imported.signature?.keyId).not.toBe(signingKey.id);
+      expect((await target.verifyChain()).valid).toBe(true);
+    } finally {
+      fs.rmSync(targetPath, { recursive: true, force: true });
+    }
+  });
+});
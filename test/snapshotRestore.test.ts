@@ -0,0 +1,213 @@
+// test/snapshotRestore.test.ts
+// Tests for rehydration, recomputation and the regeneration strategies of restoreSnapshot
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AikoCAS,
+  AikoRyuBackupManager,
+  BackupSnapshot,
+  DAGEdge,
+  DAGNode,
+  NodeRestorer,
+  RegenerationPolicy,
+  RyuMetadataDAG,
+  computeContentHash
+} from '../src/backup/ContentAddressableStorage';
+import { AikoAgent } from '../src/agents/AikoAgent';
+import { buildNode } from './fixtures';
+
+interface Value {
+  value: number;
+}
+
+// a -> b -> c: b doubles a, c adds one to b
+const producers: Record<string, (inputs: Value[]) => Value> = {
+  seed: () => ({ value: 1 }),
+  double: ([input]) => ({ value: input.value * 2 }),
+  increment: ([input]) => ({ value: input.value + 1 })
+};
+
+function buildPolicy(overrides: Partial<RegenerationPolicy> = {}): RegenerationPolicy {
+  return {
+    strategy: 'incremental',
+    validateBeforeRestore: true,
+    preserveHistory: true,
+    maxSnapshots: 10,
+    ttlDays: 30,
+    ...overrides
+  };
+}
+
+// Live state keyed by node id, as the owning agents would hold it
+class RecordingRestorer implements NodeRestorer {
+  live: Record<string, unknown> = {};
+  rehydrated: string[] = [];
+  recomputed: string[] = [];
+  seedValue = 1;
+
+  async currentHash(node: DAGNode): Promise<string | undefined> {
+    return node.id in this.live ? computeContentHash(this.live[node.id]) : undefined;
+  }
+
+  async rehydrate(node: DAGNode, content: unknown): Promise<void> {
+    this.live[node.id] = content;
+    this.rehydrated.push(node.id);
+  }
+
+  async recompute(node: DAGNode, inputs: unknown[]): Promise<unknown> {
+    this.recomputed.push(node.id);
+    return node.metadata.capability === 'seed'
+      ? { value: this.seedValue }
+      : producers[node.metadata.capability](inputs as Value[]);
+  }
+}
+
+describe('Snapshot restore', () => {
+  let storagePath: string;
+  let cas: AikoCAS;
+  let dag: RyuMetadataDAG;
+  let snapshot: BackupSnapshot;
+  let hashes: Record<string, string>;
+  let restorer: RecordingRestorer;
+
+  beforeEach(async (): Promise<void> => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aikoryu-restore-'));
+    cas = new AikoCAS(storagePath);
+    dag = new RyuMetadataDAG(path.join(storagePath, 'metadata'));
+    restorer = new RecordingRestorer();
+
+    const a = await cas.store({ value: 1 });
+    const b = await cas.store({ value: 2 });
+    const c = await cas.store({ value: 3 });
+    hashes = { a, b, c };
+
+    const edges: DAGEdge[] = [
+      { from: 'a', to: 'b', type: 'dependency', metadata: {} },
+      { from: 'b', to: 'c', type: 'dependency', metadata: {} }
+    ];
+    snapshot = await dag.createSnapshot({
+      c: buildNode('c', c, { metadata: { capability: 'increment', inputHashes: [b] } }),
+      b: buildNode('b', b, { metadata: { capability: 'double', inputHashes: [a] } }),
+      a: buildNode('a', a, { metadata: { capability: 'seed' } })
+    }, edges, 'chain');
+  });
+
+  afterEach((): void => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should rehydrate every node in dependency order', async (): Promise<void> => {
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy({ strategy: 'full' }), restorer);
+
+    expect(result.result).toBe(true);
+    expect(result.consensus).toBe(true);
+    expect(restorer.rehydrated).toEqual(['a', 'b', 'c']);
+    expect(restorer.live).toEqual({ a: { value: 1 }, b: { value: 2 }, c: { value: 3 } });
+  });
+
+  it('should skip nodes that already match on an incremental restore', async (): Promise<void> => {
+    restorer.live = { a: { value: 1 }, b: { value: 99 }, c: { value: 3 } };
+
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy(), restorer);
+
+    expect(restorer.rehydrated).toEqual(['b']);
+    expect(result.details?.skippedNodes).toBe('a,c');
+    expect(restorer.live.b).toEqual({ value: 2 });
+  });
+
+  it('should recompute missing nodes from their inputs and store them again', async (): Promise<void> => {
+    await cas.delete(hashes.b);
+
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy(), restorer);
+
+    expect(result.result).toBe(true);
+    expect(result.consensus).toBe(false);
+    expect(result.details?.recomputedNodes).toBe('b');
+    expect(result.details?.restoredNodes).toBe('a,c');
+    expect(restorer.live.b).toEqual({ value: 2 });
+    expect(cas.exists(hashes.b)).toBe(true);
+  });
+
+  it('should recompute nodes whose stored content fails validation', async (): Promise<void> => {
+    const blobPath = path.join(storagePath, 'blobs', `${hashes.c}.json`);
+    const blob = JSON.parse(fs.readFileSync(blobPath, 'utf-8'));
+    blob.content = { value: 42 };
+    fs.writeFileSync(blobPath, JSON.stringify(blob));
+
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy(), restorer);
+
+    expect(result.details?.recomputedNodes).toBe('c');
+    expect(restorer.live.c).toEqual({ value: 3 });
+  });
+
+  it('should only recompute dependents whose inputs changed on an incremental restore', async (): Promise<void> => {
+    await cas.delete(hashes.a);
+
+    await dag.restoreSnapshot(snapshot.id, cas, buildPolicy(), restorer);
+    expect(restorer.recomputed).toEqual(['a']);
+
+    restorer = new RecordingRestorer();
+    restorer.seedValue = 5;
+    await cas.delete(hashes.a);
+
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy(), restorer);
+    expect(restorer.recomputed).toEqual(['a', 'b', 'c']);
+    expect(restorer.live).toEqual({ a: { value: 5 }, b: { value: 10 }, c: { value: 11 } });
+    expect(cas.exists(computeContentHash({ value: 10 }))).toBe(true);
+    expect(result.details?.restoredNodesCount).toBe(0);
+  });
+
+  it('should recompute everything downstream of a recomputed node on a full restore', async (): Promise<void> => {
+    await cas.delete(hashes.a);
+
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy({ strategy: 'full' }), restorer);
+
+    expect(restorer.recomputed).toEqual(['a', 'b', 'c']);
+    expect(result.details?.recomputedNodes).toBe('a,b,c');
+    expect(restorer.live).toEqual({ a: { value: 1 }, b: { value: 2 }, c: { value: 3 } });
+  });
+
+  it('should restore only the selected nodes and their dependencies', async (): Promise<void> => {
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy({ strategy: 'selective', selectedNodes: ['b'] }), restorer);
+
+    expect(result.result).toBe(true);
+    expect(restorer.rehydrated).toEqual(['a', 'b']);
+    expect(result.details?.skippedNodes).toBe('c');
+  });
+
+  it('should reject a selective restore without valid selected nodes', async (): Promise<void> => {
+    const none = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy({ strategy: 'selective' }), restorer);
+    const unknown = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy({ strategy: 'selective', selectedNodes: ['x'] }), restorer);
+
+    expect(none.result).toBe(false);
+    expect(unknown.reason).toContain('Selected nodes not in snapshot: x');
+    expect(restorer.rehydrated).toEqual([]);
+  });
+
+  it('should fail nodes that are lost and cannot be recomputed', async (): Promise<void> => {
+    await cas.delete(hashes.b);
+
+    const result = await dag.restoreSnapshot(snapshot.id, cas, buildPolicy());
+
+    expect(result.result).toBe(false);
+    expect(result.details?.failedNodes).toBe('b');
+    expect(result.details?.restoredNodes).toBe('a,c');
+    expect(result.reason).toContain('no recomputation registered');
+  });
+
+  it('should leave agents whose state already matches untouched', async (): Promise<void> => {
+    const manager = new AikoRyuBackupManager(storagePath);
+    const aiko = new AikoAgent('aiko-1');
+    manager.registerAgent(aiko);
+    const aikoSnapshot = await manager.createSnapshot('unchanged');
+
+    const incremental = await manager.restoreSnapshot(aikoSnapshot.id);
+    const full = await manager.restoreSnapshot(aikoSnapshot.id, buildPolicy({ strategy: 'full' }));
+
+    expect(incremental.details?.skippedNodes).toBe('aiko-1');
+    expect(incremental.details?.rehydratedAgents).toBe('');
+    expect(full.details?.rehydratedAgents).toBe('aiko-1');
+  });
+});
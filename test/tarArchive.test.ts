@@ -0,0 +1,51 @@
+// test/tarArchive.test.ts
+// Tests for the ustar writer and reader used by snapshot bundles
+
+import { Buffer } from 'buffer';
+import { readTar, writeTar } from '../src/backup/TarArchive';
+
+describe('TarArchive', () => {
+  it('should round-trip entries padded to 512-byte blocks', (): void => {
+    const entries = [
+      { path: 'manifest.json', data: Buffer.from('{"version":1}') },
+      { path: 'empty.txt', data: Buffer.alloc(0) },
+      { path: 'streams/blob.bin', data: Buffer.alloc(1300, 7) }
+    ];
+
+    const archive = writeTar(entries);
+
+    // header + 1 block, header, header + 3 blocks, end marker
+    expect(archive.length).toBe(512 * (2 + 1 + 4 + 2));
+    expect(readTar(archive)).toEqual(entries);
+  });
+
+  it('should write ustar headers that other tools accept', (): void => {
+    const archive = writeTar([{ path: 'a.txt', data: Buffer.from('a') }], new Date('2025-01-01T00:00:00.000Z'));
+
+    expect(archive.subarray(257, 263).toString()).toBe('ustar\u0000');
+    expect(archive.subarray(124, 135).toString()).toBe('00000000001');
+    expect(parseInt(archive.subarray(136, 147).toString(), 8)).toBe(Date.parse('2025-01-01T00:00:00.000Z') / 1000);
+  });
+
+  it('should produce identical bytes for identical input', (): void => {
+    const entries = [{ path: 'a.txt', data: Buffer.from('same') }];
+    expect(writeTar(entries).equals(writeTar(entries))).toBe(true);
+  });
+
+  it('should split long paths into prefix and name', (): void => {
+    const longPath = `${'nested/'.repeat(20)}file.json`;
+    expect(readTar(writeTar([{ path: longPath, data: Buffer.from('{}') }]))[0].path).toBe(longPath);
+    expect(() => writeTar([{ path: 'x'.repeat(101), data: Buffer.alloc(0) }])).toThrow('Tar entry path too long');
+  });
+
+  it('should reject corrupt and truncated archives', (): void => {
+    const archive = writeTar([{ path: 'a.txt', data: Buffer.from('abc') }]);
+
+    const corrupt = Buffer.from(archive);
+    corrupt[0] = 'b'.charCodeAt(0);
+    expect(() => readTar(corrupt)).toThrow('Invalid tar header checksum at offset 0');
+
+    expect(() => readTar(archive.subarray(0, 512))).toThrow('Truncated tar entry: a.txt');
+    expect(() => readTar(archive.subarray(0, 1024))).toThrow('missing its end-of-archive marker');
+  });
+});